@@ -0,0 +1,42 @@
+#!/usr/bin/env node
+
+/**
+ * Print the balance report (weapon DPS, time to kill, enemy density, drops per minute)
+ *
+ * Usage: node scripts/balance-report.mjs [--csv] [--out dir] [content dir]
+ *   (default content dir: assets/patterns)
+ * Prints Markdown, or every table as CSV with --csv. With --out, writes
+ * balance-report.md and one <table>.csv per table to that directory instead.
+ */
+
+import { mkdir, writeFile } from 'fs/promises';
+import { join, resolve } from 'path';
+import { runnerImport } from 'vite';
+import { readContentSources } from './content-sources.mjs';
+
+const args = process.argv.slice(2);
+const csv = args.includes('--csv');
+const outIndex = args.indexOf('--out');
+const outDir = outIndex >= 0 ? args[outIndex + 1] : undefined;
+const positional = args.filter((arg, i) => !arg.startsWith('--') && i !== outIndex + 1);
+const dir = resolve(positional[0] ?? 'assets/patterns');
+
+// Load the TypeScript report through Vite so it uses the game's Balancer and schemas
+const {
+  module: { balanceContentFromSources, buildBalanceReport, formatCsv, formatMarkdown },
+} = await runnerImport('/src/data/BalanceReport.ts', { logLevel: 'error' });
+
+const tables = buildBalanceReport(balanceContentFromSources(await readContentSources(dir)));
+
+if (outDir) {
+  await mkdir(outDir, { recursive: true });
+  await writeFile(join(outDir, 'balance-report.md'), formatMarkdown(tables));
+  for (const table of tables) {
+    await writeFile(join(outDir, `${table.name}.csv`), formatCsv(table));
+  }
+  console.log(`Wrote balance-report.md and ${tables.length} CSV files to ${outDir}`);
+} else if (csv) {
+  console.log(tables.map((table) => `# ${table.title}\n${formatCsv(table)}`).join('\n'));
+} else {
+  process.stdout.write(formatMarkdown(tables));
+}
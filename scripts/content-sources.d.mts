@@ -0,0 +1 @@
+export function readContentSources(dir: string): Promise<Record<string, string>>;
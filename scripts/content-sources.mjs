@@ -0,0 +1,24 @@
+/**
+ * Read every stage content file (*.json5, plus bulletml/*.xml) in a content directory
+ *
+ * Shared by the content hot reload (vite.config.ts), content:lint and balance:report.
+ * Returns sources keyed by path relative to the directory, as ContentLint expects.
+ */
+
+import { readdir, readFile } from 'fs/promises';
+import { join } from 'path';
+
+export async function readContentSources(dir) {
+  const sources = {};
+  for (const name of await readdir(dir)) {
+    if (name.endsWith('.json5')) {
+      sources[name] = await readFile(join(dir, name), 'utf-8');
+    }
+  }
+  const bulletmlDir = join(dir, 'bulletml');
+  const scripts = await readdir(bulletmlDir).catch(() => []);
+  for (const name of scripts.filter((file) => file.endsWith('.xml'))) {
+    sources[`bulletml/${name}`] = await readFile(join(bulletmlDir, name), 'utf-8');
+  }
+  return sources;
+}
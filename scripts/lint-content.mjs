@@ -0,0 +1,32 @@
+#!/usr/bin/env node
+
+/**
+ * Lint stage content (waves, patterns, bosses, enemies, paths and BulletML scripts)
+ *
+ * Usage: node scripts/lint-content.mjs [dir]   (default: assets/patterns)
+ * Prints every problem and exits 1 if any is an error, so bad content fails the build.
+ */
+
+import { join, relative, resolve } from 'path';
+import { runnerImport } from 'vite';
+import { readContentSources } from './content-sources.mjs';
+
+const dir = resolve(process.argv[2] ?? 'assets/patterns');
+
+// Load the TypeScript linter through Vite so it shares the game's schemas
+const {
+  module: { lintContent },
+} = await runnerImport('/src/data/ContentLint.ts', { logLevel: 'error' });
+
+const sources = await readContentSources(dir);
+const issues = lintContent(sources);
+for (const issue of issues) {
+  const file = relative(process.cwd(), join(dir, issue.file));
+  console.log(`${issue.severity === 'error' ? 'error  ' : 'warning'} ${file}: ${issue.message}`);
+}
+const errors = issues.filter((issue) => issue.severity === 'error').length;
+console.log(
+  `\n${Object.keys(sources).length} files checked: ${errors} error(s), ${issues.length - errors} warning(s)`
+);
+
+process.exit(errors > 0 ? 1 : 0);
@@ -17,8 +17,20 @@ export const GAME_CONFIG = {
     mid: 0.6,
     near: 0.9,
   },
+  /** Fixed simulation rate in steps per second (independent of display refresh rate) */
+  simStepHz: 120,
+  /** Longest frame fed to the simulation in ms; longer lag spikes are dropped, not caught up */
+  maxFrameMs: 250,
   /** Grid cell size for collision broadphase */
   collisionGridSize: 128,
+  /** Tint of each weapon family's bullets, pickups and HUD label */
+  weaponColors: {
+    spread: 0x00ffff,
+    laser: 0xff44ff,
+    homing: 0xffaa00,
+    wave: 0x44ff66,
+    tail: 0x6688ff,
+  },
   /** Debug: God mode (player invincible) */
   godMode: false,
 } as const;
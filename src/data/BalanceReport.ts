@@ -0,0 +1,290 @@
+/**
+ * BalanceReport - Balance numbers worked out from the Balancer formulas
+ *
+ * Tabulates weapon DPS per tier, time to kill every enemy archetype and boss,
+ * enemy density over each boss phase (from the waves, or BALANCER.spawnSchedule
+ * when there are none, scaled by the spawn count multiplier), expected
+ * power-up drops per minute and DPS for every weapon family level. Printed as Markdown or CSV by
+ * scripts/balance-report.mjs (npm run balance:report) so balance changes can be
+ * reviewed as a diff.
+ */
+
+import JSON5 from 'json5';
+import {
+  BALANCER,
+  calculateTTK,
+  calculateWeaponDPS,
+  getMaxWeaponLevel,
+  getWeaponSpec,
+  getWeaponSpecForTier,
+  WEAPON_FAMILIES,
+} from '../systems/Balancer';
+import { parseWaves, type Wave } from '../systems/PatternML';
+import { DEFAULT_BOSSES, parseBosses } from '../systems/BossDefinitions';
+import { DROP_TYPES, enemyRegistry, parseEnemies } from '../systems/EnemyArchetypes';
+import { ENEMY_TYPES } from '../entities/EnemyTypes';
+import { timelineEndMs } from './WaveTimeline';
+import { CONTENT_FILES } from './ContentLint';
+import type { BossDefinition, EnemyArchetype } from '../types';
+
+export interface BalanceContent {
+  enemies: EnemyArchetype[];
+  bosses: BossDefinition[];
+  /** Stage waves; when empty, enemies come from BALANCER.spawnSchedule as in the game */
+  waves: Wave[];
+}
+
+export interface ReportTable {
+  /** File name stem for the CSV */
+  name: string;
+  title: string;
+  note?: string;
+  headers: string[];
+  rows: (string | number)[][];
+}
+
+/**
+ * Enemies spawned at one moment of a boss phase
+ */
+export interface StageSpawn {
+  /** Boss phase: 0 until the first boss, then 1, ... */
+  phase: number;
+  /** Seconds on the boss timer */
+  timeSec: number;
+  /** Enemy keys, after the spawn count multiplier */
+  enemies: string[];
+}
+
+const round = (value: number, places: number = 2): number => {
+  const scale = 10 ** places;
+  return Math.round(value * scale) / scale;
+};
+
+/**
+ * Parse content sources keyed by CONTENT_FILES name, falling back to the built-in
+ * enemies and bosses like the game does when a file is missing
+ */
+export function balanceContentFromSources(sources: Record<string, string>): BalanceContent {
+  const read = <T>(file: string, parse: (json: unknown) => T[]): T[] => {
+    const text = sources[file];
+    return text === undefined ? [] : parse(JSON5.parse(text));
+  };
+  const enemies = read(CONTENT_FILES.enemies, parseEnemies);
+  const bosses = read(CONTENT_FILES.bosses, parseBosses);
+  return {
+    enemies: enemies.length ? enemies : Object.values(ENEMY_TYPES),
+    bosses: bosses.length ? bosses : DEFAULT_BOSSES,
+    waves: read(CONTENT_FILES.waves, parseWaves),
+  };
+}
+
+/**
+ * Every spawn from the start of the run to the last boss, following Simulation.updateSpawning:
+ * spawning stops when a boss appears, the clock runs spawnRateGrowthPerBoss faster after each
+ * boss, and the spawn count multiplier keeps growing across phases
+ */
+export function stageSpawns(content: BalanceContent): StageSpawn[] {
+  const spawns: StageSpawn[] = [];
+  const every = BALANCER.spawnCountGrowthEverySec;
+  let carried = 1; // Spawn count multiplier at the start of the phase
+
+  content.bosses.forEach((boss, phase) => {
+    const rate = BALANCER.spawnRateGrowthPerBoss ** phase;
+    const multiplierAt = (timeSec: number): number =>
+      carried * BALANCER.spawnCountGrowth ** Math.floor(timeSec / every);
+
+    for (const event of timelineEvents(content.waves, phase > 0, boss.spawnAfterSec * rate)) {
+      const timeSec = event.timeSec / rate;
+      spawns.push({ phase, timeSec, enemies: event.enemies(multiplierAt(timeSec)) });
+    }
+    carried = multiplierAt(boss.spawnAfterSec);
+  });
+
+  return spawns;
+}
+
+interface TimelineEvent {
+  /** Seconds on the wave clock */
+  timeSec: number;
+  enemies: (multiplier: number) => string[];
+}
+
+/**
+ * Spawns on the wave clock before `endSec`, in order: the waves (looping), or the spawn schedule
+ * (which only loops after the first boss)
+ */
+function timelineEvents(waves: Wave[], loopSchedule: boolean, endSec: number): TimelineEvent[] {
+  const wavesLoopSec = timelineEndMs(waves) / 1000;
+  const useWaves = waves.length > 0 && wavesLoopSec > 0;
+  const loopSec = useWaves
+    ? wavesLoopSec
+    : Math.max(...BALANCER.spawnSchedule.map((spawn) => spawn.time));
+  const once: TimelineEvent[] = useWaves
+    ? [...waves]
+        .sort((a, b) => a.t0 - b.t0)
+        .map((wave) => ({
+          timeSec: wave.t0 / 1000,
+          enemies: (multiplier) => waveEnemies(wave, multiplier),
+        }))
+    : BALANCER.spawnSchedule.map((spawn) => ({
+        timeSec: spawn.time,
+        enemies: (multiplier) =>
+          Array<string>(Math.max(1, Math.round(multiplier))).fill(spawn.enemyType),
+      }));
+
+  const events: TimelineEvent[] = [];
+  const loops = (useWaves || loopSchedule) && loopSec > 0;
+  for (let start = 0; start < endSec && (loops || start === 0); start += loopSec) {
+    events.push(...once.map((event) => ({ ...event, timeSec: start + event.timeSec })));
+  }
+  return events.filter((event) => event.timeSec < endSec);
+}
+
+function waveEnemies(wave: Wave, multiplier: number): string[] {
+  const enemies = Array<string>(Math.max(1, Math.round(wave.count * multiplier))).fill(wave.enemy);
+  if (wave.leader !== undefined) {
+    enemies[0] = wave.leader;
+  }
+  return enemies;
+}
+
+/**
+ * All report tables, in the order they are printed
+ */
+export function buildBalanceReport(content: BalanceContent): ReportTable[] {
+  const tiers = Array.from({ length: BALANCER.maxWeaponTier + 1 }, (_, tier) => tier);
+  const dps = tiers.map((tier) => calculateWeaponDPS(getWeaponSpecForTier(tier)));
+  const spawns = stageSpawns(content);
+
+  return [
+    {
+      name: 'weapons',
+      title: 'Weapon tiers',
+      headers: ['Tier', 'Bullets', 'Damage', 'Fire rate (/s)', 'DPS'],
+      rows: tiers.map((tier) => {
+        const spec = getWeaponSpecForTier(tier);
+        return [tier, spec.bulletCount, spec.damage, spec.fireRate, round(dps[tier]!)];
+      }),
+    },
+    {
+      name: 'ttk',
+      title: 'Time to kill (seconds, every bullet hitting)',
+      headers: ['Target', 'HP', ...tiers.map((tier) => `T${tier}`)],
+      rows: [
+        ...content.enemies.map((enemy) => [
+          enemy.name,
+          enemy.hp,
+          ...dps.map((value) => round(calculateTTK(enemy.hp, value))),
+        ]),
+        ...content.bosses.map((boss) => [
+          `${boss.name} (boss ×${round(boss.hp / BALANCER.bossHP)})`,
+          boss.hp,
+          ...dps.map((value) => round(calculateTTK(boss.hp, value))),
+        ]),
+      ],
+    },
+    densityTable(content, spawns),
+    dropsTable(content, spawns),
+    weaponFamiliesTable(),
+  ];
+}
+
+function weaponFamiliesTable(): ReportTable {
+  const families = WEAPON_FAMILIES.filter((family) => family !== 'spread');
+  return {
+    name: 'weapon-families',
+    title: 'Weapon families',
+    note:
+      'DPS against one target ahead: beams and piercing shots can hit several enemies, ' +
+      'and tail gun bullets fire backwards.',
+    headers: ['Family', 'Level', 'Bullets', 'Damage', 'Fire rate (/s)', 'DPS'],
+    rows: families.flatMap((family) =>
+      Array.from({ length: getMaxWeaponLevel(family) + 1 }, (_, level) => {
+        const spec = getWeaponSpec(family, level);
+        const dps = round(calculateWeaponDPS(spec));
+        return [family, level, spec.bulletCount, spec.damage, spec.fireRate, dps];
+      })
+    ),
+  };
+}
+
+function phaseLabel(content: BalanceContent, phase: number): string {
+  return `before ${content.bosses[phase]!.name}`;
+}
+
+function densityTable(content: BalanceContent, spawns: StageSpawn[]): ReportTable {
+  const every = BALANCER.spawnCountGrowthEverySec;
+  const rows: (string | number)[][] = [];
+  content.bosses.forEach((boss, phase) => {
+    for (let from = 0; from < boss.spawnAfterSec; from += every) {
+      const to = Math.min(from + every, boss.spawnAfterSec);
+      const window = spawns.filter((s) => s.phase === phase && s.timeSec >= from && s.timeSec < to);
+      const enemies = window.reduce((sum, s) => sum + s.enemies.length, 0);
+      rows.push([phaseLabel(content, phase), from, to, enemies, round(enemies / (to - from))]);
+    }
+  });
+  return {
+    name: 'density',
+    title: 'Enemy density',
+    note: `Spawned per ${every}s of boss timer, from ${
+      content.waves.length ? CONTENT_FILES.waves : 'BALANCER.spawnSchedule'
+    } with the spawn count multiplier (×${BALANCER.spawnCountGrowth} every ${every}s), at the starting rank.`,
+    headers: ['Phase', 'From (s)', 'To (s)', 'Enemies', 'Enemies/s'],
+    rows,
+  };
+}
+
+function dropsTable(content: BalanceContent, spawns: StageSpawn[]): ReportTable {
+  const registry = enemyRegistry(content.enemies);
+  return {
+    name: 'drops',
+    title: 'Power-up drops per minute',
+    note: 'Expected drops if every spawned enemy is destroyed, from the archetype drop tables.',
+    headers: [
+      'Phase',
+      ...DROP_TYPES.map((type) => type[0]!.toUpperCase() + type.slice(1)),
+      'Total',
+    ],
+    rows: content.bosses.map((boss, phase) => {
+      const perMinute = DROP_TYPES.map((type) => {
+        const expected = spawns
+          .filter((s) => s.phase === phase)
+          .flatMap((s) => s.enemies)
+          .reduce((sum, key) => sum + (registry[key]?.drops[type] ?? 0), 0);
+        return expected / (boss.spawnAfterSec / 60);
+      });
+      const total = perMinute.reduce((sum, value) => sum + value, 0);
+      return [phaseLabel(content, phase), ...perMinute.map((value) => round(value)), round(total)];
+    }),
+  };
+}
+
+/**
+ * The whole report as one Markdown document
+ */
+export function formatMarkdown(tables: ReportTable[]): string {
+  const sections = tables.map((table) => {
+    const lines = [`## ${table.title}`, ''];
+    if (table.note) {
+      lines.push(table.note, '');
+    }
+    lines.push(
+      `| ${table.headers.join(' | ')} |`,
+      `| ${table.headers.map((_, i) => (i === 0 ? '---' : '---:')).join(' | ')} |`,
+      ...table.rows.map((row) => `| ${row.join(' | ')} |`)
+    );
+    return lines.join('\n');
+  });
+  return ['# Balance report', ...sections].join('\n\n') + '\n';
+}
+
+/**
+ * One table as CSV
+ */
+export function formatCsv(table: ReportTable): string {
+  const cell = (value: string | number): string => {
+    const text = String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return [table.headers, ...table.rows].map((row) => row.map(cell).join(',')).join('\n') + '\n';
+}
@@ -0,0 +1,302 @@
+/**
+ * ContentLint - Validate stage content before it ships
+ *
+ * Runs every content file through its schema, then checks what the schemas
+ * can't: that names resolve (enemies, patterns, paths, onDeath children) and that the
+ * timeline makes sense. Used by scripts/lint-content.mjs (npm run content:lint).
+ */
+
+import JSON5 from 'json5';
+import { z } from 'zod';
+import { BALANCER } from '../systems/Balancer';
+import {
+  PatternLibrarySchema,
+  WaveSchema,
+  buildPatternLibrary,
+  type BulletPat,
+  type Wave,
+} from '../systems/PatternML';
+import { BossDefinitionSchema, DEFAULT_BOSSES } from '../systems/BossDefinitions';
+import { enemyRegistry, parseEnemies } from '../systems/EnemyArchetypes';
+import { parsePaths, type PathDef } from '../systems/Paths';
+import { isBulletMLRef, parseBulletML } from '../systems/BulletML';
+import { ENEMY_TYPES } from '../entities/EnemyTypes';
+import { GAME_CONFIG } from '../config/constants';
+import type { BossDefinition, EnemyArchetype } from '../types';
+
+export interface ContentIssue {
+  severity: 'error' | 'warning';
+  file: string;
+  message: string;
+}
+
+/** Content files by name, as found in assets/patterns */
+export const CONTENT_FILES = {
+  waves: 'waves.json5',
+  patterns: 'patterns.json5',
+  bosses: 'bosses.json5',
+  enemies: 'enemies.json5',
+  paths: 'paths.json5',
+} as const;
+
+/**
+ * Lint content sources keyed by file name (JSON5 files by their CONTENT_FILES name, BulletML by *.xml)
+ */
+export function lintContent(sources: Record<string, string>): ContentIssue[] {
+  const issues: ContentIssue[] = [];
+  const report = (severity: ContentIssue['severity'], file: string, message: string): void => {
+    issues.push({ severity, file, message });
+  };
+
+  // Parse a JSON5 file against its schema, reporting each problem (undefined if absent or invalid)
+  function load<T>(file: string, parse: (json: unknown) => T): T | undefined {
+    const text = sources[file];
+    if (text === undefined) {
+      return undefined;
+    }
+    try {
+      return parse(JSON5.parse(text));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        for (const issue of error.issues) {
+          report('error', file, `${issue.path.join('.') || '(root)'}: ${issue.message}`);
+        }
+      } else {
+        report('error', file, error instanceof Error ? error.message : String(error));
+      }
+      return undefined;
+    }
+  }
+
+  const waves = load(CONTENT_FILES.waves, (json) => z.array(WaveSchema).parse(json));
+  const patterns = load(CONTENT_FILES.patterns, (json) => PatternLibrarySchema.parse(json));
+  const bosses = load(CONTENT_FILES.bosses, (json) =>
+    z.array(BossDefinitionSchema).min(1).parse(json)
+  );
+  const enemies = load(CONTENT_FILES.enemies, parseEnemies);
+  const paths = load(CONTENT_FILES.paths, parsePaths);
+
+  for (const file of Object.keys(sources)) {
+    if (file.endsWith('.xml')) {
+      try {
+        parseBulletML(sources[file]!);
+      } catch (error) {
+        report('error', file, error instanceof Error ? error.message : String(error));
+      }
+    } else if (!Object.values<string>(CONTENT_FILES).includes(file)) {
+      report('warning', file, 'Not a known content file; it is never loaded');
+    }
+  }
+
+  const registry = enemies ? enemyRegistry(enemies) : ENEMY_TYPES;
+  const stageBosses = bosses ?? DEFAULT_BOSSES;
+  const library = buildPatternLibrary(patterns ?? [], waves, stageBosses, Object.values(registry));
+  const scripts = new Set(Object.keys(sources).filter(isBulletMLRef));
+  checkNames(
+    report,
+    library,
+    scripts,
+    waves ?? [],
+    patterns ?? [],
+    stageBosses,
+    Object.values(registry)
+  );
+  if (waves) {
+    checkWaves(report, library, waves, registry, stageBosses);
+  }
+  checkPaths(report, waves ?? [], paths ?? []);
+  return issues;
+}
+
+type Report = (severity: ContentIssue['severity'], file: string, message: string) => void;
+
+function describeWave(wave: Wave, index: number): string {
+  return `waves.${index} (t0 ${wave.t0}ms)`;
+}
+
+/**
+ * Every pattern name used by waves, bosses, enemies and other patterns must resolve, and every
+ * BulletML script a boss or enemy fires must be one of the content sources
+ */
+function checkNames(
+  report: Report,
+  library: Map<string, BulletPat>,
+  scripts: Set<string>,
+  waves: Wave[],
+  patterns: BulletPat[],
+  bosses: BossDefinition[],
+  enemies: EnemyArchetype[]
+): void {
+  const missing = (name: string): boolean => !library.has(name);
+  const unknownFire = (name: string): string | null => {
+    if (isBulletMLRef(name)) {
+      return scripts.has(name) ? null : `unknown BulletML script "${name}"`;
+    }
+    return missing(name) ? `unknown pattern "${name}"` : null;
+  };
+
+  const seen = new Set<string>();
+  for (const pattern of patterns) {
+    if (seen.has(pattern.name)) {
+      report(
+        'warning',
+        CONTENT_FILES.patterns,
+        `Pattern "${pattern.name}" is defined twice; the first wins`
+      );
+    }
+    seen.add(pattern.name);
+  }
+
+  waves.forEach((wave, index) => {
+    if (typeof wave.pattern === 'string' && missing(wave.pattern)) {
+      report(
+        'error',
+        CONTENT_FILES.waves,
+        `${describeWave(wave, index)}: unknown pattern "${wave.pattern}"`
+      );
+    }
+  });
+  for (const boss of bosses) {
+    boss.phases.forEach((phase, index) => {
+      const problem = typeof phase.firePattern === 'string' && unknownFire(phase.firePattern);
+      if (problem) {
+        report('error', CONTENT_FILES.bosses, `Boss "${boss.name}" phase ${index}: ${problem}`);
+      }
+    });
+  }
+  for (const enemy of enemies) {
+    const problem = typeof enemy.firePattern === 'string' && unknownFire(enemy.firePattern);
+    if (problem) {
+      report('error', CONTENT_FILES.enemies, `Enemy "${enemy.name}": ${problem}`);
+    }
+  }
+
+  const minLifeMs = 1000 / GAME_CONFIG.simStepHz;
+  for (const pattern of library.values()) {
+    for (const entry of pattern.bullets) {
+      if ('pattern' in entry) {
+        if (missing(entry.pattern)) {
+          report(
+            'error',
+            CONTENT_FILES.patterns,
+            `Pattern "${pattern.name}" includes unknown pattern "${entry.pattern}"`
+          );
+        }
+        continue;
+      }
+      if (entry.onDeath !== undefined && missing(entry.onDeath)) {
+        report(
+          'error',
+          CONTENT_FILES.patterns,
+          `Pattern "${pattern.name}" spawns unknown pattern "${entry.onDeath}" on death`
+        );
+      }
+      if (typeof entry.lifeMs === 'number' && entry.lifeMs < minLifeMs) {
+        report(
+          'warning',
+          CONTENT_FILES.patterns,
+          `Pattern "${pattern.name}": lifeMs ${entry.lifeMs} expires before the bullet's first step (${minLifeMs.toFixed(1)}ms)`
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Waves must name known enemies, shouldn't overlap and must start (and fire) while their phase lasts
+ */
+function checkWaves(
+  report: Report,
+  library: Map<string, BulletPat>,
+  waves: Wave[],
+  registry: Readonly<Record<string, EnemyArchetype>>,
+  bosses: BossDefinition[]
+): void {
+  const file = CONTENT_FILES.waves;
+
+  // The wave clock runs until the next boss appears, faster after each boss
+  const lastReachableMs = Math.max(
+    ...bosses.map((boss, i) => boss.spawnAfterSec * 1000 * BALANCER.spawnRateGrowthPerBoss ** i)
+  );
+
+  waves.forEach((wave, index) => {
+    const label = describeWave(wave, index);
+    for (const [role, name] of [
+      ['enemy', wave.enemy],
+      ['leader', wave.leader],
+    ] as const) {
+      if (name !== undefined && !(name in registry)) {
+        const camel = name.replace(/[-_](\w)/g, (_, c: string) => c.toUpperCase());
+        const hint = camel in registry ? ` (did you mean "${camel}"?)` : '';
+        report('error', file, `${label}: unknown ${role} "${name}"${hint}`);
+      }
+    }
+    if (wave.duration <= 0) {
+      report('error', file, `${label}: duration must be positive`);
+    }
+    if (wave.t0 < 0 || wave.t0 >= lastReachableMs) {
+      report(
+        'warning',
+        file,
+        `${label}: never spawns; the wave clock only runs from 0 to ${lastReachableMs}ms`
+      );
+    }
+
+    const pattern = typeof wave.pattern === 'string' ? library.get(wave.pattern) : wave.pattern;
+    if (pattern && pattern.spawnEveryMs > 0) {
+      const volleys = Math.floor(wave.duration / pattern.spawnEveryMs);
+      if (volleys < pattern.repeat) {
+        report(
+          'warning',
+          file,
+          `${label}: only ${volleys} of ${pattern.repeat} volleys fit in its ${wave.duration}ms duration`
+        );
+      }
+    }
+  });
+
+  const sorted = [...waves].sort((a, b) => a.t0 - b.t0);
+  for (let i = 1; i < sorted.length; i++) {
+    const previous = sorted[i - 1]!;
+    const wave = sorted[i]!;
+    if (wave.t0 < previous.t0 + previous.duration) {
+      report(
+        'warning',
+        file,
+        `Waves at ${previous.t0}ms and ${wave.t0}ms overlap (the first runs until ${previous.t0 + previous.duration}ms)`
+      );
+    }
+  }
+}
+
+/**
+ * Waves must name known paths, and paths should end off screen (enemies vanish where a path ends)
+ */
+function checkPaths(report: Report, waves: Wave[], paths: PathDef[]): void {
+  const names = new Set<string>();
+  for (const path of paths) {
+    if (names.has(path.name)) {
+      report('warning', CONTENT_FILES.paths, `Path "${path.name}" is defined twice; the last wins`);
+    }
+    names.add(path.name);
+
+    const [x, y] = path.points[path.points.length - 1]!;
+    if (x >= 0 && x <= 1 && y >= 0 && y <= 1) {
+      report(
+        'warning',
+        CONTENT_FILES.paths,
+        `Path "${path.name}" ends on screen at [${x}, ${y}]; enemies disappear there`
+      );
+    }
+  }
+
+  waves.forEach((wave, index) => {
+    if (wave.path !== undefined && !names.has(wave.path)) {
+      report(
+        'error',
+        CONTENT_FILES.waves,
+        `${describeWave(wave, index)}: unknown path "${wave.path}"`
+      );
+    }
+  });
+}
@@ -0,0 +1,67 @@
+/**
+ * ContentReload - Hot reload of stage content during development
+ *
+ * The dev server (see contentHotReload in vite.config.ts) pushes every content
+ * file whenever one under assets/patterns changes. Valid content replaces the
+ * stage content and CONTENT_RELOADED is emitted on game.events so the running
+ * GameScene can rewind or carry on; invalid content is listed in ContentOverlayScene
+ * and the stage keeps its current content.
+ */
+
+import Phaser from 'phaser';
+import { lintContent, type ContentIssue } from './ContentLint';
+import { applyStageContent } from './Waves';
+import { ErrorHandler } from '../utils/errorHandler';
+import { logger } from '../utils/logger';
+
+/** game.events event emitted with the changed file's name once new content is in place */
+export const CONTENT_RELOADED = 'content-reloaded';
+
+export const CONTENT_OVERLAY_SCENE = 'ContentOverlayScene';
+
+export interface ContentUpdate {
+  /** File that changed, relative to assets/patterns */
+  changed: string;
+  /** Every content file by name, as lintContent and applyStageContent take them */
+  sources: Record<string, string>;
+}
+
+/**
+ * Listen for content pushed by the dev server (does nothing in production builds)
+ */
+export function setupContentHotReload(game: Phaser.Game): void {
+  if (!import.meta.hot) {
+    return;
+  }
+  import.meta.hot.on('content:update', (update: ContentUpdate) => reloadContent(game, update));
+}
+
+function reloadContent(game: Phaser.Game, { changed, sources }: ContentUpdate): void {
+  const errors = lintContent(sources).filter((issue) => issue.severity === 'error');
+  if (errors.length > 0) {
+    logger.warn(`Content reload of ${changed} rejected: ${errors.length} error(s)`);
+    showErrors(game, changed, errors);
+    return;
+  }
+  const applied = ErrorHandler.executeSync(
+    'ContentReload.applyStageContent',
+    () => {
+      applyStageContent(sources);
+      return true;
+    },
+    false
+  );
+  if (!applied) {
+    return;
+  }
+  logger.info(`Reloaded stage content (${changed})`);
+  if (game.scene.isActive(CONTENT_OVERLAY_SCENE)) {
+    game.scene.stop(CONTENT_OVERLAY_SCENE);
+  }
+  game.events.emit(CONTENT_RELOADED, changed);
+}
+
+function showErrors(game: Phaser.Game, changed: string, issues: ContentIssue[]): void {
+  game.scene.start(CONTENT_OVERLAY_SCENE, { mode: 'errors', changed, issues });
+  game.scene.bringToTop(CONTENT_OVERLAY_SCENE);
+}
@@ -0,0 +1,54 @@
+/**
+ * High scores: the best score for each difficulty, kept in localStorage
+ */
+
+import { z } from 'zod';
+import { DIFFICULTY_NAMES, type DifficultyName } from '../systems/Difficulty';
+import { logger } from '../utils/logger';
+import { ErrorHandler } from '../utils/errorHandler';
+
+const HIGH_SCORES_KEY = 'synax.highScores';
+
+const HighScoresSchema = z.record(z.string(), z.number().int().min(0));
+
+export type HighScores = Partial<Record<DifficultyName, number>>;
+
+/**
+ * Best score per difficulty (difficulties never finished are missing)
+ */
+export function readHighScores(): HighScores {
+  const result = ErrorHandler.executeSync(
+    'HighScores.read',
+    () => {
+      const text = localStorage.getItem(HIGH_SCORES_KEY);
+      const stored = text ? HighScoresSchema.parse(JSON.parse(text)) : {};
+      return Object.fromEntries(
+        DIFFICULTY_NAMES.filter((name) => stored[name] !== undefined).map((name) => [
+          name,
+          stored[name],
+        ])
+      ) as HighScores;
+    },
+    {}
+  );
+  return result ?? {};
+}
+
+export function getHighScore(difficulty: DifficultyName): number {
+  return readHighScores()[difficulty] ?? 0;
+}
+
+/**
+ * Keep `score` if it beats the difficulty's best; returns whether it did
+ */
+export function recordHighScore(difficulty: DifficultyName, score: number): boolean {
+  const scores = readHighScores();
+  if (score <= (scores[difficulty] ?? 0)) {
+    return false;
+  }
+  ErrorHandler.executeSync('HighScores.write', () => {
+    localStorage.setItem(HIGH_SCORES_KEY, JSON.stringify({ ...scores, [difficulty]: score }));
+    logger.debug(`New ${difficulty} high score: ${score}`);
+  });
+  return true;
+}
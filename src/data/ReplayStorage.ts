@@ -0,0 +1,83 @@
+/**
+ * Persist replays: last run in localStorage, plus file export/import for sharing
+ */
+
+import { parseReplay, serializeReplay, type Replay } from '../sim/Replay';
+import { logger } from '../utils/logger';
+import { ErrorHandler } from '../utils/errorHandler';
+
+const LAST_REPLAY_KEY = 'synax.lastReplay';
+
+// Security: Maximum replay file size (8MB is well over an hour of input)
+const MAX_REPLAY_FILE_SIZE = 8 * 1024 * 1024;
+
+/**
+ * Store the replay of the most recent run
+ */
+export function saveLastReplay(replay: Replay): void {
+  ErrorHandler.executeSync('ReplayStorage.saveLastReplay', () => {
+    localStorage.setItem(LAST_REPLAY_KEY, serializeReplay(replay));
+    logger.debug(`Saved replay (${replay.frames.length} frames)`);
+  });
+}
+
+/**
+ * Load the replay of the most recent run, if there is a valid one
+ */
+export function loadLastReplay(): Replay | null {
+  const result = ErrorHandler.executeSync(
+    'ReplayStorage.loadLastReplay',
+    () => {
+      const text = localStorage.getItem(LAST_REPLAY_KEY);
+      return text ? parseReplay(text) : null;
+    },
+    null
+  );
+  return result ?? null;
+}
+
+/**
+ * Download a replay as a .json file
+ */
+export function downloadReplay(replay: Replay): void {
+  ErrorHandler.executeSync('ReplayStorage.downloadReplay', () => {
+    const blob = new Blob([serializeReplay(replay)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `synax-replay-${replay.seed}-${replay.finalScore ?? 0}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  });
+}
+
+/**
+ * Let the user pick a replay file and validate it
+ * Resolves to null if the dialog is cancelled or the file is invalid
+ */
+export function pickReplayFile(): Promise<Replay | null> {
+  return new Promise((resolve) => {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.json,application/json';
+    input.addEventListener('change', async () => {
+      const file = input.files?.[0];
+      if (!file) {
+        resolve(null);
+        return;
+      }
+      const replay = await ErrorHandler.execute(
+        'ReplayStorage.pickReplayFile',
+        async () => {
+          if (file.size > MAX_REPLAY_FILE_SIZE) {
+            throw new Error(`Replay file too large: ${file.size} bytes (max ${MAX_REPLAY_FILE_SIZE})`);
+          }
+          return parseReplay(await file.text());
+        },
+        null
+      );
+      resolve(replay ?? null);
+    });
+    input.click();
+  });
+}
@@ -0,0 +1,43 @@
+/**
+ * Mid-run save slot: one suspended run kept in localStorage
+ */
+
+import { parseSnapshot, serializeSnapshot, type SimSnapshot } from '../sim/Snapshot';
+import { logger } from '../utils/logger';
+import { ErrorHandler } from '../utils/errorHandler';
+
+const SAVE_SLOT_KEY = 'synax.saveSlot';
+
+/**
+ * Write a snapshot to the save slot, replacing any previous one
+ */
+export function writeSaveSlot(snapshot: SimSnapshot): void {
+  ErrorHandler.executeSync('SaveSlot.write', () => {
+    localStorage.setItem(SAVE_SLOT_KEY, serializeSnapshot(snapshot));
+    logger.debug(`Saved run at ${snapshot.state.stageTime.toFixed(1)}s`);
+  });
+}
+
+/**
+ * Read the saved snapshot, if the slot holds a valid one for this version
+ */
+export function readSaveSlot(): SimSnapshot | null {
+  const result = ErrorHandler.executeSync(
+    'SaveSlot.read',
+    () => {
+      const text = localStorage.getItem(SAVE_SLOT_KEY);
+      return text ? parseSnapshot(text) : null;
+    },
+    null
+  );
+  return result ?? null;
+}
+
+/**
+ * Empty the save slot (a suspended run can only be resumed once)
+ */
+export function clearSaveSlot(): void {
+  ErrorHandler.executeSync('SaveSlot.clear', () => {
+    localStorage.removeItem(SAVE_SLOT_KEY);
+  });
+}
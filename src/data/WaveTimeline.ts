@@ -0,0 +1,110 @@
+/**
+ * WaveTimeline - Editing helpers for the stage timeline editor (EditorScene)
+ *
+ * Edits stay valid: saving runs the waves through WaveSchema and writes JSON5
+ * that loads back as the same waves, so the result can replace waves.json5.
+ */
+
+import JSON5 from 'json5';
+import { parseWaves, type Wave } from '../systems/PatternML';
+import { ErrorHandler } from '../utils/errorHandler';
+
+/** Grid that dragged start times snap to */
+export const TIMELINE_SNAP_MS = 100;
+
+/** Header written above saved waves (the same notes as the bundled waves.json5) */
+const WAVES_FILE_HEADER = [
+  '// Stage waves. t0/duration are ms since the stage (or post-boss phase) started;',
+  '// the timeline loops after the last wave ends. Enemy keys must match a name in enemies.json5.',
+  '// pattern is either inline or the name of a pattern in patterns.json5.',
+  "// leader (optional) is the enemy key of the formation's leader; when it dies the rest",
+  '// break formation. Destroying every member pays bonus (default BALANCER.formationWipeBonus).',
+  '// path (optional) is the name of a path in paths.json5 for the members to fly one after',
+  "// another instead of the formation's own motion.",
+  '// y (optional) is the formation centre as a fraction of the play height (default 0.5).',
+];
+
+/**
+ * Round to the snap grid, never before the start of the stage
+ */
+export function snapMs(ms: number, step: number = TIMELINE_SNAP_MS): number {
+  return Math.max(0, Math.round(ms / step) * step);
+}
+
+/**
+ * End of the last wave (the loop length of the timeline)
+ */
+export function timelineEndMs(waves: Wave[]): number {
+  return waves.reduce((end, wave) => Math.max(end, wave.t0 + wave.duration), 0);
+}
+
+/**
+ * Row for each wave so overlapping waves are drawn on separate rows
+ */
+export function waveLanes(waves: Wave[]): number[] {
+  const laneEnds: number[] = [];
+  const lanes: number[] = new Array(waves.length).fill(0);
+  const order = waves.map((_, index) => index).sort((a, b) => waves[a]!.t0 - waves[b]!.t0);
+  for (const index of order) {
+    const wave = waves[index]!;
+    let lane = laneEnds.findIndex((end) => end <= wave.t0);
+    if (lane < 0) {
+      lane = laneEnds.length;
+    }
+    laneEnds[lane] = wave.t0 + wave.duration;
+    lanes[index] = lane;
+  }
+  return lanes;
+}
+
+/**
+ * Start of the latest wave at or before `waveMs` on the looping timeline (where a rewind lands)
+ */
+export function rewindPoint(waves: Wave[], waveMs: number): number {
+  const loopMs = timelineEndMs(waves);
+  if (loopMs <= 0) {
+    return 0;
+  }
+  const loopStart = Math.floor(waveMs / loopMs) * loopMs;
+  const started = waves.map((wave) => wave.t0).filter((t0) => t0 <= waveMs - loopStart);
+  return loopStart + (started.length ? Math.max(...started) : 0);
+}
+
+/**
+ * Next (or previous) option after `current`, wrapping around
+ */
+export function cycleOption<T>(options: readonly T[], current: T, step: 1 | -1): T {
+  const index = options.indexOf(current);
+  return options[(index + step + options.length) % options.length]!;
+}
+
+/**
+ * Validate waves and write them as waves.json5 text, in start order
+ * Throws (a ZodError) if any wave is invalid
+ */
+export function formatWaves(waves: Wave[]): string {
+  const sorted = parseWaves(waves).sort((a, b) => a.t0 - b.t0);
+  return `${WAVES_FILE_HEADER.join('\n')}\n${JSON5.stringify(sorted, { space: 2, quote: '"' })}\n`;
+}
+
+/**
+ * Download waves as a waves.json5 file
+ * Returns false (and saves nothing) if the waves are invalid
+ */
+export function downloadWaves(waves: Wave[]): boolean {
+  const saved = ErrorHandler.executeSync(
+    'WaveTimeline.downloadWaves',
+    () => {
+      const blob = new Blob([formatWaves(waves)], { type: 'application/json5' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = 'waves.json5';
+      link.click();
+      URL.revokeObjectURL(url);
+      return true;
+    },
+    false
+  );
+  return saved === true;
+}
@@ -1,8 +1,15 @@
 /**
- * Load and validate wave data from JSON5 files
+ * Load and validate stage content (waves, bullet patterns, bosses, enemies, paths) from JSON5 files,
+ * plus the bundled BulletML scripts that fire patterns can name
  */
 
-import { parseWaves, type Wave } from '../systems/PatternML';
+import { parsePatterns, parseWaves, type BulletPat, type Wave } from '../systems/PatternML';
+import { parseBosses } from '../systems/BossDefinitions';
+import { enemyRegistry, parseEnemies, unknownWaveEnemies } from '../systems/EnemyArchetypes';
+import { parsePaths, type PathDef } from '../systems/Paths';
+import { BULLETML_DIR, parseBulletML } from '../systems/BulletML';
+import { ENEMY_TYPES } from '../entities/EnemyTypes';
+import type { BossDefinition, EnemyArchetype } from '../types';
 import JSON5 from 'json5';
 import { validateUrlString } from '../utils/inputValidation';
 import { urlRateLimiter, getRateLimitKey } from '../utils/rateLimiter';
@@ -12,6 +19,27 @@ import { ErrorHandler } from '../utils/errorHandler';
 // Security: Maximum file size for wave data (1MB)
 const MAX_WAVE_FILE_SIZE = 1024 * 1024;
 
+/** Stage content files */
+export const STAGE_WAVES_URL = 'assets/patterns/waves.json5';
+export const STAGE_PATTERNS_URL = 'assets/patterns/patterns.json5';
+export const STAGE_BOSSES_URL = 'assets/patterns/bosses.json5';
+export const STAGE_ENEMIES_URL = 'assets/patterns/enemies.json5';
+export const STAGE_PATHS_URL = 'assets/patterns/paths.json5';
+
+// Bundled BulletML scripts, keyed by path
+const BULLETML_SCRIPTS = import.meta.glob<string>('/assets/patterns/bulletml/*.xml', {
+  query: '?raw',
+  import: 'default',
+});
+
+// Stage content, filled by loadStageContent (empty until loaded or if loading failed)
+let stageWaves: Wave[] = [];
+let stagePatterns: BulletPat[] = [];
+let stageBosses: BossDefinition[] = [];
+let stageEnemies: EnemyArchetype[] = [];
+let stagePaths: PathDef[] = [];
+let stageScripts: Record<string, string> = {}; // BulletML source by file, e.g. "bulletml/spiral.xml"
+
 /**
  * Enhanced URL validation to prevent SSRF attacks
  */
@@ -56,10 +84,15 @@ function validateWaveUrl(urlString: string): void {
 }
 
 /**
- * Load waves from a JSON5 file with security validation and rate limiting
+ * Load a JSON5 content file with security validation and rate limiting
+ * Resolves to an empty list (after logging) if it can't be fetched or fails validation.
  */
-export async function loadWaves(url: string): Promise<Wave[]> {
-  const result = await ErrorHandler.execute('Waves.loadWaves', async () => {
+async function loadContent<T>(
+  url: string,
+  context: string,
+  parse: (json: unknown) => T[]
+): Promise<T[]> {
+  const result = await ErrorHandler.execute(context, async () => {
     // Validate URL before fetching
     validateWaveUrl(url);
     
@@ -74,7 +107,7 @@ export async function loadWaves(url: string): Promise<Wave[]> {
     
     // Check response status
     if (!response.ok) {
-      throw new Error(`Failed to load waves: ${response.status} ${response.statusText}`);
+      throw new Error(`Failed to load content: ${response.status} ${response.statusText}`);
     }
     
     // Check content length if available
@@ -132,15 +165,69 @@ export async function loadWaves(url: string): Promise<Wave[]> {
     try {
       json = JSON5.parse(text);
     } catch (parseError) {
-      throw new Error(`Failed to parse wave data: ${parseError instanceof Error ? parseError.message : String(parseError)}`);
+      throw new Error(`Failed to parse content: ${parseError instanceof Error ? parseError.message : String(parseError)}`);
     }
     
-    return parseWaves(json);
+    return parse(json);
   }, []);
   
   return result ?? [];
 }
 
+/**
+ * Load waves from a JSON5 file with security validation and rate limiting
+ */
+export async function loadWaves(url: string): Promise<Wave[]> {
+  return loadContent(url, 'Waves.loadWaves', parseWaves);
+}
+
+/**
+ * Load a named bullet pattern library from a JSON5 file
+ */
+export async function loadPatterns(url: string): Promise<BulletPat[]> {
+  return loadContent(url, 'Waves.loadPatterns', parsePatterns);
+}
+
+/**
+ * Load boss definitions from a JSON5 file
+ */
+export async function loadBosses(url: string): Promise<BossDefinition[]> {
+  return loadContent(url, 'Waves.loadBosses', parseBosses);
+}
+
+/**
+ * Load enemy archetypes from a JSON5 file
+ */
+export async function loadEnemies(url: string): Promise<EnemyArchetype[]> {
+  return loadContent(url, 'Waves.loadEnemies', parseEnemies);
+}
+
+/**
+ * Load flight paths from a JSON5 file
+ */
+export async function loadPaths(url: string): Promise<PathDef[]> {
+  return loadContent(url, 'Waves.loadPaths', parsePaths);
+}
+
+/**
+ * Load the bundled BulletML scripts keyed "bulletml/<file>.xml", leaving out (after logging) any that don't parse
+ */
+export async function loadScripts(): Promise<Record<string, string>> {
+  const scripts: Record<string, string> = {};
+  for (const [path, load] of Object.entries(BULLETML_SCRIPTS)) {
+    const file = BULLETML_DIR + path.split('/').pop()!;
+    const xml = await ErrorHandler.execute(`Waves.loadScripts ${file}`, async () => {
+      const text = await load();
+      parseBulletML(text);
+      return text;
+    });
+    if (xml !== undefined) {
+      scripts[file] = xml;
+    }
+  }
+  return scripts;
+}
+
 /**
  * Get waves that should spawn at a given time
  */
@@ -150,3 +237,100 @@ export function getWavesAtTime(waves: Wave[], timeMs: number): Wave[] {
   );
 }
 
+/**
+ * Load the stage's waves, pattern library, bosses, enemies, paths and scripts so new runs can be driven by them
+ */
+export async function loadStageContent(): Promise<void> {
+  [stageWaves, stagePatterns, stageBosses, stageEnemies, stagePaths, stageScripts] =
+    await Promise.all([
+      loadWaves(STAGE_WAVES_URL),
+      loadPatterns(STAGE_PATTERNS_URL),
+      loadBosses(STAGE_BOSSES_URL),
+      loadEnemies(STAGE_ENEMIES_URL),
+      loadPaths(STAGE_PATHS_URL),
+      loadScripts(),
+    ]);
+  logger.info(
+    `Loaded ${stageWaves.length} waves, ${stagePatterns.length} patterns, ${stageBosses.length} bosses, ${stageEnemies.length} enemies, ${stagePaths.length} paths and ${Object.keys(stageScripts).length} BulletML scripts`
+  );
+
+  const registry = stageEnemies.length ? enemyRegistry(stageEnemies) : ENEMY_TYPES;
+  for (const name of unknownWaveEnemies(stageWaves, registry)) {
+    logger.warn(`Waves name unknown enemy "${name}"; those waves will be skipped`);
+  }
+}
+
+/**
+ * Replace stage content from file text keyed by file name (e.g. "waves.json5" or "bulletml/spiral.xml"),
+ * as pushed by the dev server on hot reload. Files missing from `sources` keep their content; throws if
+ * one is invalid.
+ */
+export function applyStageContent(sources: Record<string, string>): void {
+  const parse = <T>(url: string, parseFile: (json: unknown) => T[], current: T[]): T[] => {
+    const text = sources[url.split('/').pop()!];
+    return text === undefined ? current : parseFile(JSON5.parse(text));
+  };
+  // Parse everything before replacing anything, so a bad file leaves the stage untouched
+  const waves = parse(STAGE_WAVES_URL, parseWaves, stageWaves);
+  const patterns = parse(STAGE_PATTERNS_URL, parsePatterns, stagePatterns);
+  const bosses = parse(STAGE_BOSSES_URL, parseBosses, stageBosses);
+  const enemies = parse(STAGE_ENEMIES_URL, parseEnemies, stageEnemies);
+  const paths = parse(STAGE_PATHS_URL, parsePaths, stagePaths);
+  const scripts = { ...stageScripts };
+  for (const [file, text] of Object.entries(sources)) {
+    if (file.startsWith(BULLETML_DIR)) {
+      parseBulletML(text);
+      scripts[file] = text;
+    }
+  }
+  [stageWaves, stagePatterns, stageBosses, stageEnemies, stagePaths, stageScripts] = [
+    waves,
+    patterns,
+    bosses,
+    enemies,
+    paths,
+    scripts,
+  ];
+}
+
+/**
+ * Waves for new runs (empty if the wave file hasn't loaded)
+ */
+export function getStageWaves(): Wave[] {
+  return stageWaves;
+}
+
+/**
+ * Named patterns for new runs (empty if the library hasn't loaded)
+ */
+export function getStagePatterns(): BulletPat[] {
+  return stagePatterns;
+}
+
+/**
+ * Bosses for new runs (empty if the boss file hasn't loaded; the simulation then uses its defaults)
+ */
+export function getStageBosses(): BossDefinition[] {
+  return stageBosses;
+}
+
+/**
+ * Enemy archetypes for new runs (empty if the enemy file hasn't loaded; the simulation then uses ENEMY_TYPES)
+ */
+export function getStageEnemies(): EnemyArchetype[] {
+  return stageEnemies;
+}
+
+/**
+ * Flight paths for new runs (empty if the path file hasn't loaded; waves then fly their formations)
+ */
+export function getStagePaths(): PathDef[] {
+  return stagePaths;
+}
+
+/**
+ * BulletML scripts for new runs, keyed "bulletml/<file>.xml" (empty until loaded)
+ */
+export function getStageScripts(): Record<string, string> {
+  return stageScripts;
+}
@@ -1,79 +1,65 @@
 /**
- * Bullet entity for player and enemy projectiles
+ * Bullet sprite - renders a SimBullet for player and enemy projectiles
  */
 
 import Phaser from 'phaser';
 import { BALANCER } from '../systems/Balancer';
+import { GAME_CONFIG } from '../config/constants';
+import { getKenneySprite } from '../config/AssetMappings';
+import type { SimBullet } from '../sim/SimBullet';
 
 export class Bullet extends Phaser.GameObjects.Sprite {
-  public speed: number = 0;
-  public damage: number = 0;
+  public readonly simId: number;
   public isPlayerBullet: boolean = false;
-  public angle: number = 0;
 
-  constructor(
-    scene: Phaser.Scene,
-    x: number,
-    y: number,
-    texture: string,
-    isPlayer: boolean,
-    frame?: string | number
-  ) {
-    super(scene, x, y, texture, frame);
-    this.isPlayerBullet = isPlayer;
+  constructor(scene: Phaser.Scene, state: SimBullet) {
+    let texture = state.isPlayerBullet ? 'bullet-player' : 'bullet-enemy';
+    let frame: string | undefined = undefined;
+
+    // Try to use Kenney bullet sprite if available (boss bullets stay procedural)
+    if (state.source !== 'boss' && scene.textures.exists('game')) {
+      const atlas = scene.textures.get('game');
+      const kenneyBullet = getKenneySprite(state.isPlayerBullet ? 'playerBullet' : 'enemyBullet', 0);
+      if (atlas.has(kenneyBullet)) {
+        texture = 'game';
+        frame = kenneyBullet;
+      }
+    }
+
+    super(scene, state.x, state.y, texture, frame);
+    this.simId = state.id;
+    this.isPlayerBullet = state.isPlayerBullet;
     scene.add.existing(this);
 
     // Only tint if using procedural sprites (not Kenney assets)
     if (!frame) {
-      if (isPlayer) {
+      if (this.isPlayerBullet) {
         this.setTint(0x00ffff);
       } else {
         this.setTint(0xff0000);
       }
     }
-    this.damage = BALANCER.bulletDamage;
-  }
 
-  /**
-   * Initialize bullet with speed and angle
-   */
-  init(x: number, y: number, angle: number, speed: number, damage: number): void {
-    this.setPosition(x, y);
-    this.setRotation(angle);
-    this.angle = angle;
-    this.speed = speed;
-    this.damage = damage;
-    this.setActive(true);
-    this.setVisible(true);
-    
-    // For player bullets, keep original hitbox size even though visual is smaller
-    if (this.isPlayerBullet) {
-      this.setSize(8, 16); // Maintain original hitbox size
+    // Weapon families other than the spread shot are tinted in their color
+    if (this.isPlayerBullet && state.family !== 'spread') {
+      this.setTint(GAME_CONFIG.weaponColors[state.family]);
+    }
+
+    this.setRotation(state.angle);
+    if (state.isBeam) {
+      // The simulated position is the front of the beam
+      this.setOrigin(1, 0.5);
+      this.setDisplaySize(state.beamLength, state.height);
+    } else if (state.charged) {
+      this.setScale(BALANCER.chargeShotSize);
     }
   }
 
   /**
-   * Update bullet position
+   * Copy the simulated position onto the sprite, interpolated by alpha
    */
-  update(delta: number): void {
-    const deltaSeconds = delta / 1000;
-    const dx = Math.cos(this.angle) * this.speed * deltaSeconds;
-    const dy = Math.sin(this.angle) * this.speed * deltaSeconds;
-
-    this.x += dx;
-    this.y += dy;
-
-    // Remove if off screen
-    if (
-      this.x < -100 ||
-      this.x > this.scene.cameras.main.width + 100 ||
-      this.y < -100 ||
-      this.y > this.scene.cameras.main.height + 100
-    ) {
-      this.setActive(false);
-      this.setVisible(false);
-    }
+  syncFrom(state: SimBullet, alpha: number = 1): void {
+    this.setPosition(state.interpolatedX(alpha), state.interpolatedY(alpha));
+    this.setRotation(state.angle); // Homing bullets turn
   }
 }
-
-
@@ -2,65 +2,51 @@
  * Enemy type definitions and archetypes
  */
 
-import type { EnemyPattern } from '../types';
+import type { EnemyArchetype } from '../types';
 import { BALANCER } from '../systems/Balancer';
+import { enemyRegistry, parseEnemies } from '../systems/EnemyArchetypes';
 import { getKenneySprite } from '../config/AssetMappings';
 
-// Helper to get texture key, preferring Kenney assets if available (currently unused)
-// function getEnemyTextureKey(type: 'chaser' | 'turret' | 'sineFlyer', scene: Phaser.Scene): string {
-//   // Check if Kenney atlas exists and has the sprite
-//   if (scene.textures.exists('game')) {
-//     const atlas = scene.textures.get('game');
-//     const kenneySprite = type === 'chaser' 
-//       ? getKenneySprite('enemyChaser', 0)
-//       : type === 'turret'
-//       ? getKenneySprite('enemyTurret', 0)
-//       : getKenneySprite('enemySineFlyer', 0);
-//     
-//     if (atlas.has(kenneySprite)) {
-//       return kenneySprite;
-//     }
-//   }
-//   
-//   // Fallback to procedural texture
-//   return `enemy-${type}`;
-// }
-
-export const ENEMY_TYPES = {
-  chaser: {
-    pattern: {
-      type: 'chaser' as const,
-      speed: BALANCER.enemySpeeds.chaser,
-    } as EnemyPattern,
+/**
+ * Built-in archetypes, used when no enemy file is loaded; large enemies (with a cancelRadius)
+ * are declared only in enemies.json5
+ */
+export const DEFAULT_ENEMIES: EnemyArchetype[] = parseEnemies([
+  {
+    name: 'chaser',
     hp: BALANCER.enemyHP.chaser,
+    pattern: { type: 'chaser', speed: BALANCER.enemySpeeds.chaser },
     fireRate: BALANCER.enemyFireRates.chaser,
-    textureKey: 'enemy-chaser', // Will be resolved at runtime
-    kenneySprite: getKenneySprite('enemyChaser', 0),
+    score: BALANCER.scorePerKill.chaser,
+    sprite: getKenneySprite('enemyChaser', 0),
+    fallbackTexture: 'enemy-chaser',
   },
-  turret: {
-    pattern: {
-      type: 'turret' as const,
-      speed: BALANCER.enemySpeeds.turret,
-      fireRate: BALANCER.enemyFireRates.turret,
-    } as EnemyPattern,
+  {
+    name: 'turret',
     hp: BALANCER.enemyHP.turret,
+    pattern: { type: 'turret', speed: BALANCER.enemySpeeds.turret },
     fireRate: BALANCER.enemyFireRates.turret,
-    textureKey: 'enemy-turret', // Will be resolved at runtime
-    kenneySprite: getKenneySprite('enemyTurret', 0),
+    score: BALANCER.scorePerKill.turret,
+    sprite: getKenneySprite('enemyTurret', 0),
+    fallbackTexture: 'enemy-turret',
   },
-  sineFlyer: {
+  {
+    name: 'sineFlyer',
+    hp: BALANCER.enemyHP.sineFlyer,
     pattern: {
-      type: 'sine' as const,
+      type: 'sine',
       speed: BALANCER.enemySpeeds.sineFlyer,
       amplitude: 100,
       frequency: 2,
-      fireRate: BALANCER.enemyFireRates.sineFlyer,
-    } as EnemyPattern,
-    hp: BALANCER.enemyHP.sineFlyer,
+    },
     fireRate: BALANCER.enemyFireRates.sineFlyer,
-    textureKey: 'enemy-sineFlyer', // Will be resolved at runtime
-    kenneySprite: getKenneySprite('enemySineFlyer', 0),
+    score: BALANCER.scorePerKill.sineFlyer,
+    sprite: getKenneySprite('enemySineFlyer', 0),
+    fallbackTexture: 'enemy-sineFlyer',
   },
-} as const;
-
+]);
 
+/**
+ * Built-in enemy registry, keyed by archetype name
+ */
+export const ENEMY_TYPES: Readonly<Record<string, EnemyArchetype>> = enemyRegistry(DEFAULT_ENEMIES);
@@ -1,23 +1,13 @@
 /**
- * Player entity with movement, shooting, charge shot, bombs
+ * Player sprite with engine, shield and logo visuals - renders a SimPlayer
  */
 
 import Phaser from 'phaser';
-import { BALANCER, WEAPON_SPECS, getBulletCountForTier, getSpreadAngleForBulletCount } from '../systems/Balancer';
-import type { WeaponSpec } from '../types';
 import { getKenneySprite } from '../config/AssetMappings';
+import type { SimPlayer } from '../sim/SimPlayer';
 
 export class Player extends Phaser.GameObjects.Sprite {
-  public lives: number = BALANCER.playerLives;
-  public weaponTier: number = 0;
-  public bombs: number = BALANCER.bombsStart;
-  public shields: number = 1; // Start with 1 shield, max 5
-  public chargeTime: number = 0;
-  public iframeTimer: number = 0;
-  public isInvincible: boolean = false;
-  public shieldTimer: number = 0; // Timer for active shield (in milliseconds)
   public isShielded: boolean = false;
-  public speed: number = BALANCER.playerSpeed;
   private shieldGraphics?: Phaser.GameObjects.Graphics;
   private shieldPulseTime: number = 0; // Time accumulator for shield pulse effect
   private engineFireEmitter1?: Phaser.GameObjects.Particles.ParticleEmitter;
@@ -130,72 +120,22 @@ export class Player extends Phaser.GameObjects.Sprite {
   }
 
   /**
-   * Get current weapon spec (supports unlimited tiers)
+   * Sync sprite and visuals with the simulated player state
    */
-  getWeaponSpec(): WeaponSpec {
-    const baseTier = Math.min(this.weaponTier, WEAPON_SPECS.length - 1);
-    const baseSpec = WEAPON_SPECS[baseTier]!;
-    
-    // Always calculate bullet count and spread dynamically based on tier
-    const bulletCount = getBulletCountForTier(this.weaponTier);
-    const spreadAngle = getSpreadAngleForBulletCount(bulletCount);
-    
-    // For tiers beyond the base specs, scale stats up
-    if (this.weaponTier >= WEAPON_SPECS.length) {
-      return {
-        ...baseSpec,
-        bulletCount,
-        spreadAngle,
-        fireRate: baseSpec.fireRate + (this.weaponTier - baseTier) * 0.5,
-        damage: baseSpec.damage + (this.weaponTier - baseTier) * 1,
-        bulletSpeed: baseSpec.bulletSpeed + (this.weaponTier - baseTier) * 50,
-      };
-    }
-    
-    // For base tiers, use calculated bullet count and spread
-    return {
-      ...baseSpec,
-      bulletCount,
-      spreadAngle,
-    };
-  }
+  syncFrom(state: SimPlayer, delta: number, alpha: number = 1): void {
+    this.setPosition(state.interpolatedX(alpha), state.interpolatedY(alpha));
+    this.isShielded = state.isShielded;
 
-  /**
-   * Update player state
-   */
-  update(delta: number): void {
-    // Update shield timer
-    if (this.shieldTimer > 0) {
-      this.shieldTimer -= delta;
-      this.isShielded = this.shieldTimer > 0;
-      this.shieldPulseTime += delta;
-      
-      if (!this.isShielded) {
-        // Shield expired
-        this.shieldTimer = 0;
-        this.shieldPulseTime = 0;
-      }
-    } else {
-      this.isShielded = false;
-      this.shieldPulseTime = 0;
-    }
+    // Shield pulse only advances while shielded
+    this.shieldPulseTime = this.isShielded ? this.shieldPulseTime + delta : 0;
     
     // Always update shield visual to track player position
     this.updateShieldVisual();
 
-    // Update invincibility timer
-    if (this.iframeTimer > 0) {
-      this.iframeTimer -= delta;
-      this.isInvincible = this.iframeTimer > 0;
-
-      // Flash effect during i-frames
-      if (this.isInvincible) {
-        this.setAlpha(Math.floor(this.iframeTimer / 100) % 2);
-      } else {
-        this.setAlpha(1);
-      }
+    // Flash effect during i-frames
+    if (state.isInvincible) {
+      this.setAlpha(Math.floor(state.iframeTimer / 100) % 2);
     } else {
-      this.isInvincible = false;
       this.setAlpha(1);
     }
     
@@ -237,57 +177,6 @@ export class Player extends Phaser.GameObjects.Sprite {
     }
   }
 
-  /**
-   * Take damage
-   */
-  takeDamage(): void {
-    if (this.isInvincible) {
-      return;
-    }
-    
-    // Shield blocks all damage
-    if (this.isShielded) {
-      return;
-    }
-
-    this.lives--;
-    this.iframeTimer = BALANCER.playerIFramesMs;
-    this.isInvincible = true;
-  }
-  
-  /**
-   * Activate shield (5 seconds duration)
-   */
-  activateShield(): boolean {
-    if (this.shields > 0 && !this.isShielded) {
-      this.shields--;
-      this.shieldTimer = 5000; // 5 seconds in milliseconds
-      this.isShielded = true;
-      this.updateShieldVisual();
-      return true;
-    }
-    return false;
-  }
-  
-  /**
-   * Get shield radius for collision detection
-   */
-  getShieldRadius(): number {
-    if (!this.isShielded) {
-      return 0;
-    }
-    return Math.max(this.width, this.height) * 0.8; // Match visual radius
-  }
-  
-  /**
-   * Add shield (max 5)
-   */
-  addShield(): void {
-    if (this.shields < 5) {
-      this.shields++;
-    }
-  }
-  
   /**
    * Update shield visual effect (blue sphere around ship)
    */
@@ -318,71 +207,6 @@ export class Player extends Phaser.GameObjects.Sprite {
     }
   }
 
-  /**
-   * Add charge time (call when holding fire button)
-   */
-  addChargeTime(delta: number): void {
-    this.chargeTime += delta;
-  }
-
-  /**
-   * Reset charge time (call when releasing fire button)
-   */
-  resetChargeTime(): void {
-    this.chargeTime = 0;
-  }
-
-  /**
-   * Check if charge shot is ready
-   */
-  isChargeShotReady(): boolean {
-    return this.chargeTime >= BALANCER.playerChargeShotTime;
-  }
-
-  /**
-   * Upgrade weapon (capped at 6 upgrades / tier 6)
-   */
-  upgradeWeapon(): void {
-    const maxTier = 6; // Cap at tier 6 (6 upgrades from tier 0)
-    if (this.weaponTier < maxTier) {
-      this.weaponTier++;
-    }
-  }
-
-  /**
-   * Add bomb
-   */
-  addBomb(): void {
-    this.bombs++;
-  }
-
-  /**
-   * Use bomb
-   */
-  useBomb(): boolean {
-    if (this.bombs > 0) {
-      this.bombs--;
-      return true;
-    }
-    return false;
-  }
-
-  /**
-   * Add life (can increase up to max lives via power-ups)
-   */
-  addLife(): void {
-    if (this.lives < BALANCER.playerMaxLives) {
-      this.lives++;
-    }
-  }
-
-  /**
-   * Check if player is alive
-   */
-  isAlive(): boolean {
-    return this.lives > 0;
-  }
-  
   /**
    * Clean up shield graphics when player is destroyed
    */
@@ -1,18 +1,23 @@
 /**
- * Power-up entity (weapon, bomb, health)
+ * Power-up sprite (weapon families, bomb, health, shield) - renders a SimPowerUp
  */
 
 import Phaser from 'phaser';
-// BALANCER available if needed for future balance adjustments
-// import { BALANCER } from '../systems/Balancer';
 import type { PowerUpType } from '../types';
 import { getKenneySprite } from '../config/AssetMappings';
+import { GAME_CONFIG } from '../config/constants';
+import { weaponFamilyFor } from '../systems/PowerUps';
+import type { SimPowerUp } from '../sim/SimPowerUp';
 
 export class PowerUp extends Phaser.GameObjects.Sprite {
+  public readonly simId: number;
   public powerUpType: PowerUpType;
   public value: number = 0;
+  // Visual-only bobbing offset, tweened independently of the simulated position
+  private bob = { offset: 0 };
 
-  constructor(scene: Phaser.Scene, x: number, y: number, type: PowerUpType) {
+  constructor(scene: Phaser.Scene, state: SimPowerUp) {
+    const type = state.powerUpType;
     // Try to use Kenney power-up sprite if available
     let textureKey = 'powerup-weapon';
     let kenneySprite = '';
@@ -40,15 +45,22 @@ export class PowerUp extends Phaser.GameObjects.Sprite {
       }
     }
 
-    super(scene, x, y, textureKey, frameKey);
+    super(scene, state.x, state.y, textureKey, frameKey);
+    this.simId = state.id;
     this.powerUpType = type;
     this.value = type.value;
     scene.add.existing(this);
 
+    // Weapon families share the weapon sprite, told apart by color
+    const family = weaponFamilyFor(type.type);
+    if (family && family !== 'spread') {
+      this.setTint(GAME_CONFIG.weaponColors[family]);
+    }
+
     // Add floating animation
     scene.tweens.add({
-      targets: this,
-      y: this.y - 20,
+      targets: this.bob,
+      offset: -20,
       duration: 1000,
       yoyo: true,
       repeat: -1,
@@ -57,16 +69,9 @@ export class PowerUp extends Phaser.GameObjects.Sprite {
   }
 
   /**
-   * Update power-up position (scrolling handled by GameScene)
+   * Copy simulated position onto the sprite, applying the floating offset
    */
-  update(_delta: number): void {
-    // Scrolling is handled by GameScene to support boss fight pausing
-    // Remove if off screen
-    if (this.x < -100) {
-      this.setActive(false);
-      this.setVisible(false);
-    }
+  syncFrom(state: SimPowerUp, alpha: number = 1): void {
+    this.setPosition(state.interpolatedX(alpha), state.interpolatedY(alpha) + this.bob.offset);
   }
 }
-
-
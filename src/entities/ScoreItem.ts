@@ -0,0 +1,25 @@
+/**
+ * Score item sprite - renders a SimScoreItem left by a canceled enemy bullet
+ */
+
+import Phaser from 'phaser';
+import type { SimScoreItem } from '../sim/SimScoreItem';
+
+export class ScoreItem extends Phaser.GameObjects.Sprite {
+  public readonly simId: number;
+
+  constructor(scene: Phaser.Scene, state: SimScoreItem) {
+    super(scene, state.x, state.y, 'score-item');
+    this.simId = state.id;
+    scene.add.existing(this);
+  }
+
+  /**
+   * Copy the simulated position onto the sprite, interpolated by alpha
+   */
+  syncFrom(state: SimScoreItem, alpha: number = 1): void {
+    this.setPosition(state.interpolatedX(alpha), state.interpolatedY(alpha));
+    // Spin for a bit of sparkle
+    this.rotation += 0.1;
+  }
+}
@@ -9,10 +9,15 @@ import { PreloadScene } from './scenes/PreloadScene';
 import { MenuScene } from './scenes/MenuScene';
 import { IntroScene } from './scenes/IntroScene';
 import { GameScene } from './scenes/GameScene';
+import { ReplayScene } from './scenes/ReplayScene';
+import { EditorScene } from './scenes/EditorScene';
+import { PatternSandboxScene } from './scenes/PatternSandboxScene';
 import { HUDScene } from './scenes/HUDScene';
 import { PauseScene } from './scenes/PauseScene';
 import { EndScene } from './scenes/EndScene';
 import { DeathScene } from './scenes/DeathScene';
+import { ContentOverlayScene } from './scenes/ContentOverlayScene';
+import { setupContentHotReload } from './data/ContentReload';
 import { logger } from './utils/logger';
 
 // Log game startup (only in development)
@@ -34,7 +39,7 @@ const config: Phaser.Types.Core.GameConfig = {
   input: {
     keyboard: true, // Explicitly enable keyboard input
   },
-  scene: [BootScene, PreloadScene, MenuScene, IntroScene, GameScene, HUDScene, PauseScene, EndScene, DeathScene],
+  scene: [BootScene, PreloadScene, MenuScene, IntroScene, GameScene, ReplayScene, EditorScene, PatternSandboxScene, HUDScene, PauseScene, EndScene, DeathScene, ContentOverlayScene],
   scale: {
     mode: Phaser.Scale.FIT,
     autoCenter: Phaser.Scale.CENTER_BOTH,
@@ -42,6 +47,7 @@ const config: Phaser.Types.Core.GameConfig = {
 };
 
 // Game instance created (stored globally by Phaser)
-new Phaser.Game(config);
+const game = new Phaser.Game(config);
+setupContentHotReload(game);
 
 
@@ -0,0 +1,130 @@
+/**
+ * ContentOverlayScene - Hot reload overlay (development only)
+ *
+ * 'errors': lists the validation errors that stopped a content file from
+ * reloading; the game carries on with the old content underneath.
+ * 'reloaded': shown over the paused GameScene once new content is in place,
+ * to rewind the run to a chosen wave time or keep playing from here.
+ */
+
+import Phaser from 'phaser';
+import type { ContentIssue } from '../data/ContentLint';
+import { sceneLogger } from '../utils/SceneLogger';
+import type { GameScene } from './GameScene';
+
+export type ContentOverlayData =
+  | { mode: 'errors'; changed: string; issues: ContentIssue[] }
+  | { mode: 'reloaded'; changed: string; rewindMs: number };
+
+const MAX_LISTED_ISSUES = 16;
+const REWIND_STEP_MS = 1000;
+
+const TEXT_STYLE = { fontSize: '16px', color: '#cccccc', fontFamily: 'monospace' };
+
+function formatMs(ms: number): string {
+  const seconds = ms / 1000;
+  return `${Math.floor(seconds / 60)}:${(seconds % 60).toFixed(1).padStart(4, '0')}`;
+}
+
+export class ContentOverlayScene extends Phaser.Scene {
+  private rewindMs: number = 0;
+  private rewindText?: Phaser.GameObjects.Text;
+
+  constructor() {
+    super({ key: 'ContentOverlayScene' });
+  }
+
+  create(data: ContentOverlayData): void {
+    sceneLogger.log('ContentOverlayScene', 'CREATE', { mode: data.mode, changed: data.changed });
+    if (data.mode === 'errors') {
+      this.showErrors(data.changed, data.issues);
+    } else {
+      this.showReloaded(data.changed, data.rewindMs);
+    }
+  }
+
+  private showErrors(changed: string, issues: ContentIssue[]): void {
+    const { width } = this.cameras.main;
+    const lines = issues
+      .slice(0, MAX_LISTED_ISSUES)
+      .map((issue) => `${issue.file}: ${issue.message}`);
+    if (issues.length > MAX_LISTED_ISSUES) {
+      lines.push(`...and ${issues.length - MAX_LISTED_ISSUES} more (npm run content:lint)`);
+    }
+
+    const panel = this.add.container(0, 0).setDepth(2000);
+    const text = this.add.text(24, 44, lines, {
+      ...TEXT_STYLE,
+      fontSize: '14px',
+      color: '#ffaaaa',
+      wordWrap: { width: width - 48 },
+    });
+    panel.add([
+      this.add.rectangle(0, 0, width, text.height + 88, 0x200000, 0.85).setOrigin(0),
+      this.add.text(24, 16, `CONTENT NOT RELOADED - ${changed}`, {
+        ...TEXT_STYLE,
+        color: '#ff4444',
+      }),
+      text,
+      this.add.text(24, text.height + 56, 'Fix and save to reload | X dismiss', {
+        ...TEXT_STYLE,
+        fontSize: '12px',
+        color: '#888888',
+      }),
+    ]);
+
+    this.input.keyboard?.once('keydown-X', () => this.scene.stop());
+  }
+
+  private showReloaded(changed: string, rewindMs: number): void {
+    const { width, height } = this.cameras.main;
+    this.rewindMs = rewindMs;
+
+    this.add.rectangle(width / 2, height / 2, width, height, 0x000000, 0.7).setDepth(2000);
+    this.add
+      .text(width / 2, height / 2 - 80, `RELOADED ${changed}`, {
+        ...TEXT_STYLE,
+        fontSize: '28px',
+        color: '#00ff88',
+      })
+      .setOrigin(0.5)
+      .setDepth(2001);
+    this.rewindText = this.add
+      .text(width / 2, height / 2, '', { ...TEXT_STYLE, fontSize: '22px', color: '#00ffff' })
+      .setOrigin(0.5)
+      .setDepth(2001);
+    this.add
+      .text(
+        width / 2,
+        height / 2 + 60,
+        '[ / ] change time | ENTER rewind | K or ESC keep playing',
+        {
+          ...TEXT_STYLE,
+          color: '#888888',
+        }
+      )
+      .setOrigin(0.5)
+      .setDepth(2001);
+    this.updateRewindText();
+
+    const keyboard = this.input.keyboard;
+    keyboard?.on('keydown-OPEN_BRACKET', () => this.changeRewind(-REWIND_STEP_MS));
+    keyboard?.on('keydown-CLOSED_BRACKET', () => this.changeRewind(REWIND_STEP_MS));
+    keyboard?.once('keydown-ENTER', () => this.gameScene().rewindTo(this.rewindMs));
+    keyboard?.once('keydown-K', () => this.gameScene().keepPlaying());
+    keyboard?.once('keydown-ESC', () => this.gameScene().keepPlaying());
+  }
+
+  private changeRewind(amount: number): void {
+    this.rewindMs = Math.max(0, this.rewindMs + amount);
+    this.updateRewindText();
+  }
+
+  private updateRewindText(): void {
+    this.rewindText?.setText(`Rewind to wave time ${formatMs(this.rewindMs)}`);
+  }
+
+  private gameScene(): GameScene {
+    return this.scene.get('GameScene') as GameScene;
+  }
+}
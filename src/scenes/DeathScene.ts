@@ -8,6 +8,8 @@ import { sceneLogger } from '../utils/SceneLogger';
 // getKenneySprite available if needed in future
 // import { getKenneySprite } from '../config/AssetMappings';
 import { GAME_CONFIG } from '../config/constants';
+import { runSummaryLines } from '../ui/RunSummary';
+import type { RunSummary } from '../types';
 
 interface Meteorite {
   sprite: Phaser.GameObjects.Sprite;
@@ -58,11 +60,16 @@ export class DeathScene extends Phaser.Scene {
   private kennyTimer: number = 0;
   private kennySpawned: boolean = false; // Track if auto-spawn happened (60 seconds)
   private kennys: Phaser.GameObjects.Container[] = []; // Array of all Kennys (max 30)
+  private summary?: RunSummary;
 
   constructor() {
     super({ key: 'DeathScene' });
   }
 
+  init(data: { summary?: RunSummary }): void {
+    this.summary = data?.summary;
+  }
+
   preload(): void {
     // Load custom game over music MP3 file if it exists
     // Phaser will gracefully handle if the file doesn't exist
@@ -209,6 +216,19 @@ export class DeathScene extends Phaser.Scene {
       .setOrigin(0.5)
       .setDepth(100);
     
+    // Difficulty, score and high score
+    if (this.summary) {
+      this.add
+        .text(width / 2, height / 2 - 130, runSummaryLines(this.summary), {
+          fontSize: '20px',
+          color: '#ffffff',
+          fontFamily: 'monospace',
+          align: 'center',
+        })
+        .setOrigin(0.5)
+        .setDepth(100);
+    }
+
     // Instructions
     this.add
       .text(width / 2, height / 2 + 100, 'Press enter to try again', {
@@ -287,9 +307,9 @@ export class DeathScene extends Phaser.Scene {
         this.tweens.killAll();
         sceneLogger.log('DeathScene', 'ALL_TWEENS_STOPPED');
         
-        // Restart game with default seed
+        // Restart game with default seed on the same difficulty
         const seed = GAME_CONFIG.defaultSeed;
-        this.scene.start('GameScene', { seed: seed });
+        this.scene.start('GameScene', { seed: seed, difficulty: this.summary?.difficulty });
         sceneLogger.log('DeathScene', 'GAMESCENE_STARTED', { seed: seed });
         
         // Check scene states after transition
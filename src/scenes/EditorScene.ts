@@ -0,0 +1,509 @@
+/**
+ * EditorScene - Stage timeline editor (Debugging Tools > STAGE EDITOR)
+ *
+ * Shows the waves on a scrubbable timeline: drag a wave to change its start
+ * time, pick its enemy, formation, pattern and path in the side panel, drag
+ * the formation preview to move where it enters, then play from the cursor or
+ * save the waves as JSON5. The working copy survives trips into the game.
+ */
+
+import Phaser from 'phaser';
+import { GAME_CONFIG } from '../config/constants';
+import { WaveSchema, type Wave } from '../systems/PatternML';
+import { RNG } from '../systems/RNG';
+import { compilePath } from '../systems/Paths';
+import { formationSlot, leaderSlot } from '../sim/WaveSpawner';
+import { ENEMY_TYPES } from '../entities/EnemyTypes';
+import { getStageEnemies, getStagePaths, getStagePatterns, getStageWaves } from '../data/Waves';
+import {
+  TIMELINE_SNAP_MS,
+  cycleOption,
+  downloadWaves,
+  snapMs,
+  timelineEndMs,
+  waveLanes,
+} from '../data/WaveTimeline';
+import { sceneLogger } from '../utils/SceneLogger';
+
+const FORMATIONS = WaveSchema.shape.formation.options;
+const NONE = '(none)';
+const INLINE = '(inline)';
+
+// Layout
+const TIMELINE_LEFT = 40;
+const TIMELINE_RIGHT = GAME_CONFIG.width - 40;
+const RULER_Y = 100;
+const LANES_Y = 130;
+const LANE_HEIGHT = 30;
+const MAX_LANES = 6;
+const PREVIEW_X = 40;
+const PREVIEW_Y = 360;
+const PREVIEW_SCALE = 0.35;
+const PREVIEW_STAGING = 400; // Off-screen strip where formations line up before entering
+const PANEL_X = 700;
+
+const BUTTON_STYLE = {
+  fontSize: '14px',
+  color: '#ffaa00',
+  fontFamily: 'monospace',
+  backgroundColor: '#333333',
+  padding: { x: 10, y: 5 },
+};
+
+export interface EditorSceneData {
+  seed?: number;
+}
+
+// Working copy, kept while the editor plays its waves so coming back resumes the edit
+let draft: Wave[] | null = null;
+
+export class EditorScene extends Phaser.Scene {
+  private seed: number = GAME_CONFIG.defaultSeed;
+  private waves: Wave[] = [];
+  private selected: number = 0;
+  private cursorMs: number = 0;
+  private view!: Phaser.GameObjects.Container;
+  private graphics!: Phaser.GameObjects.Graphics;
+  private status!: Phaser.GameObjects.Text;
+  private leaving: boolean = false;
+
+  constructor() {
+    super({ key: 'EditorScene' });
+  }
+
+  init(data: EditorSceneData): void {
+    this.seed = data?.seed ?? GAME_CONFIG.defaultSeed;
+    draft ??= structuredClone(getStageWaves());
+    this.waves = draft;
+    this.selected = Math.min(this.selected, Math.max(0, this.waves.length - 1));
+    this.leaving = false;
+  }
+
+  create(): void {
+    sceneLogger.log('EditorScene', 'CREATE', { waves: this.waves.length });
+    this.cameras.main.setBackgroundColor('#101018');
+
+    this.add.text(TIMELINE_LEFT, 16, 'STAGE EDITOR', {
+      fontSize: '24px',
+      color: '#00ffff',
+      fontFamily: 'monospace',
+    });
+    this.status = this.add
+      .text(TIMELINE_RIGHT, 20, '', { fontSize: '14px', color: '#88ff88', fontFamily: 'monospace' })
+      .setOrigin(1, 0);
+
+    const toolbar: { label: string; action: () => void }[] = [
+      { label: '[+ WAVE]', action: () => this.addWave() },
+      { label: '[DUPLICATE]', action: () => this.duplicateWave() },
+      { label: '[DELETE]', action: () => this.deleteWave() },
+      { label: '[PLAY FROM CURSOR]', action: () => this.play() },
+      { label: '[SAVE JSON5]', action: () => this.save() },
+      { label: '[REVERT]', action: () => this.revert() },
+      { label: '[BACK]', action: () => this.exitToMenu() },
+    ];
+    let x = TIMELINE_LEFT;
+    for (const { label, action } of toolbar) {
+      x += this.button(x, 56, label, action).width + 10;
+    }
+
+    this.add.text(
+      TIMELINE_LEFT,
+      GAME_CONFIG.height - 30,
+      'Drag waves to retime them | Click the ruler to scrub | Drag the preview to move the formation | ←/→ nudge | DEL delete | ESC back',
+      { fontSize: '12px', color: '#666666', fontFamily: 'monospace' }
+    );
+
+    this.graphics = this.add.graphics();
+    this.view = this.add.container(0, 0);
+
+    // Scrub the cursor along the ruler
+    const ruler = this.add
+      .zone(TIMELINE_LEFT, RULER_Y, TIMELINE_RIGHT - TIMELINE_LEFT, 20)
+      .setOrigin(0, 0)
+      .setInteractive({ useHandCursor: true });
+    const scrub = (pointer: Phaser.Input.Pointer): void => {
+      this.cursorMs = snapMs(this.timeAt(pointer.x));
+      this.redraw();
+    };
+    ruler.on('pointerdown', scrub).on('pointermove', (pointer: Phaser.Input.Pointer) => {
+      if (pointer.isDown) scrub(pointer);
+    });
+
+    // Drag the formation preview up or down to set where it enters
+    const preview = this.add
+      .zone(
+        PREVIEW_X,
+        PREVIEW_Y,
+        (GAME_CONFIG.width + PREVIEW_STAGING) * PREVIEW_SCALE,
+        GAME_CONFIG.height * PREVIEW_SCALE
+      )
+      .setOrigin(0, 0)
+      .setInteractive({ useHandCursor: true });
+    const place = (pointer: Phaser.Input.Pointer): void => {
+      const wave = this.waves[this.selected];
+      if (!wave || !pointer.isDown) return;
+      const y = (pointer.y - PREVIEW_Y) / (GAME_CONFIG.height * PREVIEW_SCALE);
+      wave.y = Math.round(Phaser.Math.Clamp(y, 0, 1) * 100) / 100;
+      this.redraw();
+    };
+    preview.on('pointerdown', place).on('pointermove', place);
+
+    this.input.on(
+      'drag',
+      (_pointer: Phaser.Input.Pointer, block: Phaser.GameObjects.Rectangle, dragX: number) => {
+        const index = block.getData('wave') as number;
+        this.waves[index]!.t0 = snapMs(this.timeAt(dragX));
+        block.x = this.xAt(this.waves[index]!.t0);
+      }
+    );
+    this.input.on('dragend', () => this.redraw());
+
+    const keyboard = this.input.keyboard;
+    keyboard?.on('keydown-ESC', () => this.exitToMenu());
+    keyboard?.on('keydown-LEFT', () => this.nudge(-TIMELINE_SNAP_MS));
+    keyboard?.on('keydown-RIGHT', () => this.nudge(TIMELINE_SNAP_MS));
+    keyboard?.on('keydown-DELETE', () => this.deleteWave());
+
+    this.redraw();
+  }
+
+  /**
+   * Timeline span: the whole stage plus room to add waves after it
+   */
+  private spanMs(): number {
+    return Math.max(30000, timelineEndMs(this.waves) + 5000);
+  }
+
+  private xAt(ms: number): number {
+    return TIMELINE_LEFT + (ms / this.spanMs()) * (TIMELINE_RIGHT - TIMELINE_LEFT);
+  }
+
+  private timeAt(x: number): number {
+    return ((x - TIMELINE_LEFT) / (TIMELINE_RIGHT - TIMELINE_LEFT)) * this.spanMs();
+  }
+
+  private button(x: number, y: number, label: string, action: () => void): Phaser.GameObjects.Text {
+    const button = this.add
+      .text(x, y, label, BUTTON_STYLE)
+      .setInteractive({ useHandCursor: true })
+      .on('pointerdown', action)
+      .on('pointerover', () => button.setColor('#ffff00'))
+      .on('pointerout', () => button.setColor('#ffaa00'));
+    return button;
+  }
+
+  private setStatus(text: string, color: string = '#88ff88'): void {
+    this.status.setText(text).setColor(color);
+  }
+
+  /**
+   * Rebuild the timeline, preview and property panel from the waves
+   */
+  private redraw(): void {
+    this.view.removeAll(true);
+    this.graphics.clear();
+    this.drawTimeline();
+    const wave = this.waves[this.selected];
+    if (wave) {
+      this.drawPreview(wave);
+      this.drawPanel(wave);
+    }
+  }
+
+  private drawTimeline(): void {
+    const g = this.graphics;
+    const span = this.spanMs();
+
+    // Ruler with a tick every second and a label every five
+    g.fillStyle(0x222233).fillRect(TIMELINE_LEFT, RULER_Y, TIMELINE_RIGHT - TIMELINE_LEFT, 20);
+    g.lineStyle(1, 0x555577);
+    for (let ms = 0; ms <= span; ms += 1000) {
+      const x = this.xAt(ms);
+      const major = ms % 5000 === 0;
+      g.lineBetween(x, RULER_Y + (major ? 0 : 12), x, RULER_Y + 20);
+      if (major) {
+        this.view.add(
+          this.add.text(x + 2, RULER_Y + 1, `${ms / 1000}s`, {
+            fontSize: '10px',
+            color: '#8888aa',
+            fontFamily: 'monospace',
+          })
+        );
+      }
+    }
+
+    const lanes = waveLanes(this.waves);
+    this.waves.forEach((wave, index) => {
+      const lane = Math.min(lanes[index]!, MAX_LANES - 1);
+      const y = LANES_Y + lane * LANE_HEIGHT;
+      const width = Math.max(8, this.xAt(wave.t0 + wave.duration) - this.xAt(wave.t0));
+      const selected = index === this.selected;
+      const block = this.add
+        .rectangle(this.xAt(wave.t0), y, width, LANE_HEIGHT - 4, selected ? 0x3366cc : 0x224466)
+        .setOrigin(0, 0)
+        .setStrokeStyle(1, selected ? 0xffff00 : 0x4488aa)
+        .setData('wave', index)
+        .setInteractive({ useHandCursor: true, draggable: true })
+        // Selecting shows once the drag ends (every click on a block starts one)
+        .on('pointerdown', () => (this.selected = index));
+      const label = this.add.text(
+        this.xAt(wave.t0) + 4,
+        y + 6,
+        `${wave.enemy} x${wave.count} ${wave.formation}`,
+        { fontSize: '11px', color: '#ffffff', fontFamily: 'monospace' }
+      );
+      label.setCrop(0, 0, width - 6, LANE_HEIGHT);
+      this.view.add([block, label]);
+    });
+
+    // Cursor: where PLAY FROM CURSOR starts
+    const cursorX = this.xAt(this.cursorMs);
+    g.lineStyle(2, 0xff3333).lineBetween(
+      cursorX,
+      RULER_Y,
+      cursorX,
+      LANES_Y + MAX_LANES * LANE_HEIGHT
+    );
+    this.view.add(
+      this.add.text(cursorX + 4, LANES_Y + MAX_LANES * LANE_HEIGHT + 2, `${this.cursorMs}ms`, {
+        fontSize: '11px',
+        color: '#ff6666',
+        fontFamily: 'monospace',
+      })
+    );
+  }
+
+  /**
+   * Play area (scaled down) with the formation lined up off the right edge and its path
+   */
+  private drawPreview(wave: Wave): void {
+    const g = this.graphics;
+    const { width, height } = GAME_CONFIG;
+    const px = (x: number): number => PREVIEW_X + x * PREVIEW_SCALE;
+    const py = (y: number): number => PREVIEW_Y + y * PREVIEW_SCALE;
+
+    g.fillStyle(0x000000).fillRect(px(0), py(0), width * PREVIEW_SCALE, height * PREVIEW_SCALE);
+    g.lineStyle(1, 0x444466).strokeRect(
+      px(0),
+      py(0),
+      (width + PREVIEW_STAGING) * PREVIEW_SCALE,
+      height * PREVIEW_SCALE
+    );
+
+    const path = getStagePaths().find((p) => p.name === wave.path);
+    if (path) {
+      const compiled = compilePath(path, width, height);
+      g.lineStyle(1, 0x00aa88);
+      g.beginPath();
+      for (let i = 0; i <= 64; i++) {
+        const point = compiled.point(i / 64);
+        if (i === 0) g.moveTo(px(point.x), py(point.y));
+        else g.lineTo(px(point.x), py(point.y));
+      }
+      g.strokePath();
+      g.fillStyle(0xffaa00);
+      for (const stop of path.stops) {
+        const point = compiled.point(stop.at);
+        g.fillCircle(px(point.x), py(point.y), 4);
+      }
+      return;
+    }
+
+    // Same layout the simulation uses (random formations shown for one fixed roll)
+    const rng = new RNG('editor');
+    const leader = wave.leader !== undefined ? leaderSlot(wave.formation, wave.count) : -1;
+    for (let i = 0; i < wave.count; i++) {
+      const slot = formationSlot(wave.formation, i, wave.count, width, height, rng, wave.y);
+      g.fillStyle(i === leader ? 0xffff00 : 0xff6666).fillCircle(px(slot.x), py(slot.y), 4);
+    }
+  }
+
+  /**
+   * Property rows for the selected wave, each cycled with < and >
+   */
+  private drawPanel(wave: Wave): void {
+    const enemies = Object.keys(
+      getStageEnemies().length
+        ? Object.fromEntries(getStageEnemies().map((e) => [e.name, e]))
+        : ENEMY_TYPES
+    );
+    const patternNames = getStagePatterns().map((p) => p.name);
+    const pathNames = [NONE, ...getStagePaths().map((p) => p.name)];
+    const patternOptions =
+      typeof wave.pattern === 'string' ? patternNames : [INLINE, ...patternNames];
+
+    const rows: { label: string; value: string; change: (step: 1 | -1) => void }[] = [
+      {
+        label: 'start',
+        value: `${wave.t0}ms`,
+        change: (step) => (wave.t0 = snapMs(wave.t0 + step * TIMELINE_SNAP_MS)),
+      },
+      {
+        label: 'duration',
+        value: `${wave.duration}ms`,
+        change: (step) => (wave.duration = Math.max(500, wave.duration + step * 500)),
+      },
+      {
+        label: 'enemy',
+        value: wave.enemy,
+        change: (step) => (wave.enemy = cycleOption(enemies, wave.enemy, step)),
+      },
+      {
+        label: 'leader',
+        value: wave.leader ?? NONE,
+        change: (step) => {
+          const leader = cycleOption([NONE, ...enemies], wave.leader ?? NONE, step);
+          wave.leader = leader === NONE ? undefined : leader;
+        },
+      },
+      {
+        label: 'count',
+        value: String(wave.count),
+        change: (step) => (wave.count = Phaser.Math.Clamp(wave.count + step, 1, 20)),
+      },
+      {
+        label: 'formation',
+        value: wave.formation,
+        change: (step) => (wave.formation = cycleOption(FORMATIONS, wave.formation, step)),
+      },
+      {
+        label: 'pattern',
+        value: typeof wave.pattern === 'string' ? wave.pattern : INLINE,
+        change: (step) => {
+          if (patternNames.length === 0) return;
+          const current = typeof wave.pattern === 'string' ? wave.pattern : INLINE;
+          const next = cycleOption(patternOptions, current, step);
+          // Inline patterns can only be kept, not picked again once replaced
+          wave.pattern = next === INLINE ? cycleOption(patternOptions, next, step) : next;
+        },
+      },
+      {
+        label: 'path',
+        value: wave.path ?? NONE,
+        change: (step) => {
+          const path = cycleOption(pathNames, wave.path ?? NONE, step);
+          wave.path = path === NONE ? undefined : path;
+        },
+      },
+      {
+        label: 'entry y',
+        value: (wave.y ?? 0.5).toFixed(2),
+        change: (step) =>
+          (wave.y = Math.round(Phaser.Math.Clamp((wave.y ?? 0.5) + step * 0.05, 0, 1) * 100) / 100),
+      },
+    ];
+
+    this.view.add(
+      this.add.text(PANEL_X, PREVIEW_Y - 24, `Wave ${this.selected + 1} of ${this.waves.length}`, {
+        fontSize: '16px',
+        color: '#00ffff',
+        fontFamily: 'monospace',
+      })
+    );
+    rows.forEach(({ label, value, change }, index) => {
+      const y = PREVIEW_Y + index * 30;
+      const style = { fontSize: '14px', color: '#cccccc', fontFamily: 'monospace' };
+      const edit = (step: 1 | -1) => () => {
+        change(step);
+        this.redraw();
+      };
+      this.view.add([
+        this.add.text(PANEL_X, y, label, style),
+        this.button(PANEL_X + 110, y - 4, '<', edit(-1)),
+        this.add.text(PANEL_X + 150, y, value, { ...style, color: '#ffffff' }),
+        this.button(PANEL_X + 400, y - 4, '>', edit(1)),
+      ]);
+    });
+  }
+
+  private addWave(): void {
+    const enemy = getStageEnemies()[0]?.name ?? Object.keys(ENEMY_TYPES)[0]!;
+    const pattern = getStagePatterns()[0]?.name;
+    this.waves.push({
+      t0: this.cursorMs,
+      duration: 5000,
+      enemy,
+      count: 5,
+      formation: 'line',
+      pattern: pattern ?? { name: 'editor-aimed', repeat: 1, spawnEveryMs: 1000, bullets: [] },
+    });
+    this.selected = this.waves.length - 1;
+    this.redraw();
+  }
+
+  private duplicateWave(): void {
+    const wave = this.waves[this.selected];
+    if (!wave) return;
+    this.waves.push({ ...structuredClone(wave), t0: wave.t0 + wave.duration });
+    this.selected = this.waves.length - 1;
+    this.redraw();
+  }
+
+  private deleteWave(): void {
+    if (!this.waves[this.selected]) return;
+    this.waves.splice(this.selected, 1);
+    this.selected = Math.max(0, Math.min(this.selected, this.waves.length - 1));
+    this.redraw();
+  }
+
+  private nudge(ms: number): void {
+    const wave = this.waves[this.selected];
+    if (!wave) return;
+    wave.t0 = snapMs(wave.t0 + ms);
+    this.redraw();
+  }
+
+  /**
+   * Problems that would stop these waves from loading, or null if they are valid
+   */
+  private validate(): string | null {
+    const result = WaveSchema.array().safeParse(this.waves);
+    if (result.success) {
+      return null;
+    }
+    const issue = result.error.issues[0]!;
+    return `Invalid: waves.${issue.path.join('.')} ${issue.message}`;
+  }
+
+  private save(): void {
+    const problem = this.validate();
+    if (problem) {
+      this.setStatus(problem, '#ff6666');
+      return;
+    }
+    if (downloadWaves(this.waves)) {
+      this.setStatus(`Saved ${this.waves.length} waves to waves.json5`);
+    }
+  }
+
+  private revert(): void {
+    draft = structuredClone(getStageWaves());
+    this.waves = draft;
+    this.selected = 0;
+    this.setStatus('Reverted to the loaded waves');
+    this.redraw();
+  }
+
+  private play(): void {
+    const problem = this.validate();
+    if (problem) {
+      this.setStatus(problem, '#ff6666');
+      return;
+    }
+    if (this.leaving) return;
+    this.leaving = true;
+    sceneLogger.logTransition('EditorScene', 'GameScene', { startAtMs: this.cursorMs });
+    this.scene.start('GameScene', {
+      seed: this.seed,
+      waves: WaveSchema.array().parse(this.waves),
+      startAtMs: this.cursorMs,
+    });
+  }
+
+  private exitToMenu(): void {
+    if (this.leaving) return;
+    this.leaving = true;
+    sceneLogger.logTransition('EditorScene', 'MenuScene');
+    this.scene.start('MenuScene');
+  }
+}
@@ -8,6 +8,8 @@ import { musicSystem, MusicTheme } from '../systems/MusicSystem';
 import { sceneLogger } from '../utils/SceneLogger';
 import { KennyEasterEgg } from '../utils/KennyEasterEgg';
 import { ErrorHandler } from '../utils/errorHandler';
+import { runSummaryLines } from '../ui/RunSummary';
+import type { RunSummary } from '../types';
 
 
 export class EndScene extends Phaser.Scene {
@@ -35,10 +37,11 @@ export class EndScene extends Phaser.Scene {
     this.load.audio('victoryMusic', 'assets/music/victory/winax.mp3');
   }
 
-  init(data: { playtime?: number }): void {
-    sceneLogger.log('EndScene', 'INIT', { playtime: data?.playtime });
+  init(data: { playtime?: number; summary?: RunSummary }): void {
+    sceneLogger.log('EndScene', 'INIT', { playtime: data?.playtime, summary: data?.summary });
     // Store playtime in seconds
     this.data.set('playtime', data?.playtime ?? 0);
+    this.data.set('summary', data?.summary);
     this.isTransitioning = false;
   }
 
@@ -276,6 +279,19 @@ export class EndScene extends Phaser.Scene {
       
       // Victory message
       try {
+        const summary = this.data.get('summary') as RunSummary | undefined;
+        if (summary) {
+          this.add
+            .text(width / 2, height / 2 - 120, runSummaryLines(summary), {
+              fontSize: '20px',
+              color: '#00ffff',
+              fontFamily: 'monospace',
+              align: 'center',
+            })
+            .setOrigin(0.5)
+            .setDepth(100);
+        }
+
         this.add
           .text(width / 2, height / 2 - 50, 'Congratulations, you won...', {
             fontSize: '32px',
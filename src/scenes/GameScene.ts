@@ -4,20 +4,16 @@
 
 import Phaser from 'phaser';
 import { GAME_CONFIG } from '../config/constants';
-import { BALANCER, WEAPON_SPECS } from '../systems/Balancer';
+import { BALANCER } from '../systems/Balancer';
 import { RNG } from '../systems/RNG';
 import { audioSystem } from '../systems/AudioSystem';
 import { musicSystem, MusicTheme } from '../systems/MusicSystem';
 // createParallaxStarfield available if needed in future
 // import { createParallaxStarfield } from '../systems/Starfield';
-// BulletMLRunner available if needed in future
-// import { BulletMLRunner } from '../systems/BulletMLRunner';
 // Pools available if needed in future
 // import { Pools } from '../systems/Pools';
 import { Effects } from '../systems/Effects';
 import { InputSystem } from '../systems/InputSystem';
-import { SpawnerSystem } from '../systems/SpawnerSystem';
-import { CollisionSystem } from '../systems/CollisionSystem';
 import { ParallaxSystem } from '../systems/ParallaxSystem';
 import { ShadowSystem } from '../systems/ShadowSystem';
 import { DepthOfFieldSystem } from '../systems/DepthOfFieldSystem';
@@ -25,59 +21,81 @@ import { Player } from '../entities/Player';
 import { Bullet } from '../entities/Bullet';
 import { Enemy } from '../entities/Enemy';
 import { PowerUp } from '../entities/PowerUp';
+import { ScoreItem } from '../entities/ScoreItem';
 import { Boss } from '../entities/Boss';
-import type { GameState } from '../types';
-import { getKenneySprite } from '../config/AssetMappings';
+import type { GameState, RunSummary } from '../types';
+import { Simulation, type SimulationOptions } from '../sim/Simulation';
+import type { SimEvent } from '../sim/SimEvents';
+import { ReplayRecorder } from '../sim/Replay';
+import { FixedTimestep } from '../sim/FixedTimestep';
+import { InputLatch } from '../sim/InputLatch';
+import type { SimSnapshot } from '../sim/Snapshot';
+import type { Wave } from '../systems/PatternML';
+import { writeSaveSlot, clearSaveSlot } from '../data/SaveSlot';
+import {
+  getStageBosses,
+  getStageEnemies,
+  getStagePaths,
+  getStagePatterns,
+  getStageScripts,
+  getStageWaves,
+} from '../data/Waves';
+import { saveLastReplay } from '../data/ReplayStorage';
+import { getHighScore, recordHighScore } from '../data/HighScores';
+import { DEFAULT_DIFFICULTY, type DifficultyName } from '../systems/Difficulty';
+import { CONTENT_OVERLAY_SCENE, CONTENT_RELOADED } from '../data/ContentReload';
+import { rewindPoint } from '../data/WaveTimeline';
+import type { InputState } from '../systems/InputSystem';
 import { sceneLogger } from '../utils/SceneLogger';
 import { browserLogger } from '../utils/BrowserLogger';
 import { getGodMode } from './MenuScene';
+import type { HUDScene } from './HUDScene';
 import { ErrorHandler } from '../utils/errorHandler';
 
+/**
+ * Data passed to GameScene.init via scene.start
+ */
+export interface GameSceneData {
+  seed?: string | number;
+  difficulty?: DifficultyName;
+  afterFirstBoss?: boolean;
+  /** Waves to play instead of the stage's (the timeline editor's working copy) */
+  waves?: Wave[];
+  /** Start this many ms into the wave timeline */
+  startAtMs?: number;
+  /** Start in the wave phase after this many bosses (rewinds) */
+  bossesDefeated?: number;
+  /** Resume a saved run instead of starting a new one */
+  snapshot?: SimSnapshot;
+}
+
 export class GameScene extends Phaser.Scene {
-  private rng!: RNG;
+  public rng!: RNG; // Visual-only stream read by ParallaxSystem; gameplay uses sim.streams
+  protected sim!: Simulation;
+  private recorder!: ReplayRecorder;
+  private timestep!: FixedTimestep;
+  private inputLatch!: InputLatch;
   private player!: Player;
-  private bullets: Bullet[] = [];
-  private enemies: Enemy[] = [];
-  private powerUps: PowerUp[] = [];
+  private bullets: Map<number, Bullet> = new Map();
+  private enemies: Map<number, Enemy> = new Map();
+  private powerUps: Map<number, PowerUp> = new Map();
+  private scoreItems: Map<number, ScoreItem> = new Map();
   private boss: Boss | null = null;
+  private wavesOverride?: Wave[]; // The editor's waves, kept across rewinds
   // Pools available if needed in future
   // private pools!: Pools;
   private effects!: Effects;
   private inputSystem!: InputSystem;
-  private spawnerSystem!: SpawnerSystem;
-  private collisionSystem!: CollisionSystem;
   private parallaxSystem!: ParallaxSystem;
   private shadowSystem!: ShadowSystem;
   private depthOfFieldSystem!: DepthOfFieldSystem;
-  private gameState: GameState = {
-    score: 0,
-    lives: BALANCER.playerLives,
-    weaponTier: 0,
-    bombs: BALANCER.bombsStart,
-    shields: 1,
-    stageTime: 0,
-    bossActive: false,
-    paused: false,
-  };
-  private fireTimer: number = 0;
-  private stageStartTime: number = 0;
-  private hudScene!: Phaser.Scene;
-  private scrollingPaused: boolean = false;
-  private bossPosition: number = 0;
-  private bossTimer: number = 0; // Timer for boss spawns (pauses during boss fight)
-  private bossCount: number = 0; // Track which boss number (1st, 2nd, 3rd, etc.)
-  private spawnTimer: number = 0; // Separate timer for enemy spawning (never pauses, always runs)
-  private lastSpawnCheckTime: number = 0; // Track last spawn check time to avoid duplicates
-  private spawnRateMultiplier: number = 1.0; // Multiplier for enemy spawn rate (increases after each boss)
-  private spawnCountMultiplier: number = 1.0; // Multiplier for number of enemies per spawn (increases every 15s)
-  private lastSpawnCountIncreaseTime: number = 0; // Track when spawn count was last increased
+  private hudScene!: HUDScene;
   private gameOverTriggered: boolean = false; // Flag to prevent multiple game over calls
-  private debugAfterFirstBoss: boolean = false; // Flag for debug mode starting after first boss
   private gameplayMusic?: Phaser.Sound.BaseSound;
   private isTransitioning: boolean = false; // Flag to prevent duplicate transitions
 
-  constructor() {
-    super({ key: 'GameScene' });
+  constructor(key: string = 'GameScene') {
+    super({ key });
   }
 
   preload(): void {
@@ -86,51 +104,93 @@ export class GameScene extends Phaser.Scene {
     this.load.audio('gameplayMusic', 'assets/music/gameplay/Gamenax title screen (2).mp3');
   }
 
-  init(data: { seed?: number; afterFirstBoss?: boolean }): void {
-    sceneLogger.log('GameScene', 'INIT', { seed: data?.seed, afterFirstBoss: data?.afterFirstBoss });
-    const seed = data?.seed ?? GAME_CONFIG.defaultSeed;
-    this.rng = new RNG(seed);
-    this.debugAfterFirstBoss = data?.afterFirstBoss ?? false;
+  init(data: GameSceneData): void {
+    sceneLogger.log('GameScene', 'INIT', {
+      seed: data?.seed,
+      difficulty: data?.difficulty,
+      afterFirstBoss: data?.afterFirstBoss,
+      startAtMs: data?.startAtMs,
+      bossesDefeated: data?.bossesDefeated,
+    });
+    this.wavesOverride = data?.waves;
+    if (data?.snapshot) {
+      // A suspended run can only be resumed once
+      clearSaveSlot();
+      this.startRun(data.snapshot.options, data.snapshot.stepHz, data.snapshot);
+      return;
+    }
+
+    this.startRun({
+      seed: data?.seed ?? GAME_CONFIG.defaultSeed,
+      difficulty: data?.difficulty ?? DEFAULT_DIFFICULTY,
+      afterFirstBoss: data?.afterFirstBoss ?? false,
+      godMode: getGodMode(),
+      waves: this.stageWaves,
+      patterns: getStagePatterns(),
+      bosses: getStageBosses(),
+      enemies: getStageEnemies(),
+      paths: getStagePaths(),
+      scripts: getStageScripts(),
+      startAtMs: data?.startAtMs,
+      bossesDefeated: data?.bossesDefeated,
+    });
+  }
+
+  /**
+   * Reset run flags and create the simulation for a new or resumed run
+   */
+  protected startRun(
+    options: SimulationOptions,
+    stepHz: number = GAME_CONFIG.simStepHz,
+    snapshot?: SimSnapshot
+  ): void {
+    this.rng = new RNG(options.seed).fork('visuals');
     this.isTransitioning = false;
     this.gameOverTriggered = false;
-    
-    if (this.debugAfterFirstBoss) {
-      // Start game after first boss defeat
-      // First boss was defeated, so we're waiting for second boss
-      this.stageStartTime = 50000; // 50 seconds (first boss spawn time)
-      this.bossTimer = 0; // Reset timer, will count to 60 for second boss
-      this.bossCount = 1; // First boss was spawned and defeated
-      this.lastSpawnCheckTime = 0;
-      this.spawnRateMultiplier = 1.5; // Increased after first boss
-      this.spawnCountMultiplier = 1.0; // Reset for second phase
-      this.lastSpawnCountIncreaseTime = 0;
-    } else {
-      // Normal game start
-    this.stageStartTime = 0;
-    this.bossTimer = 0;
-    this.bossCount = 0;
-    this.spawnTimer = 0;
-    this.lastSpawnCheckTime = 0;
-      this.spawnRateMultiplier = 1.0;
-      this.spawnCountMultiplier = 1.0;
-      this.lastSpawnCountIncreaseTime = 0;
-    }
-    
-    // Set weapon tier to max (6) in debug mode
-    const maxWeaponTier = 6;
-    const weaponTier = this.debugAfterFirstBoss ? maxWeaponTier : 0;
-    
-    this.gameState = {
-      score: 0,
-      lives: BALANCER.playerLives,
-      weaponTier: weaponTier,
-      bombs: BALANCER.bombsStart,
-      shields: 1,
-      stageTime: this.stageStartTime / 1000,
-      bossActive: false,
-      paused: false,
+
+    // All gameplay rules live in the headless simulation; this scene only renders it
+    this.sim = snapshot ? Simulation.fromSnapshot(snapshot) : new Simulation(options);
+    this.timestep = new FixedTimestep(stepHz);
+    this.inputLatch = new InputLatch();
+    this.recorder = new ReplayRecorder(options, stepHz, snapshot);
+  }
+
+  /**
+   * Input and delta to feed the simulation this frame (recorded for the replay)
+   * Returns null to skip stepping the simulation
+   */
+  protected nextFrame(delta: number): { input: InputState; delta: number } | null {
+    const input = this.inputSystem.getInputState();
+    this.recorder.record(input, delta);
+    return { input, delta };
+  }
+
+  /**
+   * Keep the finished run as the last replay
+   */
+  private saveReplay(): void {
+    saveLastReplay(this.recorder.toReplay(this.gameState.score, this.sim.rank.value));
+  }
+
+  /**
+   * Score the finished run against the difficulty's high score (god mode runs don't count)
+   */
+  private runSummary(): RunSummary {
+    const difficulty = this.sim.options.difficulty ?? DEFAULT_DIFFICULTY;
+    const score = this.gameState.score;
+    const newHighScore = !this.sim.godMode && recordHighScore(difficulty, score);
+    return {
+      difficulty,
+      score,
+      highScore: getHighScore(difficulty),
+      newHighScore,
+      peakChain: this.sim.chain.peak,
+      extends: this.gameState.extends,
     };
-    this.gameOverTriggered = false;
+  }
+
+  private get gameState(): GameState {
+    return this.sim.state;
   }
 
   create(): void {
@@ -141,9 +201,9 @@ export class GameScene extends Phaser.Scene {
         sceneVisible: this.scene.isVisible(),
         existingObjects: {
           player: !!this.player,
-          bullets: this.bullets.length,
-          enemies: this.enemies.length,
-          powerUps: this.powerUps.length,
+          bullets: this.bullets.size,
+          enemies: this.enemies.size,
+          powerUps: this.powerUps.size,
           boss: !!this.boss,
         }
       });
@@ -170,34 +230,7 @@ export class GameScene extends Phaser.Scene {
       this.player = undefined!;
     }
     
-    for (let i = this.bullets.length - 1; i >= 0; i--) {
-      const bullet = this.bullets[i];
-      if (bullet && bullet.active) {
-        bullet.destroy();
-      }
-    }
-    this.bullets = [];
-    
-    for (let i = this.enemies.length - 1; i >= 0; i--) {
-      const enemy = this.enemies[i];
-      if (enemy && enemy.active) {
-        enemy.destroy();
-      }
-    }
-    this.enemies = [];
-    
-    for (let i = this.powerUps.length - 1; i >= 0; i--) {
-      const powerUp = this.powerUps[i];
-      if (powerUp && powerUp.active) {
-        powerUp.destroy();
-      }
-    }
-    this.powerUps = [];
-    
-    if (this.boss) {
-      this.boss.destroy();
-      this.boss = null;
-    }
+    this.destroyEntitySprites();
     
     // Kill all tweens from previous session
     this.tweens.killAll();
@@ -278,8 +311,6 @@ export class GameScene extends Phaser.Scene {
     // this.pools = new Pools();
     this.effects = new Effects(this);
     this.inputSystem = new InputSystem(this);
-    this.spawnerSystem = new SpawnerSystem(this.rng);
-    this.collisionSystem = new CollisionSystem();
     // Create new parallax system instance to ensure clean state
     this.parallaxSystem = new ParallaxSystem();
     this.shadowSystem = new ShadowSystem(this);
@@ -300,23 +331,22 @@ export class GameScene extends Phaser.Scene {
 
     // Create player
     const { width, height } = this.cameras.main;
-    this.player = new Player(this, 100, height / 2);
+    this.player = new Player(this, this.sim.player.x, this.sim.player.y);
     this.player.setDepth(10);
     
-    // In debug mode, set player to max weapon tier
-    if (this.debugAfterFirstBoss) {
-      const maxWeaponTier = 6;
-      this.player.weaponTier = maxWeaponTier;
-      this.gameState.weaponTier = maxWeaponTier;
-    }
-    
     // Add player to shadow system (not depth of field - player should always be in focus)
     this.shadowSystem.addCaster(this.player);
 
     // Get HUD scene reference
-    this.hudScene = this.scene.get('HUDScene');
+    this.hudScene = this.scene.get('HUDScene') as HUDScene;
     this.updateHUD();
 
+    // Stage content edited while the dev server is running
+    this.game.events.on(CONTENT_RELOADED, this.onContentReloaded, this);
+    this.events.once('shutdown', () => {
+      this.game.events.off(CONTENT_RELOADED, this.onContentReloaded, this);
+    });
+
     // Set up camera
     this.cameras.main.setBounds(0, 0, width * 2, height);
     // Ensure camera starts at scroll position (0, 0) to prevent drift
@@ -373,50 +403,32 @@ export class GameScene extends Phaser.Scene {
       return;
     }
 
-    // Update stage time
-    this.stageStartTime += delta;
-    this.gameState.stageTime = this.stageStartTime / 1000;
-
-    // Update boss timer (only if not in boss fight)
-    // Ensure delta is valid (normal range is 0-100ms, but allow up to 1000ms for first frame)
-    if (!this.gameState.bossActive && delta > 0) {
-      this.bossTimer += delta / 1000; // Convert to seconds
-    }
-
-    // Update spawn timer (ALWAYS runs, never pauses - enemies spawn continuously except during boss fights)
-    if (delta > 0) {
-      this.spawnTimer += delta / 1000; // Convert to seconds
-    }
-
     // Update effects
     this.effects.update(time, delta);
 
-    // Handle input
-    const input = this.inputSystem.getInputState();
-
     // Pause
     if (this.inputSystem.isPauseJustPressed()) {
       this.pause();
       return;
     }
 
-    // Update player
-    this.updatePlayer(input, delta);
-    this.player.update(delta);
-
-    // Spawn enemies
-    this.updateSpawning();
-
-    // Update entities
-    this.updateBullets(delta);
-    this.updateEnemies(delta);
-    this.updatePowerUps(delta);
-    if (this.boss) {
-      this.updateBoss(delta);
+    // Advance the simulation and render its output
+    const frame = this.nextFrame(delta);
+    if (!frame) {
+      return;
+    }
+    const events: SimEvent[] = [];
+    this.inputLatch.hold(frame.input);
+    this.timestep.advance(frame.delta, (stepMs) => {
+      events.push(...this.sim.step(this.inputLatch.consume(frame.input), stepMs));
+    });
+    this.syncSprites(delta, this.timestep.alpha);
+    for (const event of events) {
+      this.handleSimEvent(event);
     }
 
     // Update parallax (only if not paused for boss fight)
-    if (this.parallaxSystem && !this.scrollingPaused) {
+    if (this.parallaxSystem && !this.sim.scrollingPaused) {
       this.parallaxSystem.update(delta);
     }
 
@@ -432,760 +444,402 @@ export class GameScene extends Phaser.Scene {
       });
     }
 
-    // Check collisions
-    this.checkCollisions();
-
     // Update HUD
     this.updateHUD();
 
-    // Check game over
-    if (!this.player.isAlive() && !this.gameOverTriggered) {
+    if (this.sim.status === 'victory') {
+      this.victory();
+    } else if (this.sim.status === 'defeat' && !this.gameOverTriggered) {
       this.gameOver();
     }
   }
 
-  private updatePlayer(input: ReturnType<InputSystem['getInputState']>, delta: number): void {
-    const deltaSeconds = delta / 1000;
-    const speed = this.player.speed * deltaSeconds;
-
-    // Movement
-    if (input.left) {
-      this.player.x -= speed;
-    }
-    if (input.right) {
-      this.player.x += speed;
-    }
-    if (input.up) {
-      this.player.y -= speed;
-    }
-    if (input.down) {
-      this.player.y += speed;
-    }
+  /**
+   * Create, move and destroy sprites to mirror the simulation's entities
+   * Positions are interpolated between the last two steps by alpha
+   */
+  private syncSprites(delta: number, alpha: number): void {
+    this.player.syncFrom(this.sim.player, delta, alpha);
 
-    // Clamp to screen bounds - account for sprite size
-    const { width, height } = this.cameras.main;
-    const playerHalfWidth = this.player.displayWidth / 2;
-    const playerHalfHeight = this.player.displayHeight / 2;
-    
-    // During boss fight, prevent player from moving past boss
-    if (this.gameState.bossActive && this.bossPosition > 0) {
-      // Clamp x to keep sprite fully on screen, but also respect boss boundary
-      const maxX = Math.min(this.bossPosition - 150, width - playerHalfWidth);
-      this.player.x = Math.max(playerHalfWidth, Math.min(maxX, this.player.x));
-    } else {
-      // Clamp x so sprite stays fully within screen (left edge >= 0, right edge <= width)
-      this.player.x = Math.max(playerHalfWidth, Math.min(width - playerHalfWidth, this.player.x));
-    }
-    
-    // Clamp y so sprite stays fully within screen (top edge >= 0, bottom edge <= height)
-    this.player.y = Math.max(playerHalfHeight, Math.min(height - playerHalfHeight, this.player.y));
-
-    // Firing
-    if (input.fire) {
-      this.player.addChargeTime(delta);
-      this.fireTimer += delta;
-      const weaponSpec = this.player.getWeaponSpec();
-      const fireInterval = 1000 / weaponSpec.fireRate;
-
-      if (this.fireTimer >= fireInterval) {
-        this.fireTimer = 0;
-        this.fireBullets(weaponSpec, this.player.isChargeShotReady());
-        if (this.player.isChargeShotReady()) {
-          this.player.resetChargeTime();
-        }
+    const liveBullets = new Set<number>();
+    for (const state of this.sim.bullets) {
+      if (!state.active) continue;
+      liveBullets.add(state.id);
+      let sprite = this.bullets.get(state.id);
+      if (!sprite) {
+        sprite = new Bullet(this, state);
+        this.bullets.set(state.id, sprite);
       }
-    } else {
-      this.player.resetChargeTime();
-      this.fireTimer = 0;
-    }
-
-    // Bomb
-    if (this.inputSystem.isBombJustPressed()) {
-      this.useBomb();
-    }
-    
-    // Shield
-    if (this.inputSystem.isShieldJustPressed()) {
-      this.useShield();
+      sprite.syncFrom(state, alpha);
     }
-  }
-
-  private fireBullets(weaponSpec: typeof WEAPON_SPECS[0], isCharged: boolean): void {
-    const damage = isCharged ? weaponSpec.damage * BALANCER.chargeShotDamage : weaponSpec.damage;
-    const bulletSpeed = weaponSpec.bulletSpeed;
-    const count = isCharged ? weaponSpec.bulletCount * 2 : weaponSpec.bulletCount;
-    const spread = isCharged ? weaponSpec.spreadAngle * 1.5 : weaponSpec.spreadAngle;
-
-    // Play sound once per shot, not once per bullet (prevents volume increase with weapon upgrades)
-    audioSystem.playPew();
-
-    // Try to use Kenney bullet sprite if available
-    let bulletTexture = 'bullet-player';
-    let bulletFrame: string | undefined = undefined;
-    
-    if (this.textures.exists('game')) {
-      const atlas = this.textures.get('game');
-      const kenneyBullet = getKenneySprite('playerBullet', 0);
-      if (atlas.has(kenneyBullet)) {
-        bulletTexture = 'game';
-        bulletFrame = kenneyBullet;
+    for (const [id, sprite] of this.bullets) {
+      if (!liveBullets.has(id)) {
+        sprite.destroy();
+        this.bullets.delete(id);
       }
     }
 
-    for (let i = 0; i < count; i++) {
-      let angleOffset = 0;
-      
-      if (count === 1) {
-        // Single bullet always goes straight
-        angleOffset = 0;
-      } else {
-        // Multiple bullets: always have one straight (at index 0), others spread around it
-        if (i === 0) {
-          // First bullet always goes straight
-          angleOffset = 0;
-        } else {
-          // Distribute remaining bullets evenly around the straight one
-          // For 2 bullets: [straight, +spread/2]
-          // For 3 bullets: [straight, -spread/2, +spread/2]
-          // For 4 bullets: [straight, -spread/3, +spread/3, +spread*2/3]
-          const spreadRad = (spread / 180) * Math.PI;
-          const totalSpread = spreadRad * 0.5; // Half spread on each side
-          const numSideBullets = count - 1;
-          
-          // Distribute from -totalSpread to +totalSpread
-          if (numSideBullets === 1) {
-            // Only one side bullet
-            angleOffset = totalSpread;
-          } else {
-            // Multiple side bullets: distribute evenly
-            const t = (i - 1) / (numSideBullets - 1); // 0 to 1
-            angleOffset = -totalSpread + t * (totalSpread * 2);
-          }
-        }
+    const liveEnemies = new Set<number>();
+    for (const state of this.sim.enemies) {
+      if (!state.active) continue;
+      liveEnemies.add(state.id);
+      let sprite = this.enemies.get(state.id);
+      if (!sprite) {
+        sprite = new Enemy(this, state);
+        sprite.setDepth(5);
+        this.enemies.set(state.id, sprite);
+        // Enemies cast shadows but stay out of depth of field (always in focus)
+        this.shadowSystem.addCaster(sprite);
       }
-      
-      const bullet = new Bullet(this, this.player.x, this.player.y, bulletTexture, true, bulletFrame);
-      bullet.init(
-        this.player.x,
-        this.player.y,
-        angleOffset,
-        bulletSpeed,
-        damage
-      );
-
-      if (isCharged) {
-        bullet.setScale(BALANCER.chargeShotSize);
+      sprite.syncFrom(state, alpha);
+    }
+    for (const [id, sprite] of this.enemies) {
+      if (!liveEnemies.has(id)) {
+        this.shadowSystem.removeCaster(sprite);
+        this.depthOfFieldSystem.removeObject(sprite);
+        sprite.destroy();
+        this.enemies.delete(id);
       }
-
-      this.bullets.push(bullet);
     }
-  }
 
-  private updateSpawning(): void {
-    // Simple rule: Enemies ALWAYS spawn EXCEPT when a boss is on screen
-    // After second boss defeat, game ends (bossCount >= 2)
-    
-    // FIRST: Check if a boss should spawn (do this before enemy spawning to prevent same-frame spawning)
-    // Spawn boss based on boss count and timer
-    // First boss: spawn at 50 seconds
-    // Second boss: spawn at 60 seconds (timer resets to 0 after first boss defeat)
-    if (!this.gameState.bossActive && this.boss === null) {
-      let shouldSpawn = false;
-      let bossInterval = 0;
-      
-      if (this.bossCount === 0) {
-        // Waiting for first boss - spawn at 50 seconds
-        bossInterval = 50;
-        // Spawn when timer reaches or exceeds 50 seconds
-        shouldSpawn = this.bossTimer >= bossInterval;
-      } else if (this.bossCount === 1) {
-        // Waiting for second boss - spawn at 60 seconds
-        bossInterval = 60;
-        // Spawn when timer reaches or exceeds 60 seconds
-        shouldSpawn = this.bossTimer >= bossInterval;
-      }
-      
-      if (shouldSpawn) {
-        const { width, height } = this.cameras.main;
-        const bossX = width - 200; // Position boss on right side
-        this.bossPosition = bossX;
-        
-        // Calculate boss HP: first boss = baseHP * 6 (doubled), second boss = baseHP * 18 (tripled)
-        const baseHP = BALANCER.bossHP;
-        const bossHP = this.bossCount === 0 ? baseHP * 6 : baseHP * 18;
-        
-        this.boss = new Boss(this, bossX, height / 2, this.rng);
-        this.boss.maxHp = bossHP;
-        this.boss.init(bossX, height / 2);
-        this.gameState.bossActive = true;
-        this.scrollingPaused = true;
-        this.bossCount++;
-        // Return immediately after spawning boss to prevent enemies from spawning in same frame
-        return;
+    const livePowerUps = new Set<number>();
+    for (const state of this.sim.powerUps) {
+      if (!state.active) continue;
+      livePowerUps.add(state.id);
+      let sprite = this.powerUps.get(state.id);
+      if (!sprite) {
+        sprite = new PowerUp(this, state);
+        this.powerUps.set(state.id, sprite);
       }
+      sprite.syncFrom(state, alpha);
     }
-    
-    // Don't spawn during boss fights or after second boss defeat
-    // Check both bossActive flag AND if boss object exists
-    if (this.gameState.bossActive || this.boss !== null || this.bossCount >= 2) {
-      return;
-    }
-    
-    // Determine which phase we're in for multiplier tracking
-    const isPhase1 = this.bossCount === 0;
-    const currentPhaseTime = this.bossTimer; // Use bossTimer which resets after first boss
-    
-    // Increase spawn count multiplier every 15 seconds (based on phase time)
-    const timeSinceLastIncrease = currentPhaseTime - this.lastSpawnCountIncreaseTime;
-    if (timeSinceLastIncrease >= 15) {
-      this.spawnCountMultiplier *= 1.5;
-      this.lastSpawnCountIncreaseTime = currentPhaseTime;
-    }
-    
-    // Spawn enemies from schedule based on current phase time
-    // Use bossTimer which resets after first boss, so:
-    // Phase 1: 0-50s (bossTimer)
-    // Phase 2: 0-60s (bossTimer resets to 0)
-    const scaledPhaseTime = currentPhaseTime * this.spawnRateMultiplier;
-    const scaledLastCheckTime = this.lastSpawnCheckTime * this.spawnRateMultiplier;
-    
-    // Check for spawns that should occur between last check and now
-    // Enemies spawn continuously - no time limit, only pause during boss fights
-    for (const spawn of BALANCER.spawnSchedule) {
-      // Scale spawn time by multiplier
-      const scaledSpawnTime = spawn.time / this.spawnRateMultiplier;
-      
-      // Check if this spawn should occur now
-      // Handle timer reset (when bossTimer < lastSpawnCheckTime, timer was reset)
-      const hasTimerReset = this.bossTimer < this.lastSpawnCheckTime;
-      let shouldSpawn = false;
-      
-      if (hasTimerReset) {
-        // Timer was reset (phase transition) - spawn everything from 0 to current time
-        shouldSpawn = scaledSpawnTime <= scaledPhaseTime && scaledSpawnTime >= 0;
-      } else {
-        // Normal case - spawn if time has passed since last check
-        // For phase 2, continue spawning beyond 60s by looping the schedule
-        // If we're past the schedule, repeat it
-        if (!isPhase1 && scaledPhaseTime > 69.5 / this.spawnRateMultiplier) {
-          // Phase 2 and past schedule end - loop the schedule
-          const scheduleEnd = 69.5 / this.spawnRateMultiplier;
-          const loopTime = scaledPhaseTime % scheduleEnd;
-          const loopLastCheck = scaledLastCheckTime % scheduleEnd;
-          shouldSpawn = scaledSpawnTime > loopLastCheck && scaledSpawnTime <= loopTime;
-        } else {
-          // Normal case - spawn if time has passed since last check
-          shouldSpawn = scaledSpawnTime > scaledLastCheckTime && scaledSpawnTime <= scaledPhaseTime;
-        }
-      }
-      
-      if (shouldSpawn) {
-        // Spawn multiple enemies based on spawn count multiplier
-        const baseCount = 1;
-        const totalCount = Math.max(1, Math.round(baseCount * this.spawnCountMultiplier));
-        
-        // Use wider Y range to ensure enemies spawn across the full screen height
-        const margin = 80; // Margin from top and bottom
-        
-        for (let i = 0; i < totalCount; i++) {
-          // Slightly vary spawn position to avoid exact overlaps
-          const xOffset = (i - (totalCount - 1) / 2) * 20; // Spread enemies horizontally
-          const y = spawn.y ?? this.spawnerSystem.getRandomSpawnY(margin, this.cameras.main.height - margin);
-          const enemy = new Enemy(this, spawn.x + xOffset, y, spawn.enemyType, this.rng);
-          enemy.init(spawn.x + xOffset, y);
-          enemy.setDepth(5);
-          this.enemies.push(enemy);
-          
-          // Add enemy to shadow system (not depth of field - enemies should always be in focus)
-          this.shadowSystem.addCaster(enemy);
-        }
+    for (const [id, sprite] of this.powerUps) {
+      if (!livePowerUps.has(id)) {
+        sprite.destroy();
+        this.powerUps.delete(id);
       }
     }
-    
-    // Update spawn check time (use phase time from bossTimer)
-    this.lastSpawnCheckTime = currentPhaseTime;
-  }
 
-  private updateBullets(delta: number): void {
-    const deltaSeconds = delta / 1000;
-    
-    for (let i = this.bullets.length - 1; i >= 0; i--) {
-      const bullet = this.bullets[i];
-      if (bullet.active) {
-        bullet.update(delta);
-        
-        // Scroll enemy bullets with level (only if scrolling is active)
-        if (!this.scrollingPaused && !bullet.isPlayerBullet) {
-          bullet.x -= BALANCER.scrollSpeed * deltaSeconds;
-        }
-      } else {
-        this.bullets.splice(i, 1);
-        bullet.destroy();
+    const liveScoreItems = new Set<number>();
+    for (const state of this.sim.scoreItems) {
+      if (!state.active) continue;
+      liveScoreItems.add(state.id);
+      let sprite = this.scoreItems.get(state.id);
+      if (!sprite) {
+        sprite = new ScoreItem(this, state);
+        this.scoreItems.set(state.id, sprite);
       }
+      sprite.syncFrom(state, alpha);
     }
-  }
-
-  private updateEnemies(delta: number): void {
-    const deltaSeconds = delta / 1000;
-    
-    for (let i = this.enemies.length - 1; i >= 0; i--) {
-      const enemy = this.enemies[i]!;
-      if (enemy.active) {
-        // Scroll enemies with level (only if scrolling is active)
-        // Chaser enemies that have reached the edge control their own movement
-        if (!this.scrollingPaused && !(enemy.enemyType === 'chaser' && enemy.reachedEdge)) {
-          enemy.x -= BALANCER.scrollSpeed * deltaSeconds;
-        }
-        
-        const updateResult = enemy.update(delta, this.player.x, this.player.y);
-        
-        // Handle explosion for chasers that return to edge
-        if (updateResult === 'explode') {
-          this.explodeEnemy(enemy);
-          this.shadowSystem.removeCaster(enemy);
-          this.enemies.splice(i, 1);
-          enemy.destroy();
-          continue;
-        }
-        
-        // Remove enemies that have gone off the left edge
-        if (enemy.x < -50) {
-          enemy.setActive(false);
-          enemy.setVisible(false);
-          this.shadowSystem.removeCaster(enemy);
-          this.enemies.splice(i, 1);
-          enemy.destroy();
-          continue;
-        }
-        
-        if (updateResult === true) {
-          this.enemyFire(enemy);
-        }
-      } else {
-        this.shadowSystem.removeCaster(enemy);
-        this.depthOfFieldSystem.removeObject(enemy);
-        this.enemies.splice(i, 1);
-        enemy.destroy();
+    for (const [id, sprite] of this.scoreItems) {
+      if (!liveScoreItems.has(id)) {
+        sprite.destroy();
+        this.scoreItems.delete(id);
       }
     }
-  }
 
-  private enemyFire(enemy: Enemy): void {
-    const angle = Math.atan2(this.player.y - enemy.y, this.player.x - enemy.x);
-    
-    // Try to use Kenney bullet sprite if available
-    let bulletTexture = 'bullet-enemy';
-    let bulletFrame: string | undefined = undefined;
-    
-    if (this.textures.exists('game')) {
-      const atlas = this.textures.get('game');
-      const kenneyBullet = getKenneySprite('enemyBullet', 0);
-      if (atlas.has(kenneyBullet)) {
-        bulletTexture = 'game';
-        bulletFrame = kenneyBullet;
+    const bossState = this.sim.boss;
+    if (bossState && bossState.active) {
+      if (!this.boss || this.boss.simId !== bossState.id) {
+        this.boss?.destroy();
+        this.boss = new Boss(this, bossState);
       }
+      this.boss.syncFrom(bossState, alpha);
+    } else if (this.boss) {
+      this.boss.destroy();
+      this.boss = null;
     }
-    
-    const bullet = new Bullet(this, enemy.x, enemy.y, bulletTexture, false, bulletFrame);
-    bullet.init(enemy.x, enemy.y, angle, BALANCER.enemyBulletSpeed, BALANCER.bulletDamage);
-    this.bullets.push(bullet);
   }
 
   /**
-   * Handle enemy explosion when chaser returns to edge after backtracking
+   * Turn simulation events into sound, particles and screen shake
    */
-  private explodeEnemy(enemy: Enemy): void {
-    const explosionRadius = 100; // Small explosion radius
-    // Explosion damage available if needed for future chain reactions
-    // const explosionDamage = BALANCER.bulletDamage * 3;
-    
-    // Visual explosion effect
-    this.effects.explosion(this, enemy.x, enemy.y, 0xff0000);
-    audioSystem.playBoom();
-    
-    // Check if player is in explosion radius
-    const dx = this.player.x - enemy.x;
-    const dy = this.player.y - enemy.y;
-    const dist = Math.sqrt(dx * dx + dy * dy);
-    
-    if (dist <= explosionRadius) {
-      // Player takes damage from explosion (unless god mode is enabled)
-      if (!getGodMode()) {
-        this.player.takeDamage();
-        this.effects.hitFlash(this.player);
-        this.effects.shake(BALANCER.shakeIntensity * 2, BALANCER.shakeDuration * 2);
-        audioSystem.playHit();
+  private handleSimEvent(event: SimEvent): void {
+    switch (event.type) {
+      case 'playerShot':
+        // Play sound once per shot, not once per bullet (prevents volume increase with weapon upgrades)
+        audioSystem.playPew();
+        break;
+
+      case 'bulletImpact':
+        this.effects.explosion(this, event.x, event.y, event.color);
+        break;
+
+      case 'enemyHit': {
+        const sprite = this.enemies.get(event.enemyId);
+        if (sprite) {
+          this.effects.hitFlash(sprite);
+        }
+        break;
       }
-      
-      if (!this.player.isAlive()) {
-        this.effects.explosion(this, this.player.x, this.player.y);
+
+      case 'enemyKilled':
+        this.effects.explosion(this, event.x, event.y);
         audioSystem.playBoom();
-      }
-    }
-    
-    // Clear bullets in explosion radius
-    const clearedBullets = this.collisionSystem.getBulletsInRadius(
-      enemy.x,
-      enemy.y,
-      explosionRadius,
-      this.bullets
-    );
-    
-    for (const bullet of clearedBullets) {
-      bullet.setActive(false);
-    }
-  }
+        break;
 
-  private updatePowerUps(delta: number): void {
-    const deltaSeconds = delta / 1000;
-    
-    for (let i = this.powerUps.length - 1; i >= 0; i--) {
-      const powerUp = this.powerUps[i];
-      if (powerUp.active) {
-        powerUp.update(delta);
-        
-        // Scroll power-ups with level (only if scrolling is active)
-        if (!this.scrollingPaused) {
-          powerUp.x -= BALANCER.scrollSpeed * deltaSeconds;
-        }
-      } else {
-        this.powerUps.splice(i, 1);
-        powerUp.destroy();
-      }
-    }
-  }
+      case 'enemyExploded':
+        this.effects.explosion(this, event.x, event.y, 0xff0000);
+        audioSystem.playBoom();
+        break;
 
-  private updateBoss(delta: number): void {
-    if (!this.boss || !this.boss.active) {
-      return;
-    }
+      case 'formationWiped':
+        this.effects.scorePopup(this, event.x, event.y, `FORMATION +${event.bonus}`);
+        audioSystem.playChime();
+        break;
 
-    const shouldFire = this.boss.update(delta, this.player.x, this.player.y);
-    if (shouldFire) {
-      const patterns = this.boss.getFirePattern(this.player.x, this.player.y);
-      for (const pattern of patterns) {
-        const bullet = new Bullet(this, this.boss.x, this.boss.y, 'bullet-enemy', false);
-        bullet.init(this.boss.x, this.boss.y, pattern.angle, pattern.speed, BALANCER.bulletDamage * 2);
-        this.bullets.push(bullet);
-      }
-    }
+      case 'chainBroken':
+        this.hudScene?.chainBroken(event.chain);
+        break;
 
-    if (!this.boss.isAlive()) {
-      this.gameState.score += BALANCER.scorePerKill.boss;
-      this.effects.explosion(this, this.boss.x, this.boss.y);
-      audioSystem.playBoom();
-      this.boss.destroy();
-      this.boss = null;
-      this.gameState.bossActive = false;
-      this.scrollingPaused = false; // Resume scrolling after boss defeat
-      this.bossPosition = 0;
-      
-      // Check if second boss defeated (bossCount === 2 means second boss defeated)
-      // bossCount increments AFTER boss spawn, so:
-      // - First boss spawns: bossCount 0 -> 1, defeat: bossCount = 1
-      // - Second boss spawns: bossCount 1 -> 2, defeat: bossCount = 2
-      if (this.bossCount === 2) {
-        // Game won! Transition to end scene
-        // Prevent multiple calls
-        if (this.gameOverTriggered || this.isTransitioning) {
-          sceneLogger.log('GameScene', 'VICTORY_TRANSITION_BLOCKED', { 
-            gameOverTriggered: this.gameOverTriggered, 
-            isTransitioning: this.isTransitioning 
-          });
-          return;
-        }
-        
-        sceneLogger.logTransition('GameScene', 'EndScene', { 
-          playtime: this.gameState.stageTime,
-          bossCount: this.bossCount 
-        });
-        
-        this.gameOverTriggered = true;
-        this.isTransitioning = true;
-        
-        try {
-          // Pause the scene first to stop updates
-          this.scene.pause();
-          sceneLogger.log('GameScene', 'PAUSED');
-          
-          // Stop HUD scene before transitioning
-          this.scene.stop('HUDScene');
-          sceneLogger.log('GameScene', 'HUD_STOPPED');
-          
-          // Stop gameplay music immediately - don't fade, just stop
-          if (this.gameplayMusic) {
-            this.gameplayMusic.stop();
-            this.gameplayMusic.destroy();
-            this.gameplayMusic = undefined;
-            sceneLogger.log('GameScene', 'MUSIC_STOPPED');
-          }
-          
-          // Stop procedural music
-          musicSystem.stop();
-          
-          // Stop all sounds from this scene to prevent them from continuing
-          this.sound.stopAll();
-          
-          // Stop all tweens to prevent them from continuing to render
-          this.tweens.killAll();
-          sceneLogger.log('GameScene', 'ALL_TWEENS_STOPPED');
-          
-          // Transition immediately - don't delay the scene change
-          // The new scene will handle its music fade-in
-          this.scene.start('EndScene', { playtime: this.gameState.stageTime });
-          sceneLogger.log('GameScene', 'ENDSCENE_STARTED');
-        } catch (error) {
-          sceneLogger.logError('GameScene', 'VICTORY_TRANSITION_ERROR', error);
-          this.isTransitioning = false;
-          this.gameOverTriggered = false;
-        }
-        return;
-      }
-      
-      // After first boss defeat, reset timer to 0 and start counting for second boss
-      if (this.bossCount === 1) {
-        this.bossTimer = 0;
-        this.lastSpawnCheckTime = 0;
-        this.lastSpawnCountIncreaseTime = 0;
-      }
-      
-      this.spawnRateMultiplier *= 1.5; // Increase spawn rate by 1.5x after each boss
-    }
-  }
+      case 'graze':
+        this.effects.grazeSpark(this, event.x, event.y);
+        break;
 
-  private checkCollisions(): void {
-    // Cache filtered bullet arrays once per frame to avoid repeated filtering
-    const enemyBullets = this.bullets.filter((b) => !b.isPlayerBullet);
-    const playerBullets = this.bullets.filter((b) => b.isPlayerBullet);
-    const activeEnemyBullets = enemyBullets.filter((b) => b.active);
-    const activePlayerBullets = playerBullets.filter((b) => b.active);
-    const activeEnemies = this.enemies.filter((e) => e.active);
-    
-    // Shield vs enemy bullets (check shield first, before player)
-    if (this.player.isShielded) {
-      const shieldHitBullets = this.collisionSystem.checkShieldBulletCollision(
-        this.player,
-        enemyBullets
-      );
-      for (const bullet of shieldHitBullets) {
-        // Create explosion effect at bullet position
-        this.effects.explosion(this, bullet.x, bullet.y, 0x00ffff);
-        bullet.setActive(false);
-        // Visual effect for bullet hitting shield
-        this.effects.hitFlash(this.player);
-      }
-    }
+      case 'extend':
+        this.hudScene?.extend(event.bonus);
+        audioSystem.playExtend();
+        break;
 
-    // Player vs enemy bullets (only check if not shielded)
-    const hitBullet = this.collisionSystem.checkPlayerBulletCollision(
-      this.player,
-      activeEnemyBullets
-    );
-    if (hitBullet) {
-      // Create explosion effect at bullet position
-      this.effects.explosion(this, hitBullet.x, hitBullet.y, 0xff0000);
-      hitBullet.setActive(false);
-      // Player takes damage (unless god mode is enabled)
-      if (!getGodMode()) {
-        this.player.takeDamage();
+      case 'playerHit':
         this.effects.hitFlash(this.player);
-        this.effects.shake();
+        if (event.heavy) {
+          this.effects.shake(BALANCER.shakeIntensity * 2, BALANCER.shakeDuration * 2);
+        } else {
+          this.effects.shake();
+        }
         audioSystem.playHit();
-        if (!this.player.isAlive()) {
-          this.effects.explosion(this, this.player.x, this.player.y);
+        if (event.lethal) {
+          this.effects.explosion(this, event.x, event.y);
           audioSystem.playBoom();
         }
-      }
-    }
-
-    // Player bullets vs enemies
-    const { width, height } = this.cameras.main;
-    let collision = this.collisionSystem.checkBulletEnemyCollision(
-      playerBullets,
-      this.enemies,
-      width,
-      height
-    );
-    while (collision) {
-      // Create explosion effect at bullet impact point (always, not just when enemy dies)
-      this.effects.explosion(this, collision.bullet.x, collision.bullet.y, 0x00ffff);
-      collision.bullet.setActive(false);
-      const dead = collision.enemy.takeDamage(collision.bullet.damage);
-      this.effects.hitFlash(collision.enemy);
-
-      if (dead) {
-        this.gameState.score += BALANCER.scorePerKill[collision.enemy.enemyType as keyof typeof BALANCER.scorePerKill] ?? 100;
-        // Create larger explosion when enemy dies
-        this.effects.explosion(this, collision.enemy.x, collision.enemy.y);
-        audioSystem.playBoom();
+        break;
 
-        // Check for power-up drop
-        const dropType = collision.enemy.shouldDropPowerUp();
-        if (dropType) {
-          // Don't spawn health power-ups if player is already at max lives
-          if (dropType === 'health' && this.player.lives >= BALANCER.playerMaxLives) {
-            // Skip health power-up if at max lives
-          } else if (dropType === 'weapon' && this.player.weaponTier >= 6) {
-            // Skip weapon power-up if at max weapon tier (tier 6)
-          } else {
-            this.spawnPowerUp(collision.enemy.x, collision.enemy.y, dropType);
-          }
+      case 'shieldBlock':
+        this.effects.explosion(this, event.x, event.y, 0x00ffff);
+        this.effects.hitFlash(this.player);
+        break;
+
+      case 'shieldActivated':
+      case 'powerUpCollected':
+        audioSystem.playChime();
+        break;
+
+      case 'powerUpChanged':
+        this.hudScene?.powerUpChanged(event);
+        if (event.stat === 'weapon') {
+          const { x, y } = this.player;
+          const color = `#${GAME_CONFIG.weaponColors[event.value].toString(16).padStart(6, '0')}`;
+          this.effects.scorePopup(this, x, y - 40, event.value.toUpperCase(), color);
+        } else if (event.stat === 'weaponTier' && event.value < event.previous) {
+          const { x, y } = this.player;
+          this.effects.scorePopup(this, x, y - 40, 'WEAPON DOWN', '#ff4444');
         }
+        break;
 
-        collision.enemy.setActive(false);
+      case 'bombUsed': {
+        audioSystem.playBoom();
+        this.effects.shake(BALANCER.shakeIntensity * 2, BALANCER.shakeDuration * 2);
+        const { width, height } = this.cameras.main;
+        this.effects.bombWave(this, event.x, event.y, width, height);
+        break;
       }
 
-      collision = this.collisionSystem.checkBulletEnemyCollision(
-        activePlayerBullets,
-        activeEnemies,
-        width,
-        height
-      );
-    }
+      case 'scoreItemsCollected':
+        audioSystem.play('chime', 0.3);
+        break;
 
-    // Player bullets vs boss
-    if (this.boss) {
-      const bossCollision = this.collisionSystem.checkBulletBossCollision(
-        playerBullets,
-        this.boss
-      );
-      if (bossCollision) {
-        // Create explosion effect at bullet impact point (always, not just when boss dies)
-        this.effects.explosion(this, bossCollision.bullet.x, bossCollision.bullet.y, 0x00ffff);
-        bossCollision.bullet.setActive(false);
-        const dead = bossCollision.boss.takeDamage(bossCollision.bullet.damage);
-        this.effects.hitFlash(bossCollision.boss);
-        if (dead) {
-          this.gameState.score += BALANCER.scorePerKill.boss;
-          // Create larger explosion when boss dies
-          this.effects.explosion(this, bossCollision.boss.x, bossCollision.boss.y);
-          audioSystem.playBoom();
+      case 'bossHit':
+        if (this.boss) {
+          this.effects.hitFlash(this.boss);
         }
-      }
-    }
+        break;
 
-    // Player vs enemies
-    const hitEnemy = this.collisionSystem.checkPlayerEnemyCollision(this.player, this.enemies);
-    if (hitEnemy) {
-      // Player takes damage (unless god mode is enabled)
-      if (!getGodMode()) {
-        this.player.takeDamage();
-        this.effects.hitFlash(this.player);
-        this.effects.shake();
-        audioSystem.playHit();
-      }
-      hitEnemy.setActive(false);
-    }
-
-    // Player vs boss
-    if (this.boss && this.collisionSystem.checkPlayerBossCollision(this.player, this.boss)) {
-      // Player takes damage (unless god mode is enabled)
-      if (!getGodMode()) {
-        this.player.takeDamage();
-        this.effects.hitFlash(this.player);
-        this.effects.shake();
-        audioSystem.playHit();
-      }
-    }
+      case 'bossKilled':
+        this.effects.explosion(this, event.x, event.y);
+        audioSystem.playBoom();
+        break;
 
-    // Player vs power-ups
-    const powerUp = this.collisionSystem.checkPlayerPowerUpCollision(this.player, this.powerUps);
-    if (powerUp) {
-      this.collectPowerUp(powerUp);
-      powerUp.setActive(false);
+      case 'bulletsCanceled':
+      case 'bossSpawned':
+      case 'victory':
+      case 'defeat':
+        break;
     }
   }
 
-  private spawnPowerUp(x: number, y: number, type: 'weapon' | 'bomb' | 'health' | 'shield'): void {
-    const powerUp = new PowerUp(this, x, y, { type, value: 1 });
-    this.powerUps.push(powerUp);
-  }
-
-  private collectPowerUp(powerUp: PowerUp): void {
-    audioSystem.playChime();
-
-    if (powerUp.powerUpType.type === 'weapon') {
-      this.player.upgradeWeapon();
-      this.gameState.weaponTier = this.player.weaponTier;
-    } else if (powerUp.powerUpType.type === 'bomb') {
-      this.player.addBomb();
-      this.gameState.bombs = this.player.bombs;
-    } else if (powerUp.powerUpType.type === 'health') {
-      if (this.player.lives < BALANCER.playerMaxLives) {
-        this.player.addLife();
-        this.gameState.lives = this.player.lives;
+  protected victory(): void {
+    // Game won! Transition to end scene
+    // Prevent multiple calls
+    if (this.gameOverTriggered || this.isTransitioning) {
+      sceneLogger.log('GameScene', 'VICTORY_TRANSITION_BLOCKED', { 
+        gameOverTriggered: this.gameOverTriggered, 
+        isTransitioning: this.isTransitioning 
+      });
+      return;
+    }
+    
+    sceneLogger.logTransition('GameScene', 'EndScene', { 
+      playtime: this.gameState.stageTime,
+      bossCount: this.sim.bossCount 
+    });
+    
+    this.gameOverTriggered = true;
+    this.isTransitioning = true;
+    this.saveReplay();
+    
+    try {
+      // Pause the scene first to stop updates
+      this.scene.pause();
+      sceneLogger.log('GameScene', 'PAUSED');
+      
+      // Stop HUD scene before transitioning
+      this.scene.stop('HUDScene');
+      sceneLogger.log('GameScene', 'HUD_STOPPED');
+      
+      // Stop gameplay music immediately - don't fade, just stop
+      if (this.gameplayMusic) {
+        this.gameplayMusic.stop();
+        this.gameplayMusic.destroy();
+        this.gameplayMusic = undefined;
+        sceneLogger.log('GameScene', 'MUSIC_STOPPED');
       }
-    } else if (powerUp.powerUpType.type === 'shield') {
-      this.player.addShield();
-      this.gameState.shields = this.player.shields;
+      
+      // Stop procedural music
+      musicSystem.stop();
+      
+      // Stop all sounds from this scene to prevent them from continuing
+      this.sound.stopAll();
+      
+      // Stop all tweens to prevent them from continuing to render
+      this.tweens.killAll();
+      sceneLogger.log('GameScene', 'ALL_TWEENS_STOPPED');
+      
+      // Transition immediately - don't delay the scene change
+      // The new scene will handle its music fade-in
+      this.scene.start('EndScene', {
+        playtime: this.gameState.stageTime,
+        summary: this.runSummary(),
+      });
+      sceneLogger.log('GameScene', 'ENDSCENE_STARTED');
+    } catch (error) {
+      sceneLogger.logError('GameScene', 'VICTORY_TRANSITION_ERROR', error);
+      this.isTransitioning = false;
+      this.gameOverTriggered = false;
     }
   }
 
-  private useBomb(): void {
-    if (!this.player.useBomb()) {
+  /**
+   * Write the run to the save slot and return to the menu (called from PauseScene)
+   */
+  saveAndQuit(): void {
+    if (this.gameOverTriggered || this.isTransitioning) {
       return;
     }
+    sceneLogger.logTransition('GameScene', 'MenuScene', { saved: true, stageTime: this.gameState.stageTime });
+    this.isTransitioning = true;
 
-    this.gameState.bombs = this.player.bombs;
-    audioSystem.playBoom();
-    this.effects.shake(BALANCER.shakeIntensity * 2, BALANCER.shakeDuration * 2);
+    writeSaveSlot(this.sim.toSnapshot(this.timestep.stepHz));
 
-    // Create bomb wave visual effect
-    const { width, height } = this.cameras.main;
-    this.effects.bombWave(this, this.player.x, this.player.y, width, height);
-
-    // Clear enemies in radius
-    const clearedEnemies = this.collisionSystem.getEnemiesInRadius(
-      this.player.x,
-      this.player.y,
-      BALANCER.bombClearRadius,
-      this.enemies
-    );
+    if (this.gameplayMusic) {
+      this.gameplayMusic.stop();
+      this.gameplayMusic.destroy();
+      this.gameplayMusic = undefined;
+    }
+    musicSystem.stop();
+    this.scene.stop('PauseScene');
+    this.scene.stop('HUDScene');
+    this.scene.start('MenuScene');
+  }
 
-    for (const enemy of clearedEnemies) {
-      this.gameState.score += BALANCER.scorePerKill[enemy.enemyType as keyof typeof BALANCER.scorePerKill] ?? 100;
-      this.effects.explosion(this, enemy.x, enemy.y);
-      enemy.setActive(false);
+  /**
+   * New stage content is in place: pause and ask whether to rewind or keep playing
+   */
+  protected onContentReloaded(changed: string): void {
+    if (!this.scene.isActive() || this.gameOverTriggered || this.isTransitioning) {
+      return;
     }
+    this.scene.pause();
+    this.scene.launch(CONTENT_OVERLAY_SCENE, {
+      mode: 'reloaded',
+      changed,
+      rewindMs: rewindPoint(this.stageWaves, this.sim.waveTimeMs),
+    });
+    this.scene.bringToTop(CONTENT_OVERLAY_SCENE);
+  }
 
-    // Clear bullets in radius
-    const clearedBullets = this.collisionSystem.getBulletsInRadius(
-      this.player.x,
-      this.player.y,
-      BALANCER.bombClearRadius,
-      this.bullets
+  /**
+   * Carry on from this moment with the reloaded content (called from ContentOverlayScene)
+   */
+  keepPlaying(): void {
+    this.scene.stop(CONTENT_OVERLAY_SCENE);
+    const continued = ErrorHandler.executeSync(
+      'GameScene.keepPlaying',
+      () => {
+        const snapshot = Simulation.reloadContent(this.sim.toSnapshot(this.timestep.stepHz), {
+          waves: this.stageWaves,
+          patterns: getStagePatterns(),
+          bosses: getStageBosses(),
+          enemies: getStageEnemies(),
+          paths: getStagePaths(),
+          scripts: getStageScripts(),
+        });
+        this.startRun(snapshot.options, snapshot.stepHz, snapshot);
+        return true;
+      },
+      false
     );
-
-    for (const bullet of clearedBullets) {
-      bullet.setActive(false);
+    if (!continued) {
+      // Live entities the new content can't describe (e.g. a removed enemy type)
+      this.rewindTo(rewindPoint(this.stageWaves, this.sim.waveTimeMs));
+      return;
     }
+    this.scene.resume();
+  }
+
+  /**
+   * Waves this run plays: the editor's when it started the run, else the stage's
+   */
+  private get stageWaves(): Wave[] {
+    return this.wavesOverride ?? getStageWaves();
   }
-  
-  private useShield(): void {
-    if (this.player.activateShield()) {
-      this.gameState.shields = this.player.shields;
-      audioSystem.playChime(); // Play a different sound or reuse chime
+
+  /**
+   * Restart the run with the reloaded content at wave time `ms` (called from ContentOverlayScene)
+   */
+  rewindTo(ms: number): void {
+    sceneLogger.log('GameScene', 'REWIND', { startAtMs: ms });
+    this.scene.stop(CONTENT_OVERLAY_SCENE);
+    this.isTransitioning = true;
+    if (this.gameplayMusic) {
+      this.gameplayMusic.stop();
+      this.gameplayMusic.destroy();
+      this.gameplayMusic = undefined;
     }
+    musicSystem.stop();
+    this.scene.stop('HUDScene');
+    this.destroyEntitySprites();
+    const data: GameSceneData = {
+      seed: this.sim.options.seed,
+      difficulty: this.sim.options.difficulty,
+      waves: this.wavesOverride,
+      startAtMs: ms,
+      bossesDefeated: this.sim.bossesDefeated,
+    };
+    this.scene.restart(data);
   }
 
-  private pause(): void {
+  protected pause(): void {
     this.gameState.paused = true;
     this.scene.pause();
     this.scene.launch('PauseScene');
   }
 
   private updateHUD(): void {
-    this.gameState.lives = this.player.lives;
-    this.gameState.weaponTier = this.player.weaponTier;
-    this.gameState.bombs = this.player.bombs;
-    this.gameState.shields = this.player.shields;
-
-    if (this.hudScene && 'updateHUD' in this.hudScene) {
-      (this.hudScene as { updateHUD: (state: GameState) => void }).updateHUD(this.gameState);
-    }
+    this.hudScene?.updateHUD(this.gameState);
   }
 
-  private gameOver(): void {
+  protected gameOver(): void {
     // Prevent multiple calls
     if (this.gameOverTriggered || this.isTransitioning) {
       sceneLogger.log('GameScene', 'GAMEOVER_BLOCKED', { 
@@ -1198,6 +852,7 @@ export class GameScene extends Phaser.Scene {
     sceneLogger.logTransition('GameScene', 'DeathScene');
     this.gameOverTriggered = true;
     this.isTransitioning = true;
+    this.saveReplay();
     
     try {
       // Stop gameplay music if playing
@@ -1220,7 +875,7 @@ export class GameScene extends Phaser.Scene {
       this.tweens.killAll();
       sceneLogger.log('GameScene', 'ALL_TWEENS_STOPPED');
       
-      this.scene.start('DeathScene');
+      this.scene.start('DeathScene', { summary: this.runSummary() });
       sceneLogger.log('GameScene', 'DEATHSCENE_STARTED');
       
       // Check scene states after transition
@@ -1242,15 +897,45 @@ export class GameScene extends Phaser.Scene {
     }
   }
 
+  /**
+   * Destroy every entity sprite (the simulation state is owned separately)
+   */
+  private destroyEntitySprites(): void {
+    for (const sprite of this.bullets.values()) {
+      sprite.destroy();
+    }
+    this.bullets.clear();
+    
+    for (const sprite of this.enemies.values()) {
+      sprite.destroy();
+    }
+    this.enemies.clear();
+    
+    for (const sprite of this.powerUps.values()) {
+      sprite.destroy();
+    }
+    this.powerUps.clear();
+    
+    for (const sprite of this.scoreItems.values()) {
+      sprite.destroy();
+    }
+    this.scoreItems.clear();
+    
+    if (this.boss) {
+      this.boss.destroy();
+      this.boss = null;
+    }
+  }
+
   shutdown(): void {
     sceneLogger.log('GameScene', 'SHUTDOWN', {
       isTransitioning: this.isTransitioning,
       gameOverTriggered: this.gameOverTriggered,
       sceneState: this.scene.isActive() ? 'ACTIVE' : 'INACTIVE',
       playerExists: !!this.player,
-      bulletsCount: this.bullets.length,
-      enemiesCount: this.enemies.length,
-      powerUpsCount: this.powerUps.length,
+      bulletsCount: this.bullets.size,
+      enemiesCount: this.enemies.size,
+      powerUpsCount: this.powerUps.size,
       bossExists: !!this.boss,
     });
     
@@ -1275,34 +960,7 @@ export class GameScene extends Phaser.Scene {
       this.player = undefined!;
     }
     
-    for (let i = this.bullets.length - 1; i >= 0; i--) {
-      const bullet = this.bullets[i];
-      if (bullet && bullet.active) {
-        bullet.destroy();
-      }
-    }
-    this.bullets = [];
-    
-    for (let i = this.enemies.length - 1; i >= 0; i--) {
-      const enemy = this.enemies[i];
-      if (enemy && enemy.active) {
-        enemy.destroy();
-      }
-    }
-    this.enemies = [];
-    
-    for (let i = this.powerUps.length - 1; i >= 0; i--) {
-      const powerUp = this.powerUps[i];
-      if (powerUp && powerUp.active) {
-        powerUp.destroy();
-      }
-    }
-    this.powerUps = [];
-    
-    if (this.boss) {
-      this.boss.destroy();
-      this.boss = null;
-    }
+    this.destroyEntitySprites();
     
     // Clean up systems
     if (this.effects) {
@@ -1326,15 +984,8 @@ export class GameScene extends Phaser.Scene {
       // DepthOfFieldSystem cleanup if needed
     }
     
-    // Clear all arrays
-    this.bullets = [];
-    this.enemies = [];
-    this.powerUps = [];
-    
     // Clear system references
     this.inputSystem = undefined!;
-    this.spawnerSystem = undefined!;
-    this.collisionSystem = undefined!;
     this.parallaxSystem = undefined!;
     this.shadowSystem = undefined!;
     this.depthOfFieldSystem = undefined!;
@@ -1346,4 +997,3 @@ export class GameScene extends Phaser.Scene {
     this.gameOverTriggered = false;
   }
 }
-
@@ -1,10 +1,11 @@
 /**
- * HUDScene - Overlay UI for score, lives, weapon tier, bombs, timer
+ * HUDScene - Overlay UI for score, lives, weapon, bombs, shields, graze, kill chain, timer
  */
 
 import Phaser from 'phaser';
-// GAME_CONFIG available if needed in future
-// import { GAME_CONFIG } from '../config/constants';
+import { GAME_CONFIG } from '../config/constants';
+import { getMaxWeaponLevel } from '../systems/Balancer';
+import type { PowerUpChange } from '../systems/PowerUps';
 import type { GameState } from '../types';
 
 export class HUDScene extends Phaser.Scene {
@@ -13,7 +14,10 @@ export class HUDScene extends Phaser.Scene {
   private weaponText?: Phaser.GameObjects.Text;
   private bombsText?: Phaser.GameObjects.Text;
   private shieldsText?: Phaser.GameObjects.Text;
+  private grazeText?: Phaser.GameObjects.Text;
+  private grazeMeter?: Phaser.GameObjects.Graphics;
   private timerText?: Phaser.GameObjects.Text;
+  private chainText?: Phaser.GameObjects.Text;
   private gameState?: GameState;
 
   constructor() {
@@ -41,7 +45,7 @@ export class HUDScene extends Phaser.Scene {
 
     // Weapon tier
     this.weaponText = this.add
-      .text(padding, padding + 60, 'WEAPON: I', style)
+      .text(padding, padding + 60, 'WEAPON: SPREAD I', style)
       .setColor('#ffff00')
       .setDepth(1000);
 
@@ -57,6 +61,13 @@ export class HUDScene extends Phaser.Scene {
       .setColor('#4488ff')
       .setDepth(1000);
 
+    // Graze count and meter (a full meter refills a shield)
+    this.grazeText = this.add
+      .text(padding, padding + 150, 'GRAZE: 0', style)
+      .setColor('#ffffaa')
+      .setDepth(1000);
+    this.grazeMeter = this.add.graphics().setDepth(1000);
+
     // Timer
     const { width } = this.cameras.main;
     this.timerText = this.add
@@ -64,6 +75,13 @@ export class HUDScene extends Phaser.Scene {
       .setOrigin(1, 0)
       .setColor('#ffffff')
       .setDepth(1000);
+
+    // Kill chain (empty while there is none)
+    this.chainText = this.add
+      .text(width - padding, padding + 30, '', style)
+      .setOrigin(1, 0)
+      .setColor('#ffaa00')
+      .setDepth(1000);
   }
 
   /**
@@ -85,15 +103,18 @@ export class HUDScene extends Phaser.Scene {
     }
 
     if (this.weaponText) {
-      const maxTier = 6; // Maximum weapon tier
-      if (this.gameState.weaponTier >= maxTier) {
-        this.weaponText.setText('WEAPON: MAX LEVEL');
+      const { weapon, weaponTier } = this.gameState;
+      const family = weapon.toUpperCase();
+      if (weaponTier >= getMaxWeaponLevel(weapon)) {
+        this.weaponText.setText(`WEAPON: ${family} MAX`);
       } else {
-        const tier = this.gameState.weaponTier + 1; // Convert to 1-based for display
+        const tier = weaponTier + 1; // Convert to 1-based for display
         const romanNumerals = ['I', 'II', 'III', 'IV', 'V', 'VI'];
         const roman = romanNumerals[tier - 1] || 'I';
-        this.weaponText.setText(`WEAPON: ${roman}`);
+        this.weaponText.setText(`WEAPON: ${family} ${roman}`);
       }
+      const color = GAME_CONFIG.weaponColors[weapon];
+      this.weaponText.setColor(`#${color.toString(16).padStart(6, '0')}`);
     }
 
     if (this.bombsText) {
@@ -104,11 +125,102 @@ export class HUDScene extends Phaser.Scene {
       this.shieldsText.setText(`SHIELDS: ${this.gameState.shields ?? 0}`);
     }
 
+    if (this.grazeText && this.grazeMeter) {
+      this.grazeText.setText(`GRAZE: ${this.gameState.graze}`);
+      const x = this.grazeText.x + this.grazeText.width + 10;
+      const y = this.grazeText.y + 4;
+      this.grazeMeter.clear();
+      this.grazeMeter.fillStyle(0x333333);
+      this.grazeMeter.fillRect(x, y, 100, 10);
+      this.grazeMeter.fillStyle(0xffffaa);
+      this.grazeMeter.fillRect(x, y, 100 * this.gameState.grazeMeter, 10);
+    }
+
+    if (this.chainText && this.gameState.chain > 0) {
+      const { chain, chainMultiplier } = this.gameState;
+      this.tweens.killTweensOf(this.chainText);
+      this.chainText.setAlpha(1).setColor('#ffaa00');
+      this.chainText.setText(`CHAIN ${chain}  x${chainMultiplier.toFixed(1)}`);
+    }
+
     if (this.timerText) {
       const minutes = Math.floor(this.gameState.stageTime / 60);
       const seconds = Math.floor(this.gameState.stageTime % 60);
       this.timerText.setText(`${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`);
     }
   }
-}
 
+  /**
+   * Show the chain that just broke, fading out
+   */
+  chainBroken(chain: number): void {
+    const text = this.chainText;
+    if (!text) {
+      return;
+    }
+    this.tweens.killTweensOf(text);
+    text.setAlpha(1).setColor('#ff4444').setText(`CHAIN ${chain} BROKEN`);
+    this.tweens.add({ targets: text, alpha: 0, delay: 600, duration: 600 });
+  }
+
+  /**
+   * Flash an EXTEND banner across the middle of the screen for an extra life earned from score,
+   * or the score `bonus` paid instead when lives were already full
+   */
+  extend(bonus?: number): void {
+    const { width, height } = this.cameras.main;
+    const label = bonus ? `FULL LIVES +${bonus.toLocaleString()}` : 'EXTEND!';
+    const banner = this.add
+      .text(width / 2, height / 3, label, {
+        fontSize: '48px',
+        fontFamily: 'monospace',
+      })
+      .setOrigin(0.5)
+      .setColor('#00ffff')
+      .setStroke('#004466', 6)
+      .setDepth(1001)
+      .setScale(0.5);
+    this.tweens.add({ targets: banner, scale: 1, duration: 200, ease: 'Back.easeOut' });
+    this.tweens.add({
+      targets: banner,
+      alpha: 0,
+      delay: 1200,
+      duration: 400,
+      onComplete: () => banner.destroy(),
+    });
+  }
+
+  /**
+   * Pulse the changed value (green going up, red going down)
+   */
+  powerUpChanged(change: PowerUpChange): void {
+    const texts: Record<PowerUpChange['stat'], Phaser.GameObjects.Text | undefined> = {
+      weapon: this.weaponText,
+      weaponTier: this.weaponText,
+      bombs: this.bombsText,
+      shields: this.shieldsText,
+      lives: this.livesText,
+    };
+    const text = texts[change.stat];
+    if (!text) {
+      return;
+    }
+    this.tweens.killTweensOf(text);
+    text.setScale(1);
+    // A new weapon family flashes in its own color
+    const tint =
+      change.stat === 'weapon'
+        ? GAME_CONFIG.weaponColors[change.value]
+        : change.value > change.previous
+          ? 0x88ff88
+          : 0xff4444;
+    text.setTint(tint);
+    this.tweens.add({
+      targets: text,
+      scale: 1.25,
+      duration: 120,
+      yoyo: true,
+      onComplete: () => text.clearTint(),
+    });
+  }
+}
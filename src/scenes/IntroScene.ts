@@ -7,6 +7,7 @@ import { GAME_CONFIG } from '../config/constants';
 import { musicSystem, MusicTheme } from '../systems/MusicSystem';
 import { sceneLogger } from '../utils/SceneLogger';
 import { KennyEasterEgg } from '../utils/KennyEasterEgg';
+import type { DifficultyName } from '../systems/Difficulty';
 
 interface TextLine {
   text: Phaser.GameObjects.Text;
@@ -16,6 +17,7 @@ interface TextLine {
 
 export class IntroScene extends Phaser.Scene {
   private seed: number = GAME_CONFIG.defaultSeed;
+  private difficulty?: DifficultyName;
   private scrollSpeed: number = 50; // pixels per second
   private textLines: TextLine[] = [];
   private textFinished: boolean = false;
@@ -31,8 +33,9 @@ export class IntroScene extends Phaser.Scene {
     super({ key: 'IntroScene' });
   }
 
-  init(data: { seed?: number }): void {
+  init(data: { seed?: number; difficulty?: DifficultyName }): void {
     this.seed = data?.seed ?? GAME_CONFIG.defaultSeed;
+    this.difficulty = data?.difficulty;
   }
 
   preload(): void {
@@ -387,7 +390,7 @@ export class IntroScene extends Phaser.Scene {
       this.tweens.killAll();
       sceneLogger.log('IntroScene', 'ALL_TWEENS_STOPPED');
       
-      this.scene.start('GameScene', { seed: seedToUse });
+      this.scene.start('GameScene', { seed: seedToUse, difficulty: this.difficulty });
       sceneLogger.log('IntroScene', 'GAMESCENE_STARTED');
       
       // Check scene states after transition
@@ -13,6 +13,16 @@ import { KennyEasterEgg } from '../utils/KennyEasterEgg';
 import { validateSeed } from '../utils/inputValidation';
 import { logger } from '../utils/logger';
 import { ErrorHandler } from '../utils/errorHandler';
+import { loadLastReplay, downloadReplay, pickReplayFile } from '../data/ReplayStorage';
+import { readSaveSlot } from '../data/SaveSlot';
+import { getHighScore } from '../data/HighScores';
+import {
+  DEFAULT_DIFFICULTY,
+  DIFFICULTY_NAMES,
+  difficultyPreset,
+  type DifficultyName,
+} from '../systems/Difficulty';
+import type { Replay } from '../sim/Replay';
 
 // Global god mode state (accessible from GameScene)
 let globalGodMode: boolean = false;
@@ -27,6 +37,17 @@ export function setGodMode(enabled: boolean): void {
   (GAME_CONFIG as any).godMode = enabled;
 }
 
+// Difficulty picked on the title screen (kept when returning to the menu)
+let globalDifficulty: DifficultyName = DEFAULT_DIFFICULTY;
+
+export function getDifficulty(): DifficultyName {
+  return globalDifficulty;
+}
+
+export function setDifficulty(difficulty: DifficultyName): void {
+  globalDifficulty = difficulty;
+}
+
 export class MenuScene extends Phaser.Scene {
   private seed: number = GAME_CONFIG.defaultSeed;
   // RNG available if needed for future menu randomization
@@ -104,6 +125,8 @@ export class MenuScene extends Phaser.Scene {
   private testButton?: Phaser.GameObjects.Text;
   private deathButton?: Phaser.GameObjects.Text;
   private godModeButton?: Phaser.GameObjects.Text;
+  private difficultyText?: Phaser.GameObjects.Text;
+  private toolButtons: Phaser.GameObjects.Text[] = [];
   private storyButton?: Phaser.GameObjects.Text;
   private storyGlowTexts: Phaser.GameObjects.Text[] = [];
   private menuMusic?: Phaser.Sound.BaseSound;
@@ -263,6 +286,7 @@ export class MenuScene extends Phaser.Scene {
       // We'll recreate all UI elements, so we don't need to sync old objects
       // Clear references to prevent using invalid objects
       this.godModeButton = undefined;
+      this.difficultyText = undefined;
       
       // Ensure HUD scene is stopped when menu is shown
       if (this.scene.isActive('HUDScene')) {
@@ -507,7 +531,37 @@ export class MenuScene extends Phaser.Scene {
         })
         .setOrigin(0.5)
         .setDepth(100);
+
+      // Offer to resume a suspended run
+      const savedRun = readSaveSlot();
+      if (savedRun) {
+        this.add
+          .text(width / 2, height / 2 + 85, `Press C to Continue (${savedRun.state.stageTime.toFixed(0)}s, ${savedRun.state.score} pts)`, {
+            fontSize: '18px',
+            color: '#00ff88',
+            fontFamily: 'monospace',
+            stroke: '#000000',
+            strokeThickness: 3,
+          })
+          .setOrigin(0.5)
+          .setDepth(100);
+      }
       
+      // Difficulty selector - click or LEFT/RIGHT to change
+      this.difficultyText = this.add
+        .text(width / 2, height / 2 + 112, '', {
+          fontSize: '16px',
+          color: '#ffff00',
+          fontFamily: 'monospace',
+          stroke: '#000000',
+          strokeThickness: 3,
+        })
+        .setOrigin(0.5)
+        .setDepth(100)
+        .setInteractive({ useHandCursor: true });
+      this.difficultyText.on('pointerdown', () => this.changeDifficulty(1));
+      this.updateDifficultyText();
+
       // Story button - below the "Press ENTER to Start" text, styled like title
       try {
         this.storyButton = this.add
@@ -865,6 +919,37 @@ export class MenuScene extends Phaser.Scene {
           .on('pointerout', () => {
             this.godModeButton!.setColor('#ffaa00');
           });
+
+        // Replay and content tools (hidden by default)
+        const toolActions: { label: string; action: () => void }[] = [
+          { label: '[REPLAY: WATCH LAST]', action: () => this.watchReplay(loadLastReplay()) },
+          { label: '[REPLAY: EXPORT LAST]', action: () => this.exportLastReplay() },
+          { label: '[REPLAY: LOAD FILE]', action: () => this.loadReplayFile() },
+          { label: '[STAGE EDITOR]', action: () => this.openTool('EditorScene') },
+          { label: '[PATTERN SANDBOX]', action: () => this.openTool('PatternSandboxScene') },
+        ];
+        this.toolButtons = toolActions.map(({ label, action }, index) => {
+          const button = this.add
+            .text(dropdownX, dropdownY + 150 + index * 30, label, {
+              fontSize: '14px',
+              color: '#ffaa00',
+              fontFamily: 'monospace',
+              backgroundColor: '#333333',
+              padding: { x: 10, y: 5 },
+            })
+            .setOrigin(1, 0) // Right-aligned, top-aligned
+            .setInteractive({ useHandCursor: true })
+            .setVisible(false);
+          button
+            .on('pointerdown', action)
+            .on('pointerover', () => {
+              button.setColor('#ffff00');
+            })
+            .on('pointerout', () => {
+              button.setColor('#ffaa00');
+            });
+          return button;
+        });
       });
 
       // Setup keyboard handlers after a short delay to ensure scene is fully active
@@ -962,6 +1047,16 @@ export class MenuScene extends Phaser.Scene {
         this.startGame();
       });
 
+      // Continue a saved run with C key
+      const cKey = this.input.keyboard.addKey(Phaser.Input.Keyboard.KeyCodes.C);
+      cKey.on('down', () => {
+        this.continueRun();
+      });
+
+      // Change difficulty with LEFT/RIGHT
+      this.input.keyboard.on('keydown-LEFT', () => this.changeDifficulty(-1));
+      this.input.keyboard.on('keydown-RIGHT', () => this.changeDifficulty(1));
+
       const rKey = this.input.keyboard.addKey(Phaser.Input.Keyboard.KeyCodes.R);
       rKey.on('down', () => {
         this.reseed();
@@ -1033,6 +1128,8 @@ export class MenuScene extends Phaser.Scene {
           });
           event.preventDefault();
           this.startGame();
+        } else if (event.key === 'c' || event.key === 'C') {
+          this.continueRun();
         } else if (event.key === 'r' || event.key === 'R') {
           this.reseed();
         } else if (event.key === 't' || event.key === 'T') {
@@ -1881,7 +1978,7 @@ export class MenuScene extends Phaser.Scene {
       });
       
       // CRITICAL: Start the game scene - this must happen
-      this.scene.start('GameScene', { seed: this.seed });
+      this.scene.start('GameScene', { seed: this.seed, difficulty: getDifficulty() });
       sceneLogger.log('MenuScene', 'GAMESCENE_START_CALLED', { seed: this.seed });
       
       // Verify GameScene started after a short delay
@@ -1924,7 +2021,7 @@ export class MenuScene extends Phaser.Scene {
           // This ensures the game can still start even if cleanup fails
           ErrorHandler.executeSync('MenuScene.startGame.recovery', () => {
             sceneLogger.log('MenuScene', 'ATTEMPTING_RECOVERY_START', 'Trying to start GameScene despite error');
-            this.scene.start('GameScene', { seed: this.seed });
+            this.scene.start('GameScene', { seed: this.seed, difficulty: getDifficulty() });
             sceneLogger.log('MenuScene', 'RECOVERY_START_SUCCESS', 'GameScene started despite error');
           }, undefined);
           
@@ -1964,7 +2061,7 @@ export class MenuScene extends Phaser.Scene {
       sceneLogger.log('MenuScene', 'ALL_TWEENS_STOPPED');
       
       // Pass seed to intro scene (which will show the story)
-      this.scene.start('IntroScene', { seed: this.seed });
+      this.scene.start('IntroScene', { seed: this.seed, difficulty: getDifficulty() });
       sceneLogger.log('MenuScene', 'INTROSCENE_STARTED');
       
       // Check scene states after transition
@@ -2018,6 +2115,7 @@ export class MenuScene extends Phaser.Scene {
         if (this.godModeButton) {
           this.godModeButton.setVisible(false);
         }
+        this.toolButtons.forEach((button) => button.setVisible(false));
         this.debugDropdownButton.setText('[Debugging Tools ▼]');
       }
       
@@ -2041,6 +2139,7 @@ export class MenuScene extends Phaser.Scene {
     if (this.godModeButton) {
       this.godModeButton.setVisible(this.debugDropdownOpen);
     }
+    this.toolButtons.forEach((button) => button.setVisible(this.debugDropdownOpen));
     
     // Update arrow indicator
     if (this.debugDropdownButton) {
@@ -2080,6 +2179,52 @@ export class MenuScene extends Phaser.Scene {
     sceneLogger.log('MenuScene', 'GOD_MODE_TOGGLED', { enabled: this.godModeEnabled });
   }
 
+  private changeDifficulty(step: number): void {
+    if (this.isTransitioning) {
+      return;
+    }
+    const index = DIFFICULTY_NAMES.indexOf(getDifficulty());
+    const count = DIFFICULTY_NAMES.length;
+    setDifficulty(DIFFICULTY_NAMES[(index + step + count) % count]!);
+    this.updateDifficultyText();
+    sceneLogger.log('MenuScene', 'DIFFICULTY_CHANGED', { difficulty: getDifficulty() });
+  }
+
+  private updateDifficultyText(): void {
+    const difficulty = getDifficulty();
+    const highScore = String(getHighScore(difficulty)).padStart(7, '0');
+    this.difficultyText?.setText(
+      `< ${difficultyPreset(difficulty).label} >   HI ${highScore}`
+    );
+  }
+
+  private continueRun(): void {
+    if (this.isTransitioning) {
+      sceneLogger.log('MenuScene', 'CONTINUE_RUN_BLOCKED', { isTransitioning: this.isTransitioning });
+      return;
+    }
+    const snapshot = readSaveSlot();
+    if (!snapshot) {
+      return;
+    }
+
+    sceneLogger.logTransition('MenuScene', 'GameScene', { resume: true, stageTime: snapshot.state.stageTime });
+    this.isTransitioning = true;
+
+    try {
+      if (this.menuMusic) {
+        this.menuMusic.stop();
+        this.menuMusic.destroy();
+      }
+      musicSystem.stop();
+      this.tweens.killAll();
+      this.scene.start('GameScene', { snapshot });
+    } catch (error) {
+      sceneLogger.logError('MenuScene', 'CONTINUE_RUN_ERROR', error);
+      this.isTransitioning = false;
+    }
+  }
+
   private startGameAfterFirstBoss(): void {
     if (this.isTransitioning) {
       sceneLogger.log('MenuScene', 'START_GAME_AFTER_FIRST_BOSS_BLOCKED', { isTransitioning: this.isTransitioning });
@@ -2103,7 +2248,11 @@ export class MenuScene extends Phaser.Scene {
       sceneLogger.log('MenuScene', 'ALL_TWEENS_STOPPED');
       
       // Skip intro and go directly to game with afterFirstBoss flag
-      this.scene.start('GameScene', { seed: this.seed, afterFirstBoss: true });
+      this.scene.start('GameScene', {
+        seed: this.seed,
+        difficulty: getDifficulty(),
+        afterFirstBoss: true,
+      });
       sceneLogger.log('MenuScene', 'GAMESCENE_STARTED_AFTER_FIRST_BOSS');
       
       // Check scene states after transition
@@ -2118,6 +2267,72 @@ export class MenuScene extends Phaser.Scene {
     }
   }
 
+  private watchReplay(replay: Replay | null): void {
+    if (this.isTransitioning) {
+      sceneLogger.log('MenuScene', 'WATCH_REPLAY_BLOCKED', { isTransitioning: this.isTransitioning });
+      return;
+    }
+    if (!replay) {
+      logger.warn('No valid replay to watch');
+      return;
+    }
+
+    sceneLogger.logTransition('MenuScene', 'ReplayScene', { seed: replay.seed, frames: replay.frames.length });
+    this.isTransitioning = true;
+
+    try {
+      if (this.menuMusic) {
+        this.menuMusic.stop();
+        this.menuMusic.destroy();
+      }
+      musicSystem.stop();
+      this.tweens.killAll();
+      this.scene.start('ReplayScene', { replay });
+    } catch (error) {
+      sceneLogger.logError('MenuScene', 'WATCH_REPLAY_ERROR', error);
+      this.isTransitioning = false;
+    }
+  }
+
+  /**
+   * Leave the menu for a content tool scene (stage editor, pattern sandbox)
+   */
+  private openTool(sceneKey: string): void {
+    if (this.isTransitioning) {
+      sceneLogger.log('MenuScene', 'OPEN_TOOL_BLOCKED', { isTransitioning: this.isTransitioning });
+      return;
+    }
+
+    sceneLogger.logTransition('MenuScene', sceneKey, { seed: this.seed });
+    this.isTransitioning = true;
+
+    try {
+      if (this.menuMusic) {
+        this.menuMusic.stop();
+        this.menuMusic.destroy();
+      }
+      musicSystem.stop();
+      this.tweens.killAll();
+      this.scene.start(sceneKey, { seed: this.seed });
+    } catch (error) {
+      sceneLogger.logError('MenuScene', 'OPEN_TOOL_ERROR', error);
+      this.isTransitioning = false;
+    }
+  }
+
+  private exportLastReplay(): void {
+    const replay = loadLastReplay();
+    if (!replay) {
+      logger.warn('No valid replay to export');
+      return;
+    }
+    downloadReplay(replay);
+  }
+
+  private loadReplayFile(): void {
+    pickReplayFile().then((replay) => this.watchReplay(replay));
+  }
+
   private testWin(): void {
     if (this.isTransitioning) {
       sceneLogger.log('MenuScene', 'TEST_WIN_BLOCKED', { isTransitioning: this.isTransitioning });
@@ -0,0 +1,243 @@
+/**
+ * PatternSandboxScene - Bullet pattern preview (Debugging Tools > PATTERN SANDBOX)
+ *
+ * Fires the stage's named patterns and the bundled BulletML scripts (or a file
+ * picked from disk) at a dummy player through PatternSandbox, so patterns can
+ * be tuned without playing up to the enemy or boss that uses them.
+ */
+
+import Phaser from 'phaser';
+import JSON5 from 'json5';
+import { GAME_CONFIG } from '../config/constants';
+import { PatternSandbox, type SandboxSource } from '../sim/PatternSandbox';
+import { HITBOXES } from '../sim/Hitboxes';
+import { parseBulletML } from '../systems/BulletML';
+import { BulletPattern, PatternLibrarySchema, buildPatternLibrary } from '../systems/PatternML';
+import { getStageBosses, getStageEnemies, getStagePatterns, getStageWaves } from '../data/Waves';
+import { ErrorHandler } from '../utils/errorHandler';
+import { sceneLogger } from '../utils/SceneLogger';
+
+// Bundled BulletML scripts, loaded on demand
+const BULLETML_SCRIPTS = import.meta.glob<string>('/assets/patterns/bulletml/*.xml', {
+  query: '?raw',
+  import: 'default',
+});
+
+const TIME_SCALES = [1, 0.5, 0.25, 0.1];
+const PLAYER_SPEED = 300; // px per second
+
+const TEXT_STYLE = { fontSize: '14px', color: '#cccccc', fontFamily: 'monospace' };
+
+export class PatternSandboxScene extends Phaser.Scene {
+  private sandbox!: PatternSandbox;
+  private sources: SandboxSource[] = [];
+  private index: number = 0;
+  private graphics!: Phaser.GameObjects.Graphics;
+  private info!: Phaser.GameObjects.Text;
+  private status!: Phaser.GameObjects.Text;
+  private cursors?: Phaser.Types.Input.Keyboard.CursorKeys;
+  private wasd?: Record<'up' | 'down' | 'left' | 'right', Phaser.Input.Keyboard.Key>;
+  private leaving: boolean = false;
+
+  constructor() {
+    super({ key: 'PatternSandboxScene' });
+  }
+
+  create(): void {
+    sceneLogger.log('PatternSandboxScene', 'CREATE');
+    this.leaving = false;
+    this.cameras.main.setBackgroundColor('#05050a');
+    this.sandbox = new PatternSandbox();
+
+    // Named patterns (including inline ones from waves, bosses and enemies) for references and onDeath
+    const library = buildPatternLibrary(
+      getStagePatterns(),
+      getStageWaves(),
+      getStageBosses(),
+      getStageEnemies()
+    );
+    this.sandbox.runner.patterns = library;
+    this.sources = [...library.values()].map((pattern) => ({
+      kind: 'pattern',
+      name: pattern.name,
+      pattern,
+    }));
+    this.index = 0;
+    this.loadBundledScripts();
+
+    this.graphics = this.add.graphics();
+    this.info = this.add.text(16, 16, '', TEXT_STYLE).setDepth(10);
+    this.status = this.add
+      .text(GAME_CONFIG.width - 16, 16, '', { ...TEXT_STYLE, color: '#88ff88' })
+      .setOrigin(1, 0)
+      .setDepth(10);
+    this.add
+      .text(
+        16,
+        GAME_CONFIG.height - 24,
+        'Q/E pattern | drag: move emitter | WASD/arrows: move player | SPACE pause | N step | 1-4 speed | +/- rank | R restart | L load file | ESC back',
+        { ...TEXT_STYLE, fontSize: '12px', color: '#666666' }
+      )
+      .setDepth(10);
+
+    this.input.on('pointermove', (pointer: Phaser.Input.Pointer) => {
+      if (pointer.isDown) this.moveEmitter(pointer);
+    });
+    this.input.on('pointerdown', (pointer: Phaser.Input.Pointer) => this.moveEmitter(pointer));
+
+    const keyboard = this.input.keyboard;
+    if (keyboard) {
+      this.cursors = keyboard.createCursorKeys();
+      this.wasd = {
+        up: keyboard.addKey('W'),
+        down: keyboard.addKey('S'),
+        left: keyboard.addKey('A'),
+        right: keyboard.addKey('D'),
+      };
+      keyboard.on('keydown-Q', () => this.select(-1));
+      keyboard.on('keydown-E', () => this.select(1));
+      keyboard.on('keydown-SPACE', () => (this.sandbox.paused = !this.sandbox.paused));
+      keyboard.on('keydown-N', () => {
+        this.sandbox.paused = true;
+        this.sandbox.stepFrame();
+      });
+      TIME_SCALES.forEach((scale, i) => {
+        keyboard.on(`keydown-${['ONE', 'TWO', 'THREE', 'FOUR'][i]}`, () => {
+          this.sandbox.timeScale = scale;
+        });
+      });
+      keyboard.on('keydown-PLUS', () => this.changeRank(0.1));
+      keyboard.on('keydown-MINUS', () => this.changeRank(-0.1));
+      keyboard.on('keydown-R', () => this.sandbox.restart());
+      keyboard.on('keydown-L', () => this.loadFile());
+      keyboard.on('keydown-ESC', () => this.exitToMenu());
+    }
+
+    this.select(0);
+  }
+
+  update(_time: number, delta: number): void {
+    this.movePlayer(delta);
+    this.sandbox.update(delta);
+    this.draw();
+  }
+
+  private loadBundledScripts(): void {
+    for (const [path, load] of Object.entries(BULLETML_SCRIPTS)) {
+      const name = path.split('/').pop()!;
+      load()
+        .then((xml) => this.sources.push({ kind: 'bulletml', name, doc: parseBulletML(xml) }))
+        .catch((error) =>
+          ErrorHandler.handleError('PatternSandboxScene.loadBundledScripts', error)
+        );
+    }
+  }
+
+  /**
+   * Show the next (or previous) pattern, or reload the current one with step 0
+   */
+  private select(step: number): void {
+    if (this.sources.length === 0) {
+      this.status.setText('No patterns loaded').setColor('#ff6666');
+      return;
+    }
+    this.index = (this.index + step + this.sources.length) % this.sources.length;
+    this.sandbox.load(this.sources[this.index]!);
+    this.status.setText('');
+  }
+
+  private changeRank(amount: number): void {
+    const runner = this.sandbox.runner;
+    runner.rank = Math.round(Phaser.Math.Clamp(runner.rank + amount, 0, 1) * 10) / 10;
+  }
+
+  private moveEmitter(pointer: Phaser.Input.Pointer): void {
+    this.sandbox.emitter.x = pointer.x;
+    this.sandbox.emitter.y = pointer.y;
+  }
+
+  private movePlayer(delta: number): void {
+    const held = (direction: 'up' | 'down' | 'left' | 'right'): boolean =>
+      Boolean(this.cursors?.[direction].isDown || this.wasd?.[direction].isDown);
+    const distance = (PLAYER_SPEED * delta) / 1000;
+    const target = this.sandbox.target;
+    target.x += (Number(held('right')) - Number(held('left'))) * distance;
+    target.y += (Number(held('down')) - Number(held('up'))) * distance;
+    target.x = Phaser.Math.Clamp(target.x, 0, GAME_CONFIG.width);
+    target.y = Phaser.Math.Clamp(target.y, 0, GAME_CONFIG.height);
+  }
+
+  /**
+   * Pick a BulletML (.xml) or pattern (.json5: one pattern or a list) file to preview
+   */
+  private loadFile(): void {
+    const input = document.createElement('input');
+    input.type = 'file';
+    input.accept = '.xml,.json5,.json';
+    input.addEventListener('change', async () => {
+      const file = input.files?.[0];
+      if (!file) return;
+      const added = await ErrorHandler.execute(
+        'PatternSandboxScene.loadFile',
+        async () => this.parseFile(file.name, await file.text()),
+        []
+      );
+      if (!added?.length) {
+        this.status.setText(`Could not load ${file.name}`).setColor('#ff6666');
+        return;
+      }
+      for (const source of added) {
+        if (source.kind === 'pattern')
+          this.sandbox.runner.patterns.set(source.name, source.pattern);
+      }
+      this.sources.push(...added);
+      this.index = this.sources.length - added.length;
+      this.select(0);
+      this.status.setText(`Loaded ${file.name}`).setColor('#88ff88');
+    });
+    input.click();
+  }
+
+  private parseFile(name: string, text: string): SandboxSource[] {
+    if (name.endsWith('.xml')) {
+      return [{ kind: 'bulletml', name, doc: parseBulletML(text) }];
+    }
+    const json: unknown = JSON5.parse(text);
+    const patterns = Array.isArray(json)
+      ? PatternLibrarySchema.parse(json)
+      : [BulletPattern.parse(json)];
+    return patterns.map((pattern) => ({ kind: 'pattern', name: pattern.name, pattern }));
+  }
+
+  private draw(): void {
+    const g = this.graphics;
+    const { emitter, target, runner, stats } = this.sandbox;
+    g.clear();
+
+    g.fillStyle(0xff8844);
+    for (const bullet of runner.bullets) {
+      g.fillCircle(bullet.x, bullet.y, 3);
+    }
+
+    const { width, height } = HITBOXES.player;
+    g.lineStyle(1, 0x00ffff).strokeRect(target.x - width / 2, target.y - height / 2, width, height);
+    g.fillStyle(0x00ffff).fillCircle(target.x, target.y, 6);
+    g.fillStyle(0xff00ff).fillCircle(emitter.x, emitter.y, 8);
+
+    const source = this.sandbox.current;
+    const speed = this.sandbox.paused ? 'PAUSED' : `x${this.sandbox.timeScale}`;
+    this.info.setText([
+      `${source ? `${source.name} (${source.kind})` : '-'}  [${this.index + 1}/${this.sources.length}]`,
+      `${speed}  rank ${runner.rank.toFixed(1)}  t ${(stats.timeMs / 1000).toFixed(2)}s`,
+      `bullets ${stats.bullets}  peak ${stats.peakBullets}  scripts ${stats.scripts}`,
+      `runs ${stats.runs}  volleys ${stats.volleys}  hits ${stats.hits}`,
+    ]);
+  }
+
+  private exitToMenu(): void {
+    if (this.leaving) return;
+    this.leaving = true;
+    sceneLogger.logTransition('PatternSandboxScene', 'MenuScene');
+    this.scene.start('MenuScene');
+  }
+}
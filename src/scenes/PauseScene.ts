@@ -4,6 +4,7 @@
 
 import Phaser from 'phaser';
 import { KennyEasterEgg } from '../utils/KennyEasterEgg';
+import type { GameScene } from './GameScene';
 
 export class PauseScene extends Phaser.Scene {
   // Dim rect is created but not explicitly stored (Phaser manages it)
@@ -43,6 +44,16 @@ export class PauseScene extends Phaser.Scene {
       .setOrigin(0.5)
       .setDepth(1001);
 
+    // Save & quit instructions
+    this.add
+      .text(width / 2, height / 2 + 100, 'Press Q to Save & Quit', {
+        fontSize: '20px',
+        color: '#888888',
+        fontFamily: 'monospace',
+      })
+      .setOrigin(0.5)
+      .setDepth(1001);
+
     // Setup Kenny easter egg (only once)
     if (!this.kennyKeyboardSetup) {
       KennyEasterEgg.setupKeyboardHandler(this, width, height, this.kennys);
@@ -53,6 +64,9 @@ export class PauseScene extends Phaser.Scene {
     this.input.keyboard!.on('keydown-ESC', () => {
       this.resume();
     });
+    this.input.keyboard!.on('keydown-Q', () => {
+      this.saveAndQuit();
+    });
   }
 
   update(_time: number, _delta: number): void {
@@ -61,6 +75,10 @@ export class PauseScene extends Phaser.Scene {
     KennyEasterEgg.updateKennys(this, width, height, _delta, this.kennys);
   }
 
+  private saveAndQuit(): void {
+    (this.scene.get('GameScene') as GameScene).saveAndQuit();
+  }
+
   private resume(): void {
     // Resume game scene
     this.scene.resume('GameScene');
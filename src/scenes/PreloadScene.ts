@@ -8,6 +8,7 @@ import { GAME_CONFIG } from '../config/constants';
 import { ParallaxSystem } from '../systems/ParallaxSystem';
 import { ASSETS } from '../config/Assets';
 import { getKenneySprite } from '../config/AssetMappings';
+import { loadStageContent } from '../data/Waves';
 
 export class PreloadScene extends Phaser.Scene {
   constructor() {
@@ -73,6 +74,9 @@ export class PreloadScene extends Phaser.Scene {
     // Generate death screen background with wrecked player ship
     this.generateDeathScreenBackground();
     
+    // Load stage content in the background; it is ready long before the player starts a run
+    void loadStageContent();
+
     // Transition to menu
     this.scene.start('MenuScene');
   }
@@ -1334,6 +1338,25 @@ export class PreloadScene extends Phaser.Scene {
     shieldCtx.fill();
     
     this.textures.addCanvas('powerup-shield', shieldCanvas);
+
+    // Score item from a canceled bullet (small gold diamond)
+    const itemSize = 10;
+    const itemCanvas = document.createElement('canvas');
+    itemCanvas.width = itemSize;
+    itemCanvas.height = itemSize;
+    const itemCtx = itemCanvas.getContext('2d')!;
+    itemCtx.fillStyle = '#ffcc33';
+    itemCtx.strokeStyle = '#ffffff';
+    itemCtx.lineWidth = 1;
+    itemCtx.beginPath();
+    itemCtx.moveTo(itemSize / 2, 0);
+    itemCtx.lineTo(itemSize, itemSize / 2);
+    itemCtx.lineTo(itemSize / 2, itemSize);
+    itemCtx.lineTo(0, itemSize / 2);
+    itemCtx.closePath();
+    itemCtx.fill();
+    itemCtx.stroke();
+    this.textures.addCanvas('score-item', itemCanvas);
   }
 
   /**
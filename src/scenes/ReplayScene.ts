@@ -0,0 +1,106 @@
+/**
+ * ReplayScene - Plays back a recorded run
+ *
+ * Rebuilds the simulation from the replay's seed, options and step rate and feeds
+ * it the recorded input and frame deltas instead of live input. ESC leaves the replay.
+ */
+
+import { GameScene, type GameSceneData } from './GameScene';
+import { musicSystem } from '../systems/MusicSystem';
+import type { InputState } from '../systems/InputSystem';
+import { decodeInput, replayOptions, type Replay } from '../sim/Replay';
+import { sceneLogger } from '../utils/SceneLogger';
+
+export class ReplayScene extends GameScene {
+  private replay!: Replay;
+  private cursor: number = 0;
+  private finished: boolean = false;
+  private leaving: boolean = false;
+
+  constructor() {
+    super('ReplayScene');
+  }
+
+  init(data: GameSceneData & { replay: Replay }): void {
+    sceneLogger.log('ReplayScene', 'INIT', {
+      seed: data.replay.seed,
+      frames: data.replay.frames.length,
+    });
+    this.replay = data.replay;
+    this.cursor = 0;
+    this.finished = false;
+    this.leaving = false;
+    this.startRun(replayOptions(this.replay), this.replay.stepHz, this.replay.start);
+  }
+
+  create(): void {
+    super.create();
+
+    const { width } = this.cameras.main;
+    this.add
+      .text(width / 2, 20, 'REPLAY - ESC to exit', {
+        fontSize: '18px',
+        color: '#ffaa00',
+        fontFamily: 'monospace',
+      })
+      .setOrigin(0.5, 0)
+      .setDepth(1000);
+  }
+
+  protected nextFrame(_delta: number): { input: InputState; delta: number } | null {
+    const frame = this.replay.frames[this.cursor];
+    if (!frame) {
+      this.finish();
+      return null;
+    }
+    this.cursor++;
+    return { input: decodeInput(frame[1]), delta: frame[0] };
+  }
+
+  protected victory(): void {
+    this.finish();
+  }
+
+  protected gameOver(): void {
+    this.finish();
+  }
+
+  protected pause(): void {
+    this.exitToMenu();
+  }
+
+  protected onContentReloaded(_changed: string): void {
+    // Replays keep the content they were recorded with
+  }
+
+  /**
+   * Hold on the final frame briefly, then return to the menu
+   */
+  private finish(): void {
+    if (this.finished) {
+      return;
+    }
+    this.finished = true;
+    sceneLogger.log('ReplayScene', 'FINISHED', {
+      status: this.sim.status,
+      score: this.sim.state.score,
+      expectedScore: this.replay.finalScore,
+      rank: this.sim.rank.value,
+      expectedRank: this.replay.finalRank,
+    });
+    this.time.delayedCall(2000, () => this.exitToMenu());
+  }
+
+  private exitToMenu(): void {
+    if (this.leaving) {
+      return;
+    }
+    sceneLogger.logTransition('ReplayScene', 'MenuScene');
+    this.leaving = true;
+    this.finished = true;
+    this.scene.stop('HUDScene');
+    musicSystem.stop();
+    this.sound.stopAll();
+    this.scene.start('MenuScene');
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * Chain - Kill combo that multiplies score
+ *
+ * Each kill within BALANCER.chain.windowMs of the last one lengthens the chain, and
+ * the longer it gets the more every kill, boss phase and formation bonus is worth.
+ * The chain breaks when the window runs out or the player loses a life.
+ */
+
+import { BALANCER } from '../systems/Balancer';
+
+export interface ChainState {
+  length: number;
+  /** Longest chain this run */
+  peak: number;
+  /** Time left before the chain breaks */
+  timerMs: number;
+}
+
+export class Chain {
+  private state: ChainState = { length: 0, peak: 0, timerMs: 0 };
+
+  get length(): number {
+    return this.state.length;
+  }
+
+  get peak(): number {
+    return this.state.peak;
+  }
+
+  /**
+   * Score multiplier for the current chain, 1 with no chain
+   */
+  get multiplier(): number {
+    const { multiplierPerKill, maxMultiplier } = BALANCER.chain;
+    return Math.min(maxMultiplier, 1 + Math.max(0, this.state.length - 1) * multiplierPerKill);
+  }
+
+  /**
+   * Points after the chain multiplier
+   */
+  score(points: number): number {
+    return Math.round(points * this.multiplier);
+  }
+
+  onKill(): void {
+    this.state.length++;
+    this.state.peak = Math.max(this.state.peak, this.state.length);
+    this.state.timerMs = BALANCER.chain.windowMs;
+  }
+
+  /**
+   * Restart the window without lengthening the chain (hitting a boss)
+   */
+  keepAlive(): void {
+    if (this.state.length > 0) {
+      this.state.timerMs = BALANCER.chain.windowMs;
+    }
+  }
+
+  /**
+   * Run down the window; returns the length of a chain that just ran out, otherwise 0
+   */
+  update(delta: number): number {
+    if (this.state.length === 0) {
+      return 0;
+    }
+    this.state.timerMs -= delta;
+    return this.state.timerMs <= 0 ? this.break() : 0;
+  }
+
+  /**
+   * Break the chain; returns its length
+   */
+  break(): number {
+    const length = this.state.length;
+    this.state.length = 0;
+    this.state.timerMs = 0;
+    return length;
+  }
+
+  getState(): ChainState {
+    return { ...this.state };
+  }
+
+  setState(state: ChainState): void {
+    this.state = { ...state };
+  }
+}
@@ -0,0 +1,31 @@
+/**
+ * Fixed hitbox sizes for the headless simulation
+ * Mirrors the procedural texture sizes generated in PreloadScene so that
+ * collision results do not depend on which sprite set is loaded
+ */
+
+export interface HitboxSize {
+  width: number;
+  height: number;
+}
+
+export const HITBOXES = {
+  player: { width: 120, height: 84 },
+  playerBullet: { width: 8, height: 16 },
+  enemyBullet: { width: 6, height: 12 },
+  powerUp: { width: 16, height: 16 },
+  scoreItem: { width: 10, height: 10 },
+  boss: { width: 108, height: 108 },
+  enemies: {
+    chaser: { width: 96, height: 96 },
+    turret: { width: 108, height: 108 },
+    sineFlyer: { width: 84, height: 84 },
+  } as Record<string, HitboxSize>,
+} as const;
+
+/**
+ * Get hitbox for an enemy type (falls back to chaser size)
+ */
+export function getEnemyHitbox(enemyType: string): HitboxSize {
+  return HITBOXES.enemies[enemyType] ?? HITBOXES.enemies.chaser!;
+}
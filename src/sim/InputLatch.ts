@@ -0,0 +1,38 @@
+/**
+ * InputLatch - Holds bomb and shield presses until a simulation step reads them
+ *
+ * The simulation fires a bomb or shield on the step a button goes down. Above the step
+ * rate some render frames run no step at all, so a press lasting only such a frame would
+ * never be seen; the latch keeps it and feeds it to the next step that runs.
+ */
+
+import type { InputState } from '../systems/InputSystem';
+
+type LatchedButton = 'bomb' | 'shield';
+
+const LATCHED_BUTTONS: readonly LatchedButton[] = ['bomb', 'shield'];
+
+export class InputLatch {
+  private pending: Record<LatchedButton, boolean> = { bomb: false, shield: false };
+
+  /**
+   * Note a render frame's input, before its steps run
+   */
+  hold(input: InputState): void {
+    for (const button of LATCHED_BUTTONS) {
+      this.pending[button] ||= input[button];
+    }
+  }
+
+  /**
+   * Input for the next step: the frame's input plus any press no step has read yet
+   */
+  consume(input: InputState): InputState {
+    const latched = { ...input };
+    for (const button of LATCHED_BUTTONS) {
+      latched[button] ||= this.pending[button];
+      this.pending[button] = false;
+    }
+    return latched;
+  }
+}
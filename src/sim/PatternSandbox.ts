@@ -0,0 +1,200 @@
+/**
+ * Headless bullet pattern sandbox (drives PatternSandboxScene)
+ *
+ * Fires one PatternML pattern or BulletML script over and over from a movable
+ * emitter at a dummy player, on the simulation's fixed step so what you see is
+ * what the game does. Time can be paused, stepped one frame or slowed down.
+ */
+
+import { GAME_CONFIG } from '../config/constants';
+import { BulletMLRunner, type Bullet, type BulletMLEmitter } from '../systems/BulletMLRunner';
+import type { BulletMLDocument } from '../systems/BulletML';
+import type { BulletPat } from '../systems/PatternML';
+import { RNG } from '../systems/RNG';
+import { FixedTimestep } from './FixedTimestep';
+import { HITBOXES } from './Hitboxes';
+
+export type SandboxSource =
+  | { kind: 'pattern'; name: string; pattern: BulletPat }
+  | { kind: 'bulletml'; name: string; doc: BulletMLDocument };
+
+/** Pause between the end of one run of the pattern and the next */
+export const SANDBOX_REST_MS = 1000;
+
+// Bullets this far outside the play area are dropped
+const CULL_MARGIN = 100;
+
+export interface SandboxStats {
+  timeMs: number;
+  runs: number; // Times the pattern (all its volleys) or script was started
+  volleys: number;
+  bullets: number;
+  peakBullets: number;
+  scripts: number; // Running BulletML emitters and scripted bullets
+  hits: number; // Bullets that reached the dummy player
+}
+
+export class PatternSandbox {
+  public readonly runner: BulletMLRunner<Bullet>;
+  public readonly emitter = { x: GAME_CONFIG.width - 200, y: GAME_CONFIG.height / 2 };
+  public readonly target = { x: 150, y: GAME_CONFIG.height / 2 };
+  public paused: boolean = false;
+  public timeScale: number = 1;
+  public readonly stats: SandboxStats = {
+    timeMs: 0,
+    runs: 0,
+    volleys: 0,
+    bullets: 0,
+    peakBullets: 0,
+    scripts: 0,
+    hits: 0,
+  };
+  private source: SandboxSource | null = null;
+  private script: BulletMLEmitter | null = null;
+  private timestep: FixedTimestep;
+  private volley: number = 0; // Volleys fired in the current run
+  private volleyTimer: number = 0;
+  private runTime: number = 0; // Time since the current run started
+  private restTimer: number = 0;
+
+  constructor(
+    private readonly width: number = GAME_CONFIG.width,
+    private readonly height: number = GAME_CONFIG.height,
+    seed: string | number = GAME_CONFIG.defaultSeed
+  ) {
+    this.runner = new BulletMLRunner(undefined, new RNG(seed).fork('patterns'));
+    this.timestep = new FixedTimestep();
+  }
+
+  get current(): SandboxSource | null {
+    return this.source;
+  }
+
+  /**
+   * Clear the screen and start firing `source` from the top
+   */
+  load(source: SandboxSource): void {
+    this.source = source;
+    this.restart();
+  }
+
+  restart(): void {
+    this.runner.clear();
+    this.script = null;
+    Object.assign(this.stats, {
+      timeMs: 0,
+      runs: 0,
+      volleys: 0,
+      bullets: 0,
+      peakBullets: 0,
+      scripts: 0,
+      hits: 0,
+    });
+    this.startRun();
+  }
+
+  /**
+   * Advance by a real frame delta, scaled by timeScale (nothing happens while paused)
+   */
+  update(delta: number): void {
+    if (!this.paused) {
+      this.timestep.advance(delta * this.timeScale, (stepMs) => this.tick(stepMs));
+    }
+  }
+
+  /**
+   * Advance exactly one simulation step, even while paused
+   */
+  stepFrame(): void {
+    this.tick(this.timestep.stepMs);
+  }
+
+  private startRun(): void {
+    this.volley = 0;
+    this.volleyTimer = 0;
+    this.runTime = 0;
+    this.restTimer = 0;
+    if (!this.source) {
+      return;
+    }
+    this.stats.runs++;
+    if (this.source.kind === 'bulletml') {
+      this.script = this.runner.runBulletML(this.source.doc, this.emitter.x, this.emitter.y);
+    }
+  }
+
+  /**
+   * The current run is over: every volley fired, or the script's emitter finished
+   */
+  private get runDone(): boolean {
+    if (!this.source) {
+      return false;
+    }
+    return this.source.kind === 'pattern'
+      ? this.volley >= this.source.pattern.repeat
+      : (this.script?.done ?? true);
+  }
+
+  private tick(stepMs: number): void {
+    this.stats.timeMs += stepMs;
+    this.runTime += stepMs;
+    this.runner.target = this.target;
+    if (this.script) {
+      this.script.x = this.emitter.x;
+      this.script.y = this.emitter.y;
+    }
+
+    if (this.source?.kind === 'pattern' && !this.runDone) {
+      this.fireVolleys(this.source.pattern, stepMs);
+    }
+    if (this.runDone) {
+      this.restTimer += stepMs;
+      if (this.restTimer >= SANDBOX_REST_MS) {
+        this.startRun();
+      }
+    }
+
+    this.runner.update(stepMs);
+    this.runner.retain((bullet) => this.keep(bullet));
+    this.stats.bullets = this.runner.bullets.length;
+    this.stats.peakBullets = Math.max(this.stats.peakBullets, this.stats.bullets);
+    this.stats.scripts = this.runner.activeScripts;
+  }
+
+  /**
+   * Fire the pattern's next volleys, spawnEveryMs apart (the first one at once)
+   */
+  private fireVolleys(pattern: BulletPat, stepMs: number): void {
+    this.volleyTimer -= stepMs;
+    while (this.volleyTimer <= 0 && this.volley < pattern.repeat) {
+      this.runner.spawnPattern(this.emitter.x, this.emitter.y, pattern, {
+        v: this.volley,
+        t: this.runTime / 1000,
+      });
+      this.volley++;
+      this.stats.volleys++;
+      // A zero interval fires every step, like a wave enemy's volleys
+      this.volleyTimer += Math.max(pattern.spawnEveryMs, stepMs);
+    }
+  }
+
+  /**
+   * Drop bullets that left the play area or hit the dummy player (counting the hits)
+   */
+  private keep(bullet: Bullet): boolean {
+    const { width, height } = HITBOXES.player;
+    if (
+      Math.abs(bullet.x - this.target.x) <= width / 2 &&
+      Math.abs(bullet.y - this.target.y) <= height / 2
+    ) {
+      this.stats.hits++;
+      return false;
+    }
+    return (
+      bullet.x > -CULL_MARGIN &&
+      bullet.x < this.width + CULL_MARGIN &&
+      bullet.y > -CULL_MARGIN &&
+      bullet.y < this.height + CULL_MARGIN
+    );
+  }
+}
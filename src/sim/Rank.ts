@@ -0,0 +1,92 @@
+/**
+ * Rank - Hidden dynamic difficulty, as in classic shmups
+ *
+ * A value from 0 to 1 that creeps up with time survived, score gained and weapon
+ * tier, and drops when the player is hit or bombs. It scales enemy fire rates,
+ * bullet speed and enemies per spawn (see BALANCER.rank), and bullet patterns can
+ * read it as `rank` ($rank in BulletML).
+ */
+
+import { BALANCER } from '../systems/Balancer';
+
+export interface RankState {
+  /** Rank before the weapon tier bonus */
+  base: number;
+  /** Score already counted towards rank */
+  scoredTo: number;
+}
+
+const clamp01 = (value: number): number => Math.min(1, Math.max(0, value));
+
+/**
+ * Multiplier for `rank`: min at 0, 1 at the starting rank, max at 1
+ */
+function scale({ min, max }: { min: number; max: number }, rank: number): number {
+  const start = BALANCER.rank.start;
+  return rank < start
+    ? 1 - (1 - min) * ((start - rank) / start)
+    : 1 + (max - 1) * ((rank - start) / (1 - start));
+}
+
+export class Rank {
+  private base: number = BALANCER.rank.start;
+  private scoredTo: number = 0;
+  private weaponTier: number = 0;
+
+  /**
+   * Current rank, 0..1
+   */
+  get value(): number {
+    return clamp01(this.base + this.weaponTier * BALANCER.rank.perWeaponTier);
+  }
+
+  get enemyFireRate(): number {
+    return scale(BALANCER.rank.enemyFireRate, this.value);
+  }
+
+  get bulletSpeed(): number {
+    return scale(BALANCER.rank.bulletSpeed, this.value);
+  }
+
+  get spawnCount(): number {
+    return scale(BALANCER.rank.spawnCount, this.value);
+  }
+
+  /**
+   * Rise with time survived and score gained since the last step
+   */
+  update(delta: number, score: number, weaponTier: number): void {
+    const gained = Math.max(0, score - this.scoredTo);
+    this.scoredTo = score;
+    this.weaponTier = weaponTier;
+    this.adjust(
+      (delta / 1000) * BALANCER.rank.perSecond + (gained / 1000) * BALANCER.rank.perThousandPoints
+    );
+  }
+
+  onHit(): void {
+    this.adjust(-BALANCER.rank.hitPenalty);
+  }
+
+  onBomb(): void {
+    this.adjust(-BALANCER.rank.bombPenalty);
+  }
+
+  getState(): RankState {
+    return { base: this.base, scoredTo: this.scoredTo };
+  }
+
+  setState(state: RankState, weaponTier: number): void {
+    this.base = state.base;
+    this.scoredTo = state.scoredTo;
+    this.weaponTier = weaponTier;
+  }
+
+  /**
+   * Keep the base inside the range so a drop is felt straight away even at high tiers
+   */
+  private adjust(amount: number): void {
+    const tierBonus = this.weaponTier * BALANCER.rank.perWeaponTier;
+    this.base = Math.min(1 - tierBonus, Math.max(-tierBonus, this.base + amount));
+  }
+}
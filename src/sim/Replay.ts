@@ -0,0 +1,213 @@
+/**
+ * Replay - Versioned record of a run (seed + per-frame input and delta)
+ *
+ * The simulation is deterministic, so feeding the recorded frames back through a
+ * FixedTimestep and InputLatch at the recorded rate into a fresh Simulation rebuilds
+ * the run exactly.
+ */
+
+import { z } from 'zod';
+import type { InputState } from '../systems/InputSystem';
+import { GAME_CONFIG } from '../config/constants';
+import { Simulation, type SimulationOptions } from './Simulation';
+import { FixedTimestep } from './FixedTimestep';
+import { InputLatch } from './InputLatch';
+import { SnapshotSchema, type SimSnapshot } from './Snapshot';
+import { BulletPattern, WaveSchema } from '../systems/PatternML';
+import { BossDefinitionSchema } from '../systems/BossDefinitions';
+import { EnemyArchetypeSchema } from '../systems/EnemyArchetypes';
+import { PathSchema } from '../systems/Paths';
+import { DEFAULT_DIFFICULTY, DifficultySchema } from '../systems/Difficulty';
+
+// v2: frames are fed through a fixed-step accumulator at stepHz
+// v3: gameplay randomness comes from named RNG streams
+// v4: bosses come from BossDefinitions
+// v5: formation wipe bonus
+// v6: dynamic rank
+// v7: weapon families
+// v8: kill chain score multiplier
+// v9: graze scoring
+// v10: bullet cancel score items
+// v11: score extends
+// v12: Hard and Insane lose weapon tiers when hit
+// v13: bomb and shield presses are held until a step reads them
+export const REPLAY_VERSION = 13;
+
+/**
+ * Input bits stored per frame (pause is not recorded - it never reaches the simulation)
+ */
+const INPUT_BITS = {
+  left: 1 << 0,
+  right: 1 << 1,
+  up: 1 << 2,
+  down: 1 << 3,
+  fire: 1 << 4,
+  bomb: 1 << 5,
+  shield: 1 << 6,
+} as const;
+
+const ALL_INPUT_BITS = Object.values(INPUT_BITS).reduce((mask, bit) => mask | bit, 0);
+
+/**
+ * Replay schema
+ */
+export const ReplaySchema = z.object({
+  version: z.literal(REPLAY_VERSION),
+  seed: z.union([z.string(), z.number()]),
+  afterFirstBoss: z.boolean().default(false),
+  godMode: z.boolean().default(false),
+  difficulty: DifficultySchema.default(DEFAULT_DIFFICULTY),
+  waves: z.array(WaveSchema).optional(), // Stage content the run was played with
+  patterns: z.array(BulletPattern).optional(),
+  bosses: z.array(BossDefinitionSchema).optional(),
+  enemies: z.array(EnemyArchetypeSchema).optional(),
+  paths: z.array(PathSchema).optional(),
+  scripts: z.record(z.string(), z.string()).optional(), // BulletML script sources by file
+  startAtMs: z.number().min(0).optional(), // Runs started partway through the wave timeline
+  bossesDefeated: z.number().int().min(0).optional(), // ...and in a later boss phase
+  stepHz: z.number().positive(),
+  start: SnapshotSchema.optional(), // Runs resumed from a save start here instead of from the seed
+  recordedAt: z.string().optional(), // ISO timestamp
+  finalScore: z.number().int().optional(),
+  finalRank: z.number().min(0).max(1).optional(),
+  // [frame delta in ms, input bitmask]
+  frames: z.array(z.tuple([z.number().nonnegative(), z.number().int().min(0).max(ALL_INPUT_BITS)])),
+});
+
+export type Replay = z.infer<typeof ReplaySchema>;
+export type ReplayFrame = Replay['frames'][number];
+
+/**
+ * Pack an InputState into a bitmask
+ */
+export function encodeInput(input: InputState): number {
+  let mask = 0;
+  for (const key of Object.keys(INPUT_BITS) as (keyof typeof INPUT_BITS)[]) {
+    if (input[key]) {
+      mask |= INPUT_BITS[key];
+    }
+  }
+  return mask;
+}
+
+/**
+ * Unpack a bitmask into an InputState
+ */
+export function decodeInput(mask: number): InputState {
+  return {
+    left: (mask & INPUT_BITS.left) !== 0,
+    right: (mask & INPUT_BITS.right) !== 0,
+    up: (mask & INPUT_BITS.up) !== 0,
+    down: (mask & INPUT_BITS.down) !== 0,
+    fire: (mask & INPUT_BITS.fire) !== 0,
+    bomb: (mask & INPUT_BITS.bomb) !== 0,
+    shield: (mask & INPUT_BITS.shield) !== 0,
+    pause: false,
+  };
+}
+
+/**
+ * Simulation options needed to rebuild a recorded run
+ */
+export function replayOptions(replay: Replay): SimulationOptions {
+  return {
+    seed: replay.seed,
+    afterFirstBoss: replay.afterFirstBoss,
+    godMode: replay.godMode,
+    difficulty: replay.difficulty,
+    waves: replay.waves,
+    patterns: replay.patterns,
+    bosses: replay.bosses,
+    enemies: replay.enemies,
+    paths: replay.paths,
+    scripts: replay.scripts,
+    startAtMs: replay.startAtMs,
+    bossesDefeated: replay.bossesDefeated,
+  };
+}
+
+/**
+ * Records every frame fed to a Simulation
+ */
+export class ReplayRecorder {
+  private frames: ReplayFrame[] = [];
+
+  constructor(
+    private options: SimulationOptions,
+    private stepHz: number = GAME_CONFIG.simStepHz,
+    private start?: SimSnapshot
+  ) {}
+
+  record(input: InputState, delta: number): void {
+    this.frames.push([delta, encodeInput(input)]);
+  }
+
+  get frameCount(): number {
+    return this.frames.length;
+  }
+
+  /**
+   * Snapshot the recording as a replay
+   */
+  toReplay(finalScore?: number, finalRank?: number): Replay {
+    return {
+      version: REPLAY_VERSION,
+      seed: this.options.seed,
+      afterFirstBoss: this.options.afterFirstBoss ?? false,
+      godMode: this.options.godMode ?? false,
+      difficulty: this.options.difficulty ?? DEFAULT_DIFFICULTY,
+      waves: this.options.waves,
+      patterns: this.options.patterns,
+      bosses: this.options.bosses,
+      enemies: this.options.enemies,
+      paths: this.options.paths,
+      scripts: this.options.scripts,
+      startAtMs: this.options.startAtMs,
+      bossesDefeated: this.options.bossesDefeated,
+      stepHz: this.stepHz,
+      start: this.start,
+      recordedAt: new Date().toISOString(),
+      finalScore,
+      finalRank,
+      frames: this.frames.slice(),
+    };
+  }
+}
+
+/**
+ * Parse and validate a replay from JSON text
+ */
+export function parseReplay(text: string): Replay {
+  return ReplaySchema.parse(JSON.parse(text));
+}
+
+/**
+ * Serialize a replay to JSON text
+ */
+export function serializeReplay(replay: Replay): string {
+  return JSON.stringify(replay);
+}
+
+/**
+ * Fresh simulation at the point the replay starts
+ */
+export function createReplaySimulation(replay: Replay): Simulation {
+  return replay.start
+    ? Simulation.fromSnapshot(replay.start)
+    : new Simulation(replayOptions(replay));
+}
+
+/**
+ * Run a replay headlessly to completion and return the resulting simulation
+ */
+export function runReplay(replay: Replay): Simulation {
+  const sim = createReplaySimulation(replay);
+  const timestep = new FixedTimestep(replay.stepHz);
+  const latch = new InputLatch();
+  for (const [delta, mask] of replay.frames) {
+    const input = decodeInput(mask);
+    latch.hold(input);
+    timestep.advance(delta, (stepMs) => sim.step(latch.consume(input), stepMs));
+  }
+  return sim;
+}
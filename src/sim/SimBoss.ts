@@ -0,0 +1,125 @@
+/**
+ * Headless boss; phases, movement and fire timing come from its BossDefinition
+ */
+
+import { bossPhaseIndex } from '../systems/BossDefinitions';
+import type { BossDefinition, BossPhase } from '../types';
+import { SimEntity } from './SimEntity';
+import { HITBOXES } from './Hitboxes';
+
+export class SimBoss extends SimEntity {
+  public readonly definition: BossDefinition;
+  public hp: number;
+  public maxHp: number;
+  public currentPhase: number = 0;
+  public fireTimer: number = 0;
+  public patternTime: number = 0;
+  public volleys: number = 0; // Volleys fired in the current phase
+  public startX: number;
+  public startY: number;
+
+  constructor(id: number, x: number, y: number, definition: BossDefinition) {
+    super(id, x, y, HITBOXES.boss);
+    this.definition = definition;
+    this.scale = definition.scale;
+    this.startX = x;
+    this.startY = y;
+    this.maxHp = definition.hp;
+    this.hp = definition.hp;
+  }
+
+  get phase(): BossPhase {
+    return this.definition.phases[this.currentPhase]!;
+  }
+
+  /**
+   * Sprite for the current phase
+   */
+  get sprite(): string {
+    return this.phase.sprite ?? this.definition.sprite;
+  }
+
+  /**
+   * Update boss movement and firing; `fireRate` scales how fast the fire timer runs
+   * Returns true when the current phase should fire a volley
+   */
+  update(delta: number, playerX: number, playerY: number, fireRate: number = 1): boolean {
+    const deltaSeconds = delta / 1000;
+    this.patternTime += deltaSeconds;
+
+    // Check phase transitions
+    const phase = bossPhaseIndex(this.definition, this.hp / this.maxHp);
+    if (phase !== this.currentPhase) {
+      this.currentPhase = phase;
+      this.volleys = 0;
+    }
+
+    this.updateMovement(deltaSeconds, playerX, playerY);
+
+    this.fireTimer += delta * fireRate;
+    if (this.fireTimer >= this.phase.fireIntervalMs) {
+      this.fireTimer = 0;
+      this.volleys++;
+      return true; // Signal to fire
+    }
+
+    return false;
+  }
+
+  /**
+   * Update movement for the current phase
+   */
+  private updateMovement(deltaSeconds: number, playerX: number, playerY: number): void {
+    const movement = this.phase.pattern;
+    switch (movement.type) {
+      case 'sine':
+        // Bob around the start height
+        this.y =
+          this.startY +
+          Math.sin(this.patternTime * (movement.frequency ?? 2)) * (movement.amplitude ?? 100);
+        break;
+
+      case 'chaser':
+        this.moveTowards(playerX, playerY, movement.speed * deltaSeconds);
+        break;
+
+      case 'turret':
+      case 'boss':
+        // Return to the starting position and hold
+        this.moveTowards(this.startX, this.startY, movement.speed * deltaSeconds);
+        break;
+    }
+  }
+
+  private moveTowards(x: number, y: number, step: number): void {
+    const dx = x - this.x;
+    const dy = y - this.y;
+    const dist = Math.sqrt(dx * dx + dy * dy);
+    if (dist <= step) {
+      this.x = x;
+      this.y = y;
+    } else if (dist > 0) {
+      this.x += (dx / dist) * step;
+      this.y += (dy / dist) * step;
+    }
+  }
+
+  /**
+   * Take damage
+   */
+  takeDamage(amount: number): boolean {
+    this.hp -= amount;
+    if (this.hp <= 0) {
+      this.hp = 0;
+      return true; // Dead
+    }
+    return false;
+  }
+
+  /**
+   * Check if boss is alive
+   */
+  isAlive(): boolean {
+    return this.hp > 0;
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * Headless bullet for player and enemy projectiles
+ */
+
+import type { WeaponFamily } from '../types';
+import { SimEntity } from './SimEntity';
+import { HITBOXES } from './Hitboxes';
+
+export type BulletSource = 'player' | 'enemy' | 'boss';
+
+export class SimBullet extends SimEntity {
+  public speed: number;
+  public damage: number;
+  public angle: number;
+  public readonly source: BulletSource;
+  public readonly isPlayerBullet: boolean;
+  public charged: boolean = false;
+  // Scripted bullets are moved by a BulletMLRunner (velocity, lifetime, acceleration)
+  public scripted: boolean = false;
+  public vx: number = 0;
+  public vy: number = 0;
+  public life: number = 0;
+  public accel?: number;
+  public onDeath?: string; // Pattern the runner spawns when the bullet expires
+  public grazed: boolean = false; // Enemy bullets graze the player once
+  // Weapon family behavior of player bullets (see WeaponSpec)
+  public family: WeaponFamily = 'spread';
+  public pierce: number = 0; // Further enemies it passes through
+  public hitIds: number[] = []; // Targets already hit, so piercing bullets hit each once
+  public homingTurnRate: number = 0;
+  public waveAmplitude: number = 0;
+  public waveFrequency: number = 0;
+  public waveTime: number = 0;
+  public beamLength: number = 0; // Beams stretch back this far from (x, y)
+
+  constructor(
+    id: number,
+    x: number,
+    y: number,
+    angle: number,
+    speed: number,
+    damage: number,
+    source: BulletSource
+  ) {
+    super(id, x, y, source === 'player' ? HITBOXES.playerBullet : HITBOXES.enemyBullet);
+    this.angle = angle;
+    this.speed = speed;
+    this.damage = damage;
+    this.source = source;
+    this.isPlayerBullet = source === 'player';
+  }
+
+  get isBeam(): boolean {
+    return this.beamLength > 0;
+  }
+
+  /**
+   * Back end of the bullet: the tail of a beam, otherwise its position
+   */
+  get tailX(): number {
+    return this.x - Math.cos(this.angle) * this.beamLength;
+  }
+
+  get tailY(): number {
+    return this.y - Math.sin(this.angle) * this.beamLength;
+  }
+
+  /**
+   * Update bullet position, deactivating it once it leaves the play area
+   */
+  update(delta: number, screenWidth: number, screenHeight: number): void {
+    if (this.scripted) {
+      // Runner already moved it; just expire it
+      if (this.life <= 0) {
+        this.active = false;
+      }
+    } else {
+      const deltaSeconds = delta / 1000;
+      this.x += Math.cos(this.angle) * this.speed * deltaSeconds;
+      this.y += Math.sin(this.angle) * this.speed * deltaSeconds;
+
+      if (this.waveAmplitude > 0) {
+        // Sway across the direction of travel
+        const sway = (t: number): number =>
+          this.waveAmplitude * Math.sin(2 * Math.PI * this.waveFrequency * t);
+        const shift = sway(this.waveTime + deltaSeconds) - sway(this.waveTime);
+        this.waveTime += deltaSeconds;
+        this.x -= Math.sin(this.angle) * shift;
+        this.y += Math.cos(this.angle) * shift;
+      }
+    }
+
+    // A beam stays until its tail has left too
+    const outside = (x: number, y: number): boolean =>
+      x < -100 || x > screenWidth + 100 || y < -100 || y > screenHeight + 100;
+    if (outside(this.x, this.y) && outside(this.tailX, this.tailY)) {
+      this.active = false;
+    }
+  }
+
+  /**
+   * Turn towards a point by at most homingTurnRate
+   */
+  steerTowards(targetX: number, targetY: number, delta: number): void {
+    const wanted = Math.atan2(targetY - this.y, targetX - this.x);
+    let turn = wanted - this.angle;
+    turn = Math.atan2(Math.sin(turn), Math.cos(turn)); // -PI..PI
+    const maxTurn = this.homingTurnRate * (delta / 1000);
+    this.angle += Math.max(-maxTurn, Math.min(maxTurn, turn));
+  }
+
+  hasHit(targetId: number): boolean {
+    return this.hitIds.includes(targetId);
+  }
+
+  /**
+   * Record a hit on a target: beams carry on, other bullets use up pierce or are spent
+   */
+  hit(targetId: number): void {
+    this.hitIds.push(targetId);
+    if (this.isBeam) {
+      return;
+    }
+    if (this.pierce > 0) {
+      this.pierce--;
+    } else {
+      this.active = false;
+    }
+  }
+}
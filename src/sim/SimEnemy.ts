@@ -0,0 +1,337 @@
+/**
+ * Headless enemy with movement patterns and AI
+ */
+
+import { rollDrop } from '../systems/EnemyArchetypes';
+import type { EnemyArchetype, EnemyPattern, PowerUpType } from '../types';
+import { RNG } from '../systems/RNG';
+import { pickPattern } from '../systems/EnemyPatterns';
+import type { BulletPat, Wave } from '../systems/PatternML';
+import type { CompiledPath } from '../systems/Paths';
+import { SimEntity } from './SimEntity';
+import { getEnemyHitbox } from './Hitboxes';
+
+export class SimEnemy extends SimEntity {
+  public readonly archetype: EnemyArchetype;
+  public hp: number = 0;
+  public maxHp: number = 0;
+  public pattern: EnemyPattern;
+  public enemyType: string;
+  public fireRate: number;
+  public fireTimer: number = 0;
+  public patternTime: number = 0;
+  public startY: number = 0;
+  public reachedEdge: boolean = false; // Has enemy reached the screen edge?
+  public edgeX: number = 0; // X position when enemy reached the edge
+  public returningToEdge: boolean = false; // Flag for when enemy should return to edge after backtracking
+  // Wave-spawned enemies move with their formation's pattern and fire the wave's bullet pattern
+  public formation: Wave['formation'] | null = null;
+  public formationIndex: number = 0;
+  public formationId: number | null = null; // SimFormation this enemy belongs to
+  public leaderless: boolean = false; // Formation lost its leader: break and charge
+  // Path members fly the wave's named path instead of the formation motion
+  public pathName: string | null = null;
+  public pathDelayMs: number = 0; // Wait at the start (members set off one after another)
+  public pathTime: number = 0; // Time spent moving along the path
+  public pathHoldMs: number = 0; // Time left at the current stop
+  public pathStop: number = 0; // Next stop
+  public pathFiring: boolean = false; // Current stop fires the wave pattern
+  public pathDone: boolean = false;
+  private path: CompiledPath | null = null;
+  public bulletPattern: BulletPat | null = null;
+  public fireScript: string | null = null; // BulletML script run instead of aimed single shots
+  public fireWindowMs: number = 0; // Wave duration: volleys only fire within it
+  public volleysFired: number = 0;
+  public volleyTimer: number = 0;
+  private formationRng: RNG | null = null;
+  private rng: RNG;
+  private screenWidth: number;
+
+  constructor(
+    id: number,
+    x: number,
+    y: number,
+    archetype: EnemyArchetype,
+    rng: RNG,
+    screenWidth: number
+  ) {
+    super(id, x, y, archetype.hitbox ?? getEnemyHitbox(archetype.name));
+    this.archetype = archetype;
+    this.enemyType = archetype.name;
+    this.pattern = { ...archetype.pattern };
+    this.fireRate = archetype.fireRate;
+    this.maxHp = archetype.hp;
+    this.hp = this.maxHp;
+    this.startY = y;
+    this.rng = rng;
+    this.screenWidth = screenWidth;
+  }
+
+  /**
+   * Fire `pattern` (the archetype's resolved fire pattern) instead of aimed single shots
+   */
+  setFirePattern(pattern: BulletPat | null): void {
+    this.bulletPattern = pattern;
+  }
+
+  /**
+   * Run the BulletML script `name` (the archetype's fire pattern) instead of aimed single shots
+   */
+  setFireScript(name: string | null): void {
+    this.fireScript = name;
+  }
+
+  /**
+   * Join a wave: move as member `index` of its formation and fire its (resolved) pattern
+   */
+  joinWave(wave: Wave, pattern: BulletPat | null, index: number, formationRng: RNG): void {
+    this.formation = wave.formation;
+    this.formationIndex = index;
+    this.bulletPattern = pattern;
+    this.fireWindowMs = wave.duration;
+    this.formationRng = formationRng;
+  }
+
+  /**
+   * Fly `path` from its start, setting off after the members ahead of this one
+   */
+  followPath(path: CompiledPath): void {
+    this.setPath(path);
+    this.pathDelayMs = this.formationIndex * path.def.spacingMs;
+    const start = path.point(0);
+    this.x = start.x;
+    this.y = start.y;
+    this.startY = start.y;
+  }
+
+  /**
+   * Attach the compiled path (also used to restore it after loading a snapshot)
+   */
+  setPath(path: CompiledPath): void {
+    this.path = path;
+    this.pathName = path.def.name;
+  }
+
+  /**
+   * Restore the formation RNG after loading a snapshot
+   */
+  setFormationRng(rng: RNG): void {
+    this.formationRng = rng;
+  }
+
+  /**
+   * Update enemy movement and firing; `fireRate` scales how fast the fire timers run
+   * Returns: true if should fire, 'explode' if should explode, false otherwise
+   */
+  update(
+    delta: number,
+    playerX: number,
+    playerY: number,
+    fireRate: number = 1
+  ): boolean | 'explode' {
+    const deltaSeconds = delta / 1000;
+    this.patternTime += deltaSeconds;
+
+    if (this.formation) {
+      return this.updateWaveMember(delta, fireRate);
+    }
+
+    // Update movement pattern
+    this.updateMovement(deltaSeconds, playerX, playerY);
+
+    // Update firing
+    this.fireTimer += deltaSeconds * fireRate;
+    const fireInterval = 1 / this.fireRate;
+
+    if (this.fireTimer >= fireInterval) {
+      this.fireTimer = 0;
+      this.volleysFired++;
+      return true; // Signal to fire
+    }
+
+    // For chaser enemies: check if should explode when reaching edge after returning
+    if (this.pattern.type === 'chaser' && this.returningToEdge) {
+      const edgeThreshold = 50;
+      if (this.x <= edgeThreshold) {
+        return 'explode';
+      }
+    }
+
+    // Remove if off screen (left edge)
+    if (this.x < -50) {
+      this.active = false;
+    }
+
+    return false;
+  }
+
+  /**
+   * Formation movement from EnemyPatterns; fire a volley every spawnEveryMs, up to `repeat`
+   */
+  private updateWaveMember(delta: number, fireRate: number): boolean {
+    if (this.path && !this.leaderless) {
+      return this.updatePathMember(delta, this.path, fireRate);
+    }
+
+    const deltaSeconds = delta / 1000;
+    const motion = pickPattern(this.leaderless ? 'chaser' : this.formation!);
+    const velocity = motion(
+      this.patternTime * 1000,
+      this.formationIndex,
+      this.formationRng ?? undefined
+    );
+    this.x += velocity.vx * deltaSeconds;
+    this.y += velocity.vy * deltaSeconds;
+    return this.nextVolley(delta * fireRate, true);
+  }
+
+  /**
+   * Follow the path, holding at its stops; paths with firing stops only fire while stopped there
+   */
+  private updatePathMember(delta: number, path: CompiledPath, fireRate: number): boolean {
+    if (this.pathDelayMs > 0) {
+      this.pathDelayMs -= delta;
+      return false;
+    }
+    if (this.pathHoldMs > 0) {
+      this.pathHoldMs -= delta;
+      return this.pathFiring && this.nextVolley(delta * fireRate, false);
+    }
+
+    this.pathTime += delta;
+    let u = path.progress(this.pathTime);
+    const stop = path.def.stops[this.pathStop];
+    if (stop && u >= stop.at) {
+      u = stop.at;
+      this.pathStop++;
+      this.pathHoldMs = stop.holdMs;
+      this.pathFiring = stop.fire;
+      // Each firing stop starts a fresh set of volleys, the first one on arrival
+      this.volleysFired = 0;
+      this.volleyTimer = this.bulletPattern?.spawnEveryMs ?? 0;
+    }
+    const point = path.point(u);
+    this.x = point.x;
+    this.y = point.y;
+    this.pathDone = u >= 1;
+
+    if (this.pathHoldMs > 0 || path.def.stops.some((s) => s.fire)) {
+      return false;
+    }
+    return this.nextVolley(delta * fireRate, true);
+  }
+
+  /**
+   * Fire a volley every spawnEveryMs, up to `repeat`, within the wave's fire window if `windowed`
+   */
+  private nextVolley(delta: number, windowed: boolean): boolean {
+    const pattern = this.bulletPattern;
+    if (
+      !pattern ||
+      this.volleysFired >= pattern.repeat ||
+      (windowed && this.patternTime * 1000 > this.fireWindowMs)
+    ) {
+      return false;
+    }
+    // Hold fire until on screen
+    if (this.x > this.screenWidth) {
+      return false;
+    }
+    this.volleyTimer += delta;
+    if (this.volleyTimer >= pattern.spawnEveryMs) {
+      this.volleyTimer = 0;
+      this.volleysFired++;
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Update movement based on pattern
+   * Chaser behavior:
+   * 1. Move to screen edge (left side) without following player
+   * 2. Once at edge, can backtrack player up to 1/4 screen width
+   * 3. After backtracking 1/4 screen width, return to edge and explode
+   */
+  private updateMovement(deltaSeconds: number, playerX: number, playerY: number): void {
+    switch (this.pattern.type) {
+      case 'chaser': {
+        const edgeThreshold = 50; // Consider edge reached at x = 50
+
+        // Always track player vertically (up/down) regardless of phase
+        const dy = playerY - this.y;
+        const distY = Math.abs(dy);
+        if (distY > 0) {
+          const verticalSpeed = (dy / distY) * this.pattern.speed;
+          this.y += verticalSpeed * deltaSeconds;
+        }
+
+        // Phase 1: Move to screen edge (horizontal movement comes from level scrolling)
+        if (!this.reachedEdge) {
+          if (this.x <= edgeThreshold) {
+            this.reachedEdge = true;
+            this.edgeX = this.x;
+          }
+          return;
+        }
+
+        // Phase 2: Enemy is at edge, can backtrack player
+        if (!this.returningToEdge) {
+          const backwardDistance = this.x - this.edgeX; // How far right (backwards) from edge
+          const maxBackwardDistance = this.screenWidth * 0.25;
+
+          if (backwardDistance >= maxBackwardDistance) {
+            // Has backtracked 1/4 screen width, must return to edge
+            this.returningToEdge = true;
+          } else {
+            // Can still backtrack - follow player horizontally
+            const dx = playerX - this.x;
+            const distX = Math.abs(dx);
+            if (distX > 0) {
+              const horizontalSpeed = (dx / distX) * this.pattern.speed;
+              this.x += horizontalSpeed * deltaSeconds;
+            }
+          }
+        } else {
+          // Phase 3: Returning to edge after backtracking (move faster when returning)
+          this.x -= this.pattern.speed * deltaSeconds * 1.5;
+        }
+        break;
+      }
+
+      case 'turret':
+        // Move slowly forward, stop to fire
+        this.x -= this.pattern.speed * deltaSeconds * 0.5;
+        break;
+
+      case 'sine':
+        // Sine wave pattern
+        if (this.pattern.amplitude && this.pattern.frequency) {
+          const offset =
+            Math.sin(this.patternTime * this.pattern.frequency) * this.pattern.amplitude;
+          this.y = this.startY + offset;
+        }
+        this.x -= this.pattern.speed * deltaSeconds;
+        break;
+    }
+  }
+
+  /**
+   * Take damage
+   */
+  takeDamage(amount: number): boolean {
+    this.hp -= amount;
+    if (this.hp <= 0) {
+      this.hp = 0;
+      return true; // Dead
+    }
+    return false;
+  }
+
+  /**
+   * Roll the archetype's drop table
+   */
+  shouldDropPowerUp(): PowerUpType['type'] | null {
+    return rollDrop(this.archetype.drops, this.rng.random());
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * Base class for headless simulation entities
+ */
+
+import type { HitboxSize } from './Hitboxes';
+
+export abstract class SimEntity {
+  public readonly id: number;
+  public x: number;
+  public y: number;
+  public width: number;
+  public height: number;
+  public scale: number = 1;
+  public active: boolean = true;
+  // Position at the start of the current step, for render interpolation
+  public prevX: number;
+  public prevY: number;
+
+  constructor(id: number, x: number, y: number, hitbox: HitboxSize) {
+    this.id = id;
+    this.x = x;
+    this.y = y;
+    this.prevX = x;
+    this.prevY = y;
+    this.width = hitbox.width;
+    this.height = hitbox.height;
+  }
+
+  /**
+   * Remember the current position before the simulation moves the entity
+   */
+  savePrevious(): void {
+    this.prevX = this.x;
+    this.prevY = this.y;
+  }
+
+  /**
+   * Position between the previous and current step (alpha 0..1)
+   */
+  interpolatedX(alpha: number): number {
+    return this.prevX + (this.x - this.prevX) * alpha;
+  }
+
+  interpolatedY(alpha: number): number {
+    return this.prevY + (this.y - this.prevY) * alpha;
+  }
+
+  /**
+   * Scaled width (matches Phaser's displayWidth)
+   */
+  get displayWidth(): number {
+    return this.width * this.scale;
+  }
+
+  /**
+   * Scaled height (matches Phaser's displayHeight)
+   */
+  get displayHeight(): number {
+    return this.height * this.scale;
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * Events emitted by the simulation during a step
+ * The renderer turns these into sound, particles, flashes and screen shake
+ */
+
+import type { PowerUpType } from '../types';
+import type { PowerUpChange } from '../systems/PowerUps';
+
+export type SimEvent =
+  | { type: 'playerShot'; charged: boolean }
+  | { type: 'bulletImpact'; x: number; y: number; color: number }
+  | { type: 'enemyHit'; enemyId: number }
+  | { type: 'enemyKilled'; enemyId: number; enemyType: string; x: number; y: number; score: number }
+  | { type: 'enemyExploded'; enemyId: number; x: number; y: number }
+  | { type: 'formationWiped'; formationId: number; x: number; y: number; bonus: number }
+  | { type: 'chainBroken'; chain: number }
+  | { type: 'graze'; x: number; y: number }
+  | { type: 'extend'; extends: number; bonus?: number } // bonus: paid instead of a life when full
+  | { type: 'playerHit'; x: number; y: number; heavy: boolean; lethal: boolean }
+  | { type: 'shieldBlock'; x: number; y: number }
+  | { type: 'shieldActivated' }
+  | { type: 'bombUsed'; x: number; y: number }
+  | { type: 'bulletsCanceled'; x: number; y: number; count: number }
+  | { type: 'scoreItemsCollected'; count: number; score: number }
+  | { type: 'powerUpCollected'; powerUpType: PowerUpType['type'] }
+  | ({ type: 'powerUpChanged' } & PowerUpChange)
+  | { type: 'bossSpawned'; bossId: number; bossNumber: number }
+  | { type: 'bossHit'; bossId: number }
+  | { type: 'bossKilled'; bossId: number; x: number; y: number }
+  | { type: 'victory' }
+  | { type: 'defeat' };
+
+export type SimEventType = SimEvent['type'];
@@ -0,0 +1,54 @@
+/**
+ * Headless formation: a group of enemies spawned together
+ *
+ * Tracks the group's leader and how each member left play, so the simulation
+ * can break the formation when the leader falls and pay a bonus when every
+ * member was destroyed.
+ */
+
+export class SimFormation {
+  public readonly id: number;
+  public readonly size: number;
+  public readonly bonus: number;
+  public readonly leaderId: number | null;
+  public killed: number = 0;
+  public lost: number = 0; // Members that left the screen, rammed the player or exploded
+  public leaderless: boolean = false;
+
+  constructor(id: number, size: number, bonus: number, leaderId: number | null) {
+    this.id = id;
+    this.size = size;
+    this.bonus = bonus;
+    this.leaderId = leaderId;
+  }
+
+  /**
+   * Members still in play
+   */
+  get remaining(): number {
+    return this.size - this.killed - this.lost;
+  }
+
+  /**
+   * Every member was destroyed
+   */
+  get wiped(): boolean {
+    return this.killed === this.size;
+  }
+
+  /**
+   * Record a member leaving play (`killed` if destroyed)
+   * Returns true when this kill wiped out the formation
+   */
+  remove(enemyId: number, killed: boolean): boolean {
+    if (killed) {
+      this.killed++;
+    } else {
+      this.lost++;
+    }
+    if (enemyId === this.leaderId) {
+      this.leaderless = true;
+    }
+    return killed && this.wiped;
+  }
+}
@@ -0,0 +1,189 @@
+/**
+ * Headless player state: charge, i-frames and the active shield; lives, weapons,
+ * bombs and shields are kept by its PowerUpSystem
+ */
+
+import { BALANCER } from '../systems/Balancer';
+import { PowerUpSystem, type PowerUpOptions } from '../systems/PowerUps';
+import type { WeaponFamily, WeaponSpec } from '../types';
+import { SimEntity } from './SimEntity';
+import { HITBOXES } from './Hitboxes';
+
+export class SimPlayer extends SimEntity {
+  public readonly powerUps: PowerUpSystem;
+  public chargeTime: number = 0;
+  public fireTimer: number = 0;
+  public iframeTimer: number = 0;
+  public isInvincible: boolean = false;
+  public shieldTimer: number = 0; // Timer for active shield (in milliseconds)
+  public isShielded: boolean = false;
+  public speed: number = BALANCER.playerSpeed;
+
+  constructor(id: number, x: number, y: number, powerUps: PowerUpOptions = {}) {
+    super(id, x, y, HITBOXES.player);
+    this.powerUps = new PowerUpSystem(powerUps);
+  }
+
+  get lives(): number {
+    return this.powerUps.lives;
+  }
+
+  set lives(value: number) {
+    this.powerUps.set('lives', value);
+  }
+
+  get weapon(): WeaponFamily {
+    return this.powerUps.weapon;
+  }
+
+  /**
+   * Level of the active weapon family
+   */
+  get weaponTier(): number {
+    return this.powerUps.weaponTier;
+  }
+
+  set weaponTier(value: number) {
+    this.powerUps.set('weaponTier', value);
+  }
+
+  get bombs(): number {
+    return this.powerUps.bombs;
+  }
+
+  get shields(): number {
+    return this.powerUps.shields;
+  }
+
+  /**
+   * Get current weapon spec (supports unlimited tiers)
+   */
+  getWeaponSpec(): WeaponSpec {
+    return this.powerUps.weaponSpec;
+  }
+
+  /**
+   * Advance shield and invincibility timers
+   */
+  update(delta: number): void {
+    if (this.shieldTimer > 0) {
+      this.shieldTimer -= delta;
+      this.isShielded = this.shieldTimer > 0;
+      if (!this.isShielded) {
+        this.shieldTimer = 0;
+      }
+    } else {
+      this.isShielded = false;
+    }
+
+    if (this.iframeTimer > 0) {
+      this.iframeTimer -= delta;
+      this.isInvincible = this.iframeTimer > 0;
+    } else {
+      this.isInvincible = false;
+    }
+  }
+
+  /**
+   * Take damage
+   */
+  takeDamage(): void {
+    if (this.isInvincible) {
+      return;
+    }
+
+    // Shield blocks all damage
+    if (this.isShielded) {
+      return;
+    }
+
+    this.powerUps.loseLife();
+    this.iframeTimer = BALANCER.playerIFramesMs;
+    this.isInvincible = true;
+  }
+
+  /**
+   * Activate shield (BALANCER.shieldDurationMs)
+   */
+  activateShield(): boolean {
+    if (!this.isShielded && this.powerUps.useShield()) {
+      this.shieldTimer = BALANCER.shieldDurationMs;
+      this.isShielded = true;
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Get shield radius for collision detection
+   */
+  getShieldRadius(): number {
+    if (!this.isShielded) {
+      return 0;
+    }
+    return Math.max(this.width, this.height) * 0.8; // Match visual radius
+  }
+
+  /**
+   * Add shield (capped at BALANCER.maxShields)
+   */
+  addShield(): void {
+    this.powerUps.addShield();
+  }
+
+  /**
+   * Add charge time (call when holding fire button)
+   */
+  addChargeTime(delta: number): void {
+    this.chargeTime += delta;
+  }
+
+  /**
+   * Reset charge time (call when releasing fire button)
+   */
+  resetChargeTime(): void {
+    this.chargeTime = 0;
+  }
+
+  /**
+   * Check if charge shot is ready
+   */
+  isChargeShotReady(): boolean {
+    return this.chargeTime >= BALANCER.playerChargeShotTime;
+  }
+
+  /**
+   * Level up the active weapon (capped at its family's max level)
+   */
+  upgradeWeapon(): void {
+    this.powerUps.upgradeWeapon();
+  }
+
+  /**
+   * Add bomb
+   */
+  addBomb(): void {
+    this.powerUps.addBomb();
+  }
+
+  /**
+   * Use bomb
+   */
+  useBomb(): boolean {
+    return this.powerUps.useBomb();
+  }
+
+  /**
+   * Add life (can increase up to max lives via power-ups); false if lives were already at the max
+   */
+  addLife(): boolean {
+    return this.powerUps.addLife();
+  }
+
+  /**
+   * Check if player is alive
+   */
+  isAlive(): boolean {
+    return this.lives > 0;
+  }
+}
@@ -0,0 +1,27 @@
+/**
+ * Headless power-up pickup (weapon, bomb, health, shield)
+ */
+
+import type { PowerUpType } from '../types';
+import { SimEntity } from './SimEntity';
+import { HITBOXES } from './Hitboxes';
+
+export class SimPowerUp extends SimEntity {
+  public powerUpType: PowerUpType;
+  public value: number;
+
+  constructor(id: number, x: number, y: number, type: PowerUpType) {
+    super(id, x, y, HITBOXES.powerUp);
+    this.powerUpType = type;
+    this.value = type.value;
+  }
+
+  /**
+   * Deactivate once scrolled off the left edge (scrolling handled by Simulation)
+   */
+  update(_delta: number): void {
+    if (this.x < -100) {
+      this.active = false;
+    }
+  }
+}
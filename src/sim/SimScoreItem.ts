@@ -0,0 +1,43 @@
+/**
+ * Headless score item left by a canceled enemy bullet: it hangs for a moment, then
+ * flies to the player and is collected on contact
+ */
+
+import { BALANCER } from '../systems/Balancer';
+import { SimEntity } from './SimEntity';
+import { HITBOXES } from './Hitboxes';
+
+export class SimScoreItem extends SimEntity {
+  public value: number;
+  public age: number = 0;
+  public speed: number = 0;
+
+  constructor(id: number, x: number, y: number, value: number) {
+    super(id, x, y, HITBOXES.scoreItem);
+    this.value = value;
+  }
+
+  /**
+   * Fly towards the player once the delay is over, speeding up as it goes
+   */
+  update(delta: number, targetX: number, targetY: number): void {
+    this.age += delta;
+    if (this.age < BALANCER.scoreItems.delayMs) {
+      return;
+    }
+
+    const deltaSeconds = delta / 1000;
+    const { acceleration, maxSpeed } = BALANCER.scoreItems;
+    this.speed = Math.min(maxSpeed, this.speed + acceleration * deltaSeconds);
+
+    const dx = targetX - this.x;
+    const dy = targetY - this.y;
+    const dist = Math.sqrt(dx * dx + dy * dy);
+    if (dist === 0) {
+      return;
+    }
+    const step = Math.min(dist, this.speed * deltaSeconds);
+    this.x += (dx / dist) * step;
+    this.y += (dy / dist) * step;
+  }
+}
@@ -0,0 +1,1478 @@
+/**
+ * Simulation - Headless, deterministic game rules
+ *
+ * Owns the GameState, every entity, spawning, collisions and scoring.
+ * Advances from a seed and a per-frame InputState without touching Phaser,
+ * so whole runs can be stepped in vitest or Node. GameScene renders its output.
+ */
+
+import { GAME_CONFIG } from '../config/constants';
+import { BALANCER } from '../systems/Balancer';
+import { RNG } from '../systems/RNG';
+import { SpawnerSystem } from '../systems/SpawnerSystem';
+import { CollisionSystem } from '../systems/CollisionSystem';
+import {
+  BulletMLRunner,
+  type Bullet,
+  type BulletMLEmitter,
+  type BulletMLRunnerState,
+} from '../systems/BulletMLRunner';
+import { isBulletMLRef, parseBulletML, type BulletMLDocument } from '../systems/BulletML';
+import { buildPatternLibrary, type BulletPat, type Wave } from '../systems/PatternML';
+import { DEFAULT_BOSSES } from '../systems/BossDefinitions';
+import { enemyRegistry } from '../systems/EnemyArchetypes';
+import { compilePaths, type CompiledPath, type PathDef } from '../systems/Paths';
+import { weaponFamilyFor } from '../systems/PowerUps';
+import {
+  difficultyPreset,
+  extendThreshold,
+  scaleArchetype,
+  scaleBoss,
+  scalePatternRate,
+  type DifficultyName,
+  type DifficultyPreset,
+} from '../systems/Difficulty';
+import { ENEMY_TYPES } from '../entities/EnemyTypes';
+import { logger } from '../utils/logger';
+import type { InputState } from '../systems/InputSystem';
+import type {
+  BossDefinition,
+  EnemyArchetype,
+  GameState,
+  PowerUpType,
+  WeaponSpec,
+} from '../types';
+import type { SimEvent } from './SimEvents';
+import type { SimEntity } from './SimEntity';
+import { SimPlayer } from './SimPlayer';
+import { SimEnemy } from './SimEnemy';
+import { SimBullet, type BulletSource } from './SimBullet';
+import { SimPowerUp } from './SimPowerUp';
+import { SimScoreItem } from './SimScoreItem';
+import { SimBoss } from './SimBoss';
+import { SimFormation } from './SimFormation';
+import { Rank } from './Rank';
+import { Chain } from './Chain';
+import { WaveSpawner, formationSlot, leaderSlot } from './WaveSpawner';
+import {
+  SNAPSHOT_VERSION,
+  saveBoss,
+  saveBullet,
+  saveEnemy,
+  saveFormation,
+  savePlayer,
+  savePowerUp,
+  saveScoreItem,
+  type SimSnapshot,
+} from './Snapshot';
+
+export interface SimulationOptions {
+  /** RNG seed for the run */
+  seed: string | number;
+  /** Debug: start after the first boss with max weapon tier */
+  afterFirstBoss?: boolean;
+  /** Debug: player takes no damage */
+  godMode?: boolean;
+  /** Play area width (defaults to GAME_CONFIG.width) */
+  width?: number;
+  /** Play area height (defaults to GAME_CONFIG.height) */
+  height?: number;
+  /** Stage content; when empty, enemies come from BALANCER.spawnSchedule */
+  waves?: Wave[];
+  /** Named bullet patterns that waves, bosses and other patterns refer to */
+  patterns?: BulletPat[];
+  /** Bosses in order of appearance; when empty, DEFAULT_BOSSES */
+  bosses?: BossDefinition[];
+  /** Enemy archetypes that waves and the spawn schedule refer to; when empty, ENEMY_TYPES */
+  enemies?: EnemyArchetype[];
+  /** Named flight paths that waves refer to */
+  paths?: PathDef[];
+  /** BulletML script sources by file (e.g. "bulletml/spiral.xml") that fire patterns can name */
+  scripts?: Record<string, string>;
+  /** Start the wave timeline this many ms in, skipping the waves before it */
+  startAtMs?: number;
+  /** Start in the wave phase after this many bosses, as if they had been defeated */
+  bossesDefeated?: number;
+  /** Difficulty preset scaling HP, fire rates, bullet speed, drops, lives and spawns (default normal) */
+  difficulty?: DifficultyName;
+}
+
+export type SimulationStatus = 'running' | 'victory' | 'defeat';
+
+/**
+ * Named RNG streams, each forked from the run seed so one system's rolls never shift another's
+ */
+export const RNG_STREAMS = ['spawns', 'drops', 'patterns'] as const;
+export type RNGStreamName = (typeof RNG_STREAMS)[number];
+
+export class Simulation {
+  public readonly streams: Record<RNGStreamName, RNG>;
+  public readonly options: SimulationOptions;
+  public readonly width: number;
+  public readonly height: number;
+  public readonly godMode: boolean;
+  public readonly difficulty: DifficultyPreset;
+  public readonly bosses: BossDefinition[];
+  public readonly enemyTypes: Readonly<Record<string, EnemyArchetype>>;
+  public readonly paths: ReadonlyMap<string, CompiledPath>;
+  public readonly scripts: ReadonlyMap<string, BulletMLDocument>;
+  public readonly rank: Rank = new Rank();
+  public readonly chain: Chain = new Chain();
+  public player: SimPlayer;
+  public bullets: SimBullet[] = [];
+  public enemies: SimEnemy[] = [];
+  public powerUps: SimPowerUp[] = [];
+  public scoreItems: SimScoreItem[] = []; // Canceled bullets on their way to the player
+  public boss: SimBoss | null = null;
+  public formations: SimFormation[] = []; // Formations with members still in play
+  public state: GameState;
+  public status: SimulationStatus = 'running';
+  public frame: number = 0;
+  public scrollingPaused: boolean = false;
+  public bossPosition: number = 0;
+  public bossTimer: number = 0; // Timer for boss spawns (pauses during boss fight)
+  public bossCount: number = 0; // Track which boss number (1st, 2nd, 3rd, etc.)
+  public spawnTimer: number = 0; // Separate timer for enemy spawning (never pauses)
+  public lastSpawnCheckTime: number = 0; // Last spawn check time to avoid duplicates
+  public spawnRateMultiplier: number = 1.0; // Enemy spawn rate (increases after each boss)
+  public spawnCountMultiplier: number = 1.0; // Enemies per spawn (grows every spawnCountGrowthEverySec)
+  public lastSpawnCountIncreaseTime: number = 0;
+  private stageTimeMs: number = 0;
+  private spawnerSystem: SpawnerSystem;
+  private collisionSystem: CollisionSystem;
+  private waveSpawner: WaveSpawner;
+  private patternRunner: BulletMLRunner<SimBullet>;
+  private bossPatternRunner: BulletMLRunner<SimBullet>;
+  private nextId: number = 1;
+  private prevBomb: boolean = false;
+  private prevShield: boolean = false;
+  private grazeMeter: number = 0; // 0..1, a full meter refills a shield
+  // Running BulletML emitters (one at most per host), moved with the enemy or boss that fired them
+  private scriptEmitters: {
+    hostId: number;
+    emitter: BulletMLEmitter;
+    runner: BulletMLRunner<SimBullet>;
+  }[] = [];
+  private events: SimEvent[] = [];
+
+  constructor(options: SimulationOptions) {
+    this.options = { ...options };
+    const rng = new RNG(options.seed);
+    this.streams = Object.fromEntries(RNG_STREAMS.map((name) => [name, rng.fork(name)])) as Record<
+      RNGStreamName,
+      RNG
+    >;
+    this.width = options.width ?? GAME_CONFIG.width;
+    this.height = options.height ?? GAME_CONFIG.height;
+    this.godMode = options.godMode ?? false;
+    this.spawnerSystem = new SpawnerSystem(this.streams.spawns);
+    this.collisionSystem = new CollisionSystem();
+    this.difficulty = difficultyPreset(options.difficulty);
+    this.waveSpawner = new WaveSpawner(options.waves ?? []);
+    this.bosses = (options.bosses?.length ? options.bosses : DEFAULT_BOSSES).map((boss) =>
+      scaleBoss(boss, this.difficulty)
+    );
+    this.enemyTypes = enemyRegistry(
+      (options.enemies?.length ? options.enemies : Object.values(ENEMY_TYPES)).map((enemy) =>
+        scaleArchetype(enemy, this.difficulty)
+      )
+    );
+    this.paths = compilePaths(options.paths ?? [], this.width, this.height);
+    this.scripts = new Map(
+      Object.entries(options.scripts ?? {}).map(([file, xml]) => [file, parseBulletML(xml)])
+    );
+    this.patternRunner = new BulletMLRunner(
+      (init) => this.createPatternBullet(init, 'enemy'),
+      this.streams.patterns
+    );
+    this.patternRunner.patterns = buildPatternLibrary(
+      options.patterns ?? [],
+      options.waves,
+      this.bosses,
+      Object.values(this.enemyTypes)
+    );
+    this.bossPatternRunner = new BulletMLRunner(
+      (init) => this.createPatternBullet(init, 'boss'),
+      this.streams.patterns
+    );
+    this.bossPatternRunner.patterns = this.patternRunner.patterns;
+    this.player = new SimPlayer(this.allocateId(), 100, this.height / 2, {
+      lives: this.difficulty.lives,
+      weaponTierLossOnHit: this.difficulty.weaponTierLossOnHit,
+    });
+    this.watchPowerUps();
+
+    if (options.afterFirstBoss) {
+      // First boss was spawned and defeated, so we're waiting for the second boss
+      this.stageTimeMs = 50000;
+      this.bossCount = 1;
+      this.spawnRateMultiplier = BALANCER.spawnRateGrowthPerBoss;
+      this.player.weaponTier = BALANCER.maxWeaponTier;
+    }
+    if (options.bossesDefeated) {
+      this.bossCount = options.bossesDefeated;
+      this.spawnRateMultiplier = BALANCER.spawnRateGrowthPerBoss ** options.bossesDefeated;
+    }
+    if (options.startAtMs) {
+      this.skipTo(options.startAtMs);
+    }
+
+    this.state = {
+      score: 0,
+      lives: this.player.lives,
+      weapon: this.player.weapon,
+      weaponTier: this.player.weaponTier,
+      bombs: this.player.bombs,
+      shields: this.player.shields,
+      stageTime: this.stageTimeMs / 1000,
+      chain: 0,
+      chainMultiplier: 1,
+      graze: 0,
+      grazeMeter: 0,
+      extends: 0,
+      bossActive: false,
+      paused: false,
+    };
+  }
+
+  /**
+   * Rebuild a simulation from a snapshot; stepping it continues the saved run exactly
+   */
+  static fromSnapshot(snapshot: SimSnapshot): Simulation {
+    const sim = new Simulation(snapshot.options);
+    sim.restore(snapshot);
+    return sim;
+  }
+
+  /**
+   * Swap new stage content into a snapshot (live entities keep what they were spawned with);
+   * the wave timeline carries on from the same time in the new waves. Running BulletML scripts
+   * stop, as the new scripts may not match where they were; their bullets fly on unscripted
+   */
+  static reloadContent(
+    snapshot: SimSnapshot,
+    content: Pick<
+      SimulationOptions,
+      'waves' | 'patterns' | 'bosses' | 'enemies' | 'paths' | 'scripts'
+    >
+  ): SimSnapshot {
+    const { timers } = snapshot;
+    const waveSpawner = new WaveSpawner(content.waves ?? []);
+    waveSpawner.skipTo(timers.waves.lastMs);
+    return {
+      ...snapshot,
+      options: { ...snapshot.options, ...content },
+      timers: { ...timers, waves: waveSpawner.getState() },
+      bulletML: {
+        enemy: { ...snapshot.bulletML.enemy, actors: [] },
+        boss: { ...snapshot.bulletML.boss, actors: [] },
+      },
+    };
+  }
+
+  /**
+   * Capture everything needed to resume this run later
+   */
+  toSnapshot(stepHz: number): SimSnapshot {
+    return {
+      version: SNAPSHOT_VERSION,
+      savedAt: new Date().toISOString(),
+      stepHz,
+      options: { ...this.options },
+      rng: Object.fromEntries(RNG_STREAMS.map((name) => [name, this.streams[name].getState()])),
+      state: { ...this.state },
+      timers: {
+        frame: this.frame,
+        stageTimeMs: this.stageTimeMs,
+        bossTimer: this.bossTimer,
+        bossCount: this.bossCount,
+        bossPosition: this.bossPosition,
+        scrollingPaused: this.scrollingPaused,
+        spawnTimer: this.spawnTimer,
+        lastSpawnCheckTime: this.lastSpawnCheckTime,
+        spawnRateMultiplier: this.spawnRateMultiplier,
+        spawnCountMultiplier: this.spawnCountMultiplier,
+        lastSpawnCountIncreaseTime: this.lastSpawnCountIncreaseTime,
+        nextId: this.nextId,
+        prevBomb: this.prevBomb,
+        prevShield: this.prevShield,
+        grazeMeter: this.grazeMeter,
+        waves: this.waveSpawner.getState(),
+        rank: this.rank.getState(),
+        chain: this.chain.getState(),
+      },
+      player: savePlayer(this.player),
+      enemies: this.enemies.map(saveEnemy),
+      bullets: this.bullets.map(saveBullet),
+      powerUps: this.powerUps.map(savePowerUp),
+      scoreItems: this.scoreItems.map(saveScoreItem),
+      boss: this.boss ? saveBoss(this.boss) : null,
+      formations: this.formations.map(saveFormation),
+      bulletML: {
+        enemy: this.saveScripts(this.patternRunner),
+        boss: this.saveScripts(this.bossPatternRunner),
+      },
+    };
+  }
+
+  /**
+   * A runner's running scripts, naming documents by script file and bullets by id
+   */
+  private saveScripts(runner: BulletMLRunner<SimBullet>): BulletMLRunnerState {
+    const files = new Map([...this.scripts].map(([file, doc]) => [doc, file]));
+    return runner.getState({ doc: (doc) => files.get(doc) ?? '', bullet: (b) => b.id });
+  }
+
+  /**
+   * Restart a runner's saved scripts once its bullets are restored, following their hosts again
+   */
+  private restoreScripts(runner: BulletMLRunner<SimBullet>, state: BulletMLRunnerState): void {
+    const bullets = new Map(runner.bullets.map((b) => [b.id, b]));
+    const emitters = runner.setState(state, {
+      doc: (file) => this.scripts.get(file),
+      bullet: (id) => bullets.get(id),
+    });
+    for (const emitter of emitters) {
+      this.scriptEmitters.push({ hostId: emitter.host, emitter, runner });
+    }
+  }
+
+  /**
+   * Position on the wave timeline: phase time, sped up after each boss
+   */
+  get waveTimeMs(): number {
+    return this.bossTimer * this.spawnRateMultiplier * 1000;
+  }
+
+  /**
+   * Bosses defeated so far (bossCount also counts a boss still being fought)
+   */
+  get bossesDefeated(): number {
+    return this.boss ? this.bossCount - 1 : this.bossCount;
+  }
+
+  /**
+   * Fast-forward the phase clock to wave time `stageMs` as if the run had got there without spawning
+   */
+  private skipTo(stageMs: number): void {
+    const phaseSec = stageMs / 1000 / this.spawnRateMultiplier;
+    this.bossTimer = phaseSec;
+    this.stageTimeMs += phaseSec * 1000;
+    this.lastSpawnCheckTime = phaseSec;
+    // Enemy counts grow every spawnCountGrowthEverySec of phase time
+    const every = BALANCER.spawnCountGrowthEverySec;
+    const increases = Math.floor(phaseSec / every);
+    this.spawnCountMultiplier = BALANCER.spawnCountGrowth ** increases;
+    this.lastSpawnCountIncreaseTime = increases * every;
+    this.waveSpawner.skipTo(stageMs);
+  }
+
+  private restore(snapshot: SimSnapshot): void {
+    const { timers } = snapshot;
+    for (const name of RNG_STREAMS) {
+      const state = snapshot.rng[name];
+      if (!state) {
+        throw new Error(`Snapshot is missing RNG stream: ${name}`);
+      }
+      this.streams[name].setState(state);
+    }
+    this.state = { ...snapshot.state, paused: false };
+    this.frame = timers.frame;
+    this.stageTimeMs = timers.stageTimeMs;
+    this.bossTimer = timers.bossTimer;
+    this.bossCount = timers.bossCount;
+    this.bossPosition = timers.bossPosition;
+    this.scrollingPaused = timers.scrollingPaused;
+    this.spawnTimer = timers.spawnTimer;
+    this.lastSpawnCheckTime = timers.lastSpawnCheckTime;
+    this.spawnRateMultiplier = timers.spawnRateMultiplier;
+    this.spawnCountMultiplier = timers.spawnCountMultiplier;
+    this.lastSpawnCountIncreaseTime = timers.lastSpawnCountIncreaseTime;
+    this.nextId = timers.nextId;
+    this.prevBomb = timers.prevBomb;
+    this.prevShield = timers.prevShield;
+    this.grazeMeter = timers.grazeMeter;
+    this.waveSpawner.setState(timers.waves);
+
+    const { powerUps, ...saved } = snapshot.player;
+    this.player = Object.assign(
+      new SimPlayer(saved.id, saved.x, saved.y, {
+        weaponTierLossOnHit: this.difficulty.weaponTierLossOnHit,
+      }),
+      saved
+    );
+    this.player.powerUps.setState(powerUps);
+    this.watchPowerUps();
+    this.rank.setState(timers.rank, this.player.weaponTier);
+    this.chain.setState(timers.chain);
+    this.enemies = snapshot.enemies.map((e) => {
+      const enemy = Object.assign(
+        new SimEnemy(e.id, e.x, e.y, this.archetype(e.enemyType), this.streams.drops, this.width),
+        e
+      );
+      enemy.setFormationRng(this.streams.patterns);
+      const path = e.pathName !== null ? this.paths.get(e.pathName) : undefined;
+      if (path) {
+        enemy.setPath(path);
+      }
+      return enemy;
+    });
+    this.bullets = snapshot.bullets.map((b) =>
+      Object.assign(new SimBullet(b.id, b.x, b.y, b.angle, b.speed, b.damage, b.source), b)
+    );
+    this.patternRunner.bullets = this.bullets.filter((b) => b.scripted && b.source === 'enemy');
+    this.bossPatternRunner.bullets = this.bullets.filter((b) => b.scripted && b.source === 'boss');
+    this.restoreScripts(this.patternRunner, snapshot.bulletML.enemy);
+    this.restoreScripts(this.bossPatternRunner, snapshot.bulletML.boss);
+    this.powerUps = snapshot.powerUps.map((p) =>
+      Object.assign(new SimPowerUp(p.id, p.x, p.y, p.powerUpType), p)
+    );
+    this.scoreItems = snapshot.scoreItems.map((item) =>
+      Object.assign(new SimScoreItem(item.id, item.x, item.y, item.value), item)
+    );
+    this.formations = snapshot.formations.map((f) =>
+      Object.assign(new SimFormation(f.id, f.size, f.bonus, f.leaderId), f)
+    );
+    const boss = snapshot.boss;
+    // The live boss is always the latest one spawned
+    this.boss = boss
+      ? Object.assign(new SimBoss(boss.id, boss.x, boss.y, this.bosses[this.bossCount - 1]!), boss)
+      : null;
+  }
+
+  /**
+   * Advance the simulation by one frame
+   * Returns the events produced during this step
+   */
+  step(input: InputState, delta: number): SimEvent[] {
+    this.events = [];
+    if (this.status !== 'running') {
+      return this.events;
+    }
+
+    this.frame++;
+    this.savePreviousPositions();
+
+    // Update stage time
+    this.stageTimeMs += delta;
+    this.state.stageTime = this.stageTimeMs / 1000;
+
+    // Boss timer only runs outside boss fights
+    if (!this.state.bossActive && delta > 0) {
+      this.bossTimer += delta / 1000;
+    }
+    if (delta > 0) {
+      this.spawnTimer += delta / 1000;
+    }
+
+    this.updatePlayer(input, delta);
+    this.player.update(delta);
+
+    // Patterns fired this step see the current rank and bullet speed, and aim (even from
+    // running scripts) at where the player is now
+    for (const runner of [this.patternRunner, this.bossPatternRunner]) {
+      runner.rank = this.rank.value;
+      runner.speedScale = this.difficulty.bulletSpeed * this.rank.bulletSpeed;
+      runner.target = { x: this.player.x, y: this.player.y };
+    }
+
+    this.updateSpawning();
+
+    this.updateBullets(delta);
+    this.updateEnemies(delta);
+    this.updatePowerUps(delta);
+    this.updateScoreItems(delta);
+    if (this.boss) {
+      this.updateBoss(delta);
+    }
+
+    if (this.status === 'running') {
+      this.checkCollisions();
+    }
+
+    const expired = this.chain.update(delta);
+    if (expired > 0) {
+      this.emit({ type: 'chainBroken', chain: expired });
+    }
+    this.checkExtends();
+
+    this.syncState();
+    this.rank.update(delta, this.state.score, this.player.weaponTier);
+
+    if (this.status === 'running' && !this.player.isAlive()) {
+      this.status = 'defeat';
+      this.emit({ type: 'defeat' });
+    }
+
+    return this.events;
+  }
+
+  private savePreviousPositions(): void {
+    this.player.savePrevious();
+    for (const entity of [...this.bullets, ...this.enemies, ...this.powerUps, ...this.scoreItems]) {
+      entity.savePrevious();
+    }
+    this.boss?.savePrevious();
+  }
+
+  private allocateId(): number {
+    return this.nextId++;
+  }
+
+  private emit(event: SimEvent): void {
+    this.events.push(event);
+  }
+
+  /**
+   * Report the player's weapon, bomb, shield and life changes as events
+   */
+  private watchPowerUps(): void {
+    this.player.powerUps.onChange((change) => this.emit({ type: 'powerUpChanged', ...change }));
+  }
+
+  private syncState(): void {
+    this.state.lives = this.player.lives;
+    this.state.weapon = this.player.weapon;
+    this.state.weaponTier = this.player.weaponTier;
+    this.state.bombs = this.player.bombs;
+    this.state.shields = this.player.shields;
+    this.state.chain = this.chain.length;
+    this.state.chainMultiplier = this.chain.multiplier;
+    this.state.grazeMeter = this.grazeMeter;
+  }
+
+  private updatePlayer(input: InputState, delta: number): void {
+    const player = this.player;
+    const speed = player.speed * (delta / 1000);
+
+    if (input.left) player.x -= speed;
+    if (input.right) player.x += speed;
+    if (input.up) player.y -= speed;
+    if (input.down) player.y += speed;
+
+    // Clamp to play area - account for sprite size
+    const halfWidth = player.displayWidth / 2;
+    const halfHeight = player.displayHeight / 2;
+
+    if (this.state.bossActive && this.bossPosition > 0) {
+      // During boss fight, prevent player from moving past boss
+      const maxX = Math.min(this.bossPosition - 150, this.width - halfWidth);
+      player.x = Math.max(halfWidth, Math.min(maxX, player.x));
+    } else {
+      player.x = Math.max(halfWidth, Math.min(this.width - halfWidth, player.x));
+    }
+    player.y = Math.max(halfHeight, Math.min(this.height - halfHeight, player.y));
+
+    // Firing
+    if (input.fire) {
+      player.addChargeTime(delta);
+      player.fireTimer += delta;
+      const weaponSpec = player.getWeaponSpec();
+      const fireInterval = 1000 / weaponSpec.fireRate;
+
+      if (player.fireTimer >= fireInterval) {
+        player.fireTimer = 0;
+        const charged = player.isChargeShotReady();
+        this.fireBullets(weaponSpec, charged);
+        if (charged) {
+          player.resetChargeTime();
+        }
+      }
+    } else {
+      player.resetChargeTime();
+      player.fireTimer = 0;
+    }
+
+    // Bomb and shield trigger on the frame the button goes down
+    if (input.bomb && !this.prevBomb) {
+      this.useBomb();
+    }
+    if (input.shield && !this.prevShield) {
+      this.useShield();
+    }
+    this.prevBomb = input.bomb;
+    this.prevShield = input.shield;
+  }
+
+  private fireBullets(weaponSpec: WeaponSpec, isCharged: boolean): void {
+    const damage = isCharged ? weaponSpec.damage * BALANCER.chargeShotDamage : weaponSpec.damage;
+    const count = isCharged ? weaponSpec.bulletCount * 2 : weaponSpec.bulletCount;
+    const spread = isCharged ? weaponSpec.spreadAngle * 1.5 : weaponSpec.spreadAngle;
+
+    this.emit({ type: 'playerShot', charged: isCharged });
+
+    for (let i = 0; i < count; i++) {
+      let angleOffset = 0;
+
+      // First bullet always goes straight, the rest are distributed around it
+      if (count > 1 && i > 0) {
+        const totalSpread = (spread / 180) * Math.PI * 0.5; // Half spread on each side
+        const numSideBullets = count - 1;
+
+        if (numSideBullets === 1) {
+          angleOffset = totalSpread;
+        } else {
+          const t = (i - 1) / (numSideBullets - 1); // 0 to 1
+          angleOffset = -totalSpread + t * (totalSpread * 2);
+        }
+      }
+
+      this.firePlayerBullet(weaponSpec, angleOffset, damage, isCharged);
+    }
+
+    // Tail gun: the rear bullets fan out behind the player
+    const rearCount = weaponSpec.rearBulletCount ?? 0;
+    const rearSpread = ((weaponSpec.rearSpreadAngle ?? 0) / 180) * Math.PI;
+    for (let i = 0; i < rearCount; i++) {
+      const t = rearCount > 1 ? i / (rearCount - 1) - 0.5 : 0; // -0.5 to 0.5
+      this.firePlayerBullet(weaponSpec, Math.PI + t * rearSpread, damage, isCharged);
+    }
+  }
+
+  private firePlayerBullet(
+    weaponSpec: WeaponSpec,
+    angle: number,
+    damage: number,
+    isCharged: boolean
+  ): void {
+    const bullet = new SimBullet(
+      this.allocateId(),
+      this.player.x,
+      this.player.y,
+      angle,
+      weaponSpec.bulletSpeed,
+      damage,
+      'player'
+    );
+    if (isCharged) {
+      bullet.charged = true;
+      bullet.scale = BALANCER.chargeShotSize;
+    }
+    bullet.family = weaponSpec.family ?? 'spread';
+    bullet.pierce = weaponSpec.pierce ?? 0;
+    bullet.homingTurnRate = weaponSpec.homingTurnRate ?? 0;
+    bullet.waveAmplitude = weaponSpec.waveAmplitude ?? 0;
+    bullet.waveFrequency = weaponSpec.waveFrequency ?? 0;
+    bullet.beamLength = weaponSpec.beamLength ?? 0;
+    this.bullets.push(bullet);
+  }
+
+  private updateSpawning(): void {
+    // Enemies ALWAYS spawn EXCEPT when a boss is on screen; the game ends after the last boss
+
+    // Check boss spawn first to prevent same-frame enemy spawning
+    // Each boss spawns spawnAfterSec into its phase (the boss timer resets after every boss)
+    const nextBoss = this.bosses[this.bossCount];
+    if (!this.state.bossActive && this.boss === null && nextBoss) {
+      if (this.bossTimer >= nextBoss.spawnAfterSec) {
+        const bossX = this.width - 200; // Position boss on right side
+        this.bossPosition = bossX;
+
+        this.boss = new SimBoss(this.allocateId(), bossX, this.height / 2, nextBoss);
+        this.state.bossActive = true;
+        this.scrollingPaused = true;
+        this.bossCount++;
+        this.emit({ type: 'bossSpawned', bossId: this.boss.id, bossNumber: this.bossCount });
+        return;
+      }
+    }
+
+    if (this.state.bossActive || this.boss !== null || !nextBoss) {
+      return;
+    }
+
+    const isPhase1 = this.bossCount === 0;
+    const currentPhaseTime = this.bossTimer; // Resets after first boss
+
+    // Increase spawn count multiplier every spawnCountGrowthEverySec of phase time
+    if (currentPhaseTime - this.lastSpawnCountIncreaseTime >= BALANCER.spawnCountGrowthEverySec) {
+      this.spawnCountMultiplier *= BALANCER.spawnCountGrowth;
+      this.lastSpawnCountIncreaseTime = currentPhaseTime;
+    }
+
+    // Stage content comes from the wave file when one is loaded
+    if (!this.waveSpawner.isEmpty) {
+      for (const wave of this.waveSpawner.due(this.waveTimeMs)) {
+        this.spawnWave(wave);
+      }
+      this.lastSpawnCheckTime = currentPhaseTime;
+      return;
+    }
+
+    const scaledPhaseTime = currentPhaseTime * this.spawnRateMultiplier;
+    const scaledLastCheckTime = this.lastSpawnCheckTime * this.spawnRateMultiplier;
+
+    for (const spawn of BALANCER.spawnSchedule) {
+      const scaledSpawnTime = spawn.time / this.spawnRateMultiplier;
+
+      // Handle timer reset (when bossTimer < lastSpawnCheckTime, timer was reset)
+      const hasTimerReset = this.bossTimer < this.lastSpawnCheckTime;
+      let shouldSpawn = false;
+
+      if (hasTimerReset) {
+        shouldSpawn = scaledSpawnTime <= scaledPhaseTime && scaledSpawnTime >= 0;
+      } else if (!isPhase1 && scaledPhaseTime > 69.5 / this.spawnRateMultiplier) {
+        // Phase 2 and past schedule end - loop the schedule
+        const scheduleEnd = 69.5 / this.spawnRateMultiplier;
+        const loopTime = scaledPhaseTime % scheduleEnd;
+        const loopLastCheck = scaledLastCheckTime % scheduleEnd;
+        shouldSpawn = scaledSpawnTime > loopLastCheck && scaledSpawnTime <= loopTime;
+      } else {
+        shouldSpawn = scaledSpawnTime > scaledLastCheckTime && scaledSpawnTime <= scaledPhaseTime;
+      }
+
+      if (shouldSpawn) {
+        const totalCount = Math.max(
+          1,
+          Math.round(
+            this.spawnCountMultiplier * this.difficulty.spawnDensity * this.rank.spawnCount
+          )
+        );
+        const margin = 80; // Margin from top and bottom
+
+        for (let i = 0; i < totalCount; i++) {
+          // Spread enemies horizontally to avoid exact overlaps
+          const xOffset = (i - (totalCount - 1) / 2) * 20;
+          const y = spawn.y ?? this.spawnerSystem.getRandomSpawnY(margin, this.height - margin);
+          this.spawnEnemy(spawn.enemyType, spawn.x + xOffset, y);
+        }
+      }
+    }
+
+    this.lastSpawnCheckTime = currentPhaseTime;
+  }
+
+  /**
+   * Spawn a single enemy
+   */
+  spawnEnemy(enemyType: string, x: number, y: number): SimEnemy {
+    const archetype = this.archetype(enemyType);
+    const enemy = new SimEnemy(this.allocateId(), x, y, archetype, this.streams.drops, this.width);
+    const firePattern = archetype.firePattern;
+    if (typeof firePattern === 'string' && isBulletMLRef(firePattern)) {
+      enemy.setFireScript(firePattern);
+    } else if (firePattern) {
+      const pattern = this.resolvePattern(firePattern);
+      enemy.setFirePattern(pattern ? scalePatternRate(pattern, this.difficulty) : null);
+    }
+    this.enemies.push(enemy);
+    return enemy;
+  }
+
+  private archetype(enemyType: string): EnemyArchetype {
+    const archetype = this.enemyTypes[enemyType];
+    if (!archetype) {
+      throw new Error(`Unknown enemy type: ${enemyType}`);
+    }
+    return archetype;
+  }
+
+  /**
+   * Inline patterns as-is; names from the pattern library (undefined, after a warning, if missing)
+   */
+  private resolvePattern(pattern: string | BulletPat): BulletPat | undefined {
+    if (typeof pattern !== 'string') {
+      return pattern;
+    }
+    const resolved = this.patternRunner.patterns.get(pattern);
+    if (!resolved) {
+      logger.warn(`Unknown bullet pattern "${pattern}"`);
+    }
+    return resolved;
+  }
+
+  /**
+   * Spawn a wave's enemies in formation; each fires the wave's bullet pattern
+   */
+  private spawnWave(wave: Wave): void {
+    if (!(wave.enemy in this.enemyTypes)) {
+      logger.warn(`Skipping wave at ${wave.t0}ms: unknown enemy type "${wave.enemy}"`);
+      return;
+    }
+    const count = Math.max(
+      1,
+      Math.round(
+        wave.count * this.spawnCountMultiplier * this.difficulty.spawnDensity * this.rank.spawnCount
+      )
+    );
+    this.spawnFormation(wave, count);
+  }
+
+  /**
+   * Spawn `count` enemies laid out and moving as the wave's formation, led by its leader if it has one
+   */
+  spawnFormation(wave: Wave, count: number = wave.count): SimFormation {
+    const resolved = this.resolvePattern(wave.pattern);
+    const pattern = resolved ? scalePatternRate(resolved, this.difficulty) : null;
+    let leader = wave.leader;
+    if (leader !== undefined && !(leader in this.enemyTypes)) {
+      logger.warn(`Wave at ${wave.t0}ms has unknown leader "${leader}"; it spawns without one`);
+      leader = undefined;
+    }
+    const leaderIndex = leader !== undefined ? leaderSlot(wave.formation, count) : -1;
+    const path = wave.path !== undefined ? this.paths.get(wave.path) : undefined;
+    if (wave.path !== undefined && !path) {
+      logger.warn(`Wave at ${wave.t0}ms has unknown path "${wave.path}"; it flies its formation`);
+    }
+
+    const members: SimEnemy[] = [];
+    for (let i = 0; i < count; i++) {
+      const slot = formationSlot(
+        wave.formation,
+        i,
+        count,
+        this.width,
+        this.height,
+        this.streams.spawns,
+        wave.y
+      );
+      const enemy = this.spawnEnemy(i === leaderIndex ? leader! : wave.enemy, slot.x, slot.y);
+      enemy.joinWave(wave, pattern, i, this.streams.patterns);
+      if (path) {
+        enemy.followPath(path);
+      }
+      members.push(enemy);
+    }
+
+    const formation = new SimFormation(
+      this.allocateId(),
+      count,
+      wave.bonus ?? BALANCER.formationWipeBonus,
+      members[leaderIndex]?.id ?? null
+    );
+    for (const enemy of members) {
+      enemy.formationId = formation.id;
+    }
+    this.formations.push(formation);
+    return formation;
+  }
+
+  /**
+   * Take a member out of its formation; a kill that wipes out the formation pays its bonus
+   */
+  private leaveFormation(enemy: SimEnemy, killed: boolean): void {
+    const formation = this.formations.find((f) => f.id === enemy.formationId);
+    enemy.formationId = null;
+    if (!formation) {
+      return;
+    }
+
+    const hadLeader = !formation.leaderless;
+    if (formation.remove(enemy.id, killed)) {
+      const bonus = this.chain.score(formation.bonus);
+      this.state.score += bonus;
+      this.emit({
+        type: 'formationWiped',
+        formationId: formation.id,
+        x: enemy.x,
+        y: enemy.y,
+        bonus,
+      });
+    }
+    if (hadLeader && formation.leaderless) {
+      // Without their leader the rest break formation
+      for (const member of this.enemies) {
+        if (member.formationId === formation.id) {
+          member.leaderless = true;
+        }
+      }
+    }
+    if (formation.remaining === 0) {
+      this.formations.splice(this.formations.indexOf(formation), 1);
+    }
+  }
+
+  /**
+   * Bullet factory for the pattern runner: scripted enemy bullets that also collide and render
+   */
+  private createPatternBullet(init: Bullet, source: BulletSource): SimBullet {
+    const bullet = new SimBullet(
+      this.allocateId(),
+      init.x,
+      init.y,
+      init.angle ?? Math.atan2(init.vy, init.vx),
+      Math.hypot(init.vx, init.vy),
+      source === 'boss' ? BALANCER.bulletDamage * 2 : BALANCER.bulletDamage,
+      source
+    );
+    bullet.scripted = true;
+    bullet.vx = init.vx;
+    bullet.vy = init.vy;
+    bullet.life = init.life;
+    bullet.accel = init.accel;
+    bullet.onDeath = init.onDeath;
+    this.bullets.push(bullet);
+    return bullet;
+  }
+
+  /**
+   * Number of BulletML scripts running from enemies and the boss
+   */
+  get runningScripts(): number {
+    return this.scriptEmitters.filter(({ emitter }) => !emitter.done).length;
+  }
+
+  /**
+   * Start the BulletML script `file` from `host`; its emitter follows the host until the host is gone.
+   * A host runs one script at a time, so volleys due while it runs are skipped.
+   */
+  private runScript(file: string, host: SimEntity, runner: BulletMLRunner<SimBullet>): void {
+    if (this.scriptEmitters.some(({ hostId, emitter }) => hostId === host.id && !emitter.done)) {
+      return;
+    }
+    const doc = this.scripts.get(file);
+    if (!doc) {
+      logger.warn(`Unknown BulletML script "${file}"`);
+      return;
+    }
+    const emitter = runner.runBulletML(doc, host.x, host.y, host.id);
+    this.scriptEmitters.push({ hostId: host.id, emitter, runner });
+  }
+
+  /**
+   * Stop the script `hostId` is running, if any
+   */
+  private stopScript(hostId: number): void {
+    for (const script of this.scriptEmitters) {
+      if (script.hostId === hostId) {
+        script.runner.stopBulletML(script.emitter);
+      }
+    }
+  }
+
+  /**
+   * Move script emitters with their hosts, stopping those whose host was destroyed
+   */
+  private updateScriptEmitters(): void {
+    const hosts = new Map<number, SimEntity>();
+    for (const enemy of this.enemies) {
+      if (enemy.active) hosts.set(enemy.id, enemy);
+    }
+    if (this.boss?.active) {
+      hosts.set(this.boss.id, this.boss);
+    }
+    for (const { hostId, emitter, runner } of this.scriptEmitters) {
+      const host = hosts.get(hostId);
+      if (host) {
+        emitter.x = host.x;
+        emitter.y = host.y;
+      } else {
+        runner.stopBulletML(emitter);
+      }
+    }
+    this.scriptEmitters = this.scriptEmitters.filter(({ emitter }) => !emitter.done);
+  }
+
+  private updateBullets(delta: number): void {
+    const deltaSeconds = delta / 1000;
+    this.updateScriptEmitters();
+
+    // Pattern bullets that hit something or left the screen no longer need scripting
+    for (const runner of [this.patternRunner, this.bossPatternRunner]) {
+      runner.retain((b) => b.active);
+      runner.update(delta);
+    }
+
+    for (let i = this.bullets.length - 1; i >= 0; i--) {
+      const bullet = this.bullets[i]!;
+      if (bullet.active) {
+        if (bullet.homingTurnRate > 0) {
+          const target = this.nearestTarget(bullet.x, bullet.y);
+          if (target) {
+            bullet.steerTowards(target.x, target.y, delta);
+          }
+        }
+        bullet.update(delta, this.width, this.height);
+
+        // Scroll enemy bullets with level (only if scrolling is active)
+        if (!this.scrollingPaused && !bullet.isPlayerBullet) {
+          bullet.x -= BALANCER.scrollSpeed * deltaSeconds;
+        }
+      } else {
+        this.bullets.splice(i, 1);
+      }
+    }
+  }
+
+  /**
+   * Closest on-screen enemy or boss, for homing bullets
+   */
+  private nearestTarget(x: number, y: number): SimEnemy | SimBoss | null {
+    let nearest: SimEnemy | SimBoss | null = null;
+    let nearestDistSq = Infinity;
+    const consider = (target: SimEnemy | SimBoss): void => {
+      if (!target.active || target.x < 0 || target.x > this.width) return;
+      const distSq = (target.x - x) ** 2 + (target.y - y) ** 2;
+      if (distSq < nearestDistSq) {
+        nearest = target;
+        nearestDistSq = distSq;
+      }
+    };
+    this.enemies.forEach(consider);
+    if (this.boss) {
+      consider(this.boss);
+    }
+    return nearest;
+  }
+
+  private updateEnemies(delta: number): void {
+    const deltaSeconds = delta / 1000;
+
+    for (let i = this.enemies.length - 1; i >= 0; i--) {
+      const enemy = this.enemies[i]!;
+      if (!enemy.active) {
+        this.enemies.splice(i, 1);
+        continue;
+      }
+
+      // Chaser enemies that have reached the edge and wave formations control their own movement
+      const selfPropelled =
+        enemy.formation !== null || (enemy.pattern.type === 'chaser' && enemy.reachedEdge);
+      if (!this.scrollingPaused && !selfPropelled) {
+        enemy.x -= BALANCER.scrollSpeed * deltaSeconds;
+      }
+
+      const updateResult = enemy.update(
+        delta,
+        this.player.x,
+        this.player.y,
+        this.rank.enemyFireRate
+      );
+
+      if (updateResult === 'explode') {
+        this.explodeEnemy(enemy);
+        this.enemies.splice(i, 1);
+        continue;
+      }
+
+      // Remove enemies that have gone off the left edge (formations can also leave top or bottom)
+      // or reached the end of their path
+      if (enemy.pathDone || enemy.x < -50 || enemy.y < -100 || enemy.y > this.height + 100) {
+        enemy.active = false;
+        this.leaveFormation(enemy, false);
+        this.enemies.splice(i, 1);
+        continue;
+      }
+
+      if (updateResult === true) {
+        this.enemyFire(enemy);
+      }
+    }
+  }
+
+  private enemyFire(enemy: SimEnemy): void {
+    if (enemy.bulletPattern) {
+      this.patternRunner.spawnPattern(enemy.x, enemy.y, enemy.bulletPattern, {
+        v: enemy.volleysFired - 1,
+        t: enemy.patternTime,
+      });
+      return;
+    }
+    if (enemy.fireScript) {
+      this.runScript(enemy.fireScript, enemy, this.patternRunner);
+      return;
+    }
+
+    const angle = Math.atan2(this.player.y - enemy.y, this.player.x - enemy.x);
+    this.bullets.push(
+      new SimBullet(
+        this.allocateId(),
+        enemy.x,
+        enemy.y,
+        angle,
+        BALANCER.enemyBulletSpeed * this.difficulty.bulletSpeed * this.rank.bulletSpeed,
+        BALANCER.bulletDamage,
+        'enemy'
+      )
+    );
+  }
+
+  /**
+   * Handle enemy explosion when chaser returns to edge after backtracking
+   */
+  private explodeEnemy(enemy: SimEnemy): void {
+    const explosionRadius = 100;
+    enemy.active = false;
+    this.leaveFormation(enemy, false);
+    this.emit({ type: 'enemyExploded', enemyId: enemy.id, x: enemy.x, y: enemy.y });
+
+    const dx = this.player.x - enemy.x;
+    const dy = this.player.y - enemy.y;
+    if (Math.sqrt(dx * dx + dy * dy) <= explosionRadius) {
+      this.damagePlayer(true);
+    }
+
+    // Clear bullets in explosion radius
+    const clearedBullets = this.collisionSystem.getBulletsInRadius(
+      enemy.x,
+      enemy.y,
+      explosionRadius,
+      this.bullets
+    );
+    for (const bullet of clearedBullets) {
+      bullet.active = false;
+    }
+  }
+
+  private updatePowerUps(delta: number): void {
+    const deltaSeconds = delta / 1000;
+
+    for (let i = this.powerUps.length - 1; i >= 0; i--) {
+      const powerUp = this.powerUps[i]!;
+      if (powerUp.active) {
+        powerUp.update(delta);
+
+        // Scroll power-ups with level (only if scrolling is active)
+        if (!this.scrollingPaused) {
+          powerUp.x -= BALANCER.scrollSpeed * deltaSeconds;
+        }
+      } else {
+        this.powerUps.splice(i, 1);
+      }
+    }
+  }
+
+  private updateScoreItems(delta: number): void {
+    const { x, y } = this.player;
+    for (let i = this.scoreItems.length - 1; i >= 0; i--) {
+      const item = this.scoreItems[i]!;
+      if (item.active) {
+        item.update(delta, x, y);
+      } else {
+        this.scoreItems.splice(i, 1);
+      }
+    }
+  }
+
+  /**
+   * Turn the enemy bullets within `radius` of (x, y) into score items that fly to the player
+   * Returns how many bullets were canceled
+   */
+  cancelBullets(x: number, y: number, radius: number): number {
+    const enemyBullets = this.bullets.filter((b) => !b.isPlayerBullet);
+    const canceled = this.collisionSystem.getBulletsInRadius(x, y, radius, enemyBullets);
+    for (const bullet of canceled) {
+      bullet.active = false;
+      this.scoreItems.push(
+        new SimScoreItem(this.allocateId(), bullet.x, bullet.y, BALANCER.scoreItems.value)
+      );
+    }
+    if (canceled.length > 0) {
+      this.emit({ type: 'bulletsCanceled', x, y, count: canceled.length });
+    }
+    return canceled.length;
+  }
+
+  private updateBoss(delta: number): void {
+    const boss = this.boss;
+    if (!boss || !boss.active) {
+      return;
+    }
+
+    const phase = boss.currentPhase;
+    const fires = boss.update(delta, this.player.x, this.player.y, this.rank.enemyFireRate);
+    // A new phase starts with a clean screen, and its own script
+    if (boss.currentPhase !== phase) {
+      this.cancelBullets(boss.x, boss.y, Infinity);
+      this.stopScript(boss.id);
+    }
+
+    if (fires) {
+      const firePattern = boss.phase.firePattern;
+      const pattern =
+        typeof firePattern === 'string'
+          ? this.bossPatternRunner.patterns.get(firePattern)
+          : firePattern;
+      if (typeof firePattern === 'string' && isBulletMLRef(firePattern)) {
+        this.runScript(firePattern, boss, this.bossPatternRunner);
+      } else if (pattern) {
+        this.bossPatternRunner.spawnPattern(boss.x, boss.y, pattern, {
+          v: boss.volleys - 1,
+          t: boss.patternTime,
+        });
+      } else {
+        logger.warn(
+          `Boss "${boss.definition.name}" fires unknown pattern "${firePattern as string}"`
+        );
+      }
+    }
+
+    if (boss.isAlive()) {
+      return;
+    }
+
+    this.chain.onKill();
+    this.state.score += this.chain.score(boss.definition.score);
+    boss.active = false;
+    this.emit({ type: 'bossKilled', bossId: boss.id, x: boss.x, y: boss.y });
+    this.cancelBullets(boss.x, boss.y, Infinity);
+    this.boss = null;
+    this.state.bossActive = false;
+    this.scrollingPaused = false; // Resume scrolling after boss defeat
+    this.bossPosition = 0;
+
+    // bossCount increments on spawn, so this was the last boss once it reaches the list length
+    if (this.bossCount >= this.bosses.length) {
+      this.status = 'victory';
+      this.emit({ type: 'victory' });
+      return;
+    }
+
+    // Reset the timer and start counting for the next boss
+    this.bossTimer = 0;
+    this.lastSpawnCheckTime = 0;
+    this.lastSpawnCountIncreaseTime = 0;
+
+    this.spawnRateMultiplier *= BALANCER.spawnRateGrowthPerBoss; // Spawn faster after each boss
+  }
+
+  private damagePlayer(heavy: boolean = false): void {
+    if (this.godMode) {
+      return;
+    }
+    const lives = this.player.lives;
+    this.player.takeDamage();
+    if (this.player.lives < lives) {
+      this.rank.onHit();
+      const broken = this.chain.break();
+      if (broken > 0) {
+        this.emit({ type: 'chainBroken', chain: broken });
+      }
+    }
+    this.emit({
+      type: 'playerHit',
+      x: this.player.x,
+      y: this.player.y,
+      heavy,
+      lethal: !this.player.isAlive(),
+    });
+  }
+
+  private checkCollisions(): void {
+    const player = this.player;
+    const enemyBullets = this.bullets.filter((b) => !b.isPlayerBullet);
+    const playerBullets = this.bullets.filter((b) => b.isPlayerBullet);
+
+    // Shield vs enemy bullets (check shield first, before player)
+    if (player.isShielded) {
+      for (const bullet of this.collisionSystem.checkShieldBulletCollision(player, enemyBullets)) {
+        bullet.active = false;
+        this.emit({ type: 'shieldBlock', x: bullet.x, y: bullet.y });
+      }
+    }
+
+    // Player vs enemy bullets
+    const hitBullet = this.collisionSystem.checkPlayerBulletCollision(
+      player,
+      enemyBullets.filter((b) => b.active)
+    );
+    if (hitBullet) {
+      hitBullet.active = false;
+      this.emit({ type: 'bulletImpact', x: hitBullet.x, y: hitBullet.y, color: 0xff0000 });
+      this.damagePlayer();
+    }
+
+    // Near misses
+    const grazing = this.collisionSystem.getGrazingBullets(
+      player,
+      enemyBullets,
+      BALANCER.graze.radius
+    );
+    for (const bullet of grazing) {
+      this.graze(bullet);
+    }
+
+    // Player bullets vs enemies
+    let collision = this.collisionSystem.checkBulletEnemyCollision(
+      playerBullets,
+      this.enemies,
+      this.width,
+      this.height
+    );
+    while (collision) {
+      const { bullet, enemy } = collision;
+      bullet.hit(enemy.id);
+      // Beams hit along their length, so their impact is on the enemy
+      const impact = bullet.isBeam ? enemy : bullet;
+      this.emit({ type: 'bulletImpact', x: impact.x, y: impact.y, color: 0x00ffff });
+      this.emit({ type: 'enemyHit', enemyId: enemy.id });
+
+      if (enemy.takeDamage(bullet.damage)) {
+        this.killEnemy(enemy);
+
+        const dropType = enemy.shouldDropPowerUp();
+        if (dropType) {
+          // Skip health at max lives and the active weapon at its max level
+          const family = weaponFamilyFor(dropType);
+          const skip =
+            (dropType === 'health' && player.lives >= BALANCER.playerMaxLives) ||
+            (family !== null && player.powerUps.isWeaponMaxed(family));
+          if (!skip) {
+            this.spawnPowerUp(enemy.x, enemy.y, dropType);
+          }
+        }
+      }
+
+      collision = this.collisionSystem.checkBulletEnemyCollision(
+        playerBullets,
+        this.enemies,
+        this.width,
+        this.height
+      );
+    }
+
+    // Player bullets vs boss
+    if (this.boss) {
+      const bossCollision = this.collisionSystem.checkBulletBossCollision(playerBullets, this.boss);
+      if (bossCollision) {
+        const { bullet, boss } = bossCollision;
+        bullet.hit(boss.id);
+        const impact = bullet.isBeam ? boss : bullet;
+        this.emit({ type: 'bulletImpact', x: impact.x, y: impact.y, color: 0x00ffff });
+        this.emit({ type: 'bossHit', bossId: boss.id });
+        this.chain.keepAlive();
+        if (boss.takeDamage(bullet.damage)) {
+          this.state.score += this.chain.score(BALANCER.scorePerKill.boss);
+        }
+      }
+    }
+
+    // Player vs enemies
+    const hitEnemy = this.collisionSystem.checkPlayerEnemyCollision(player, this.enemies);
+    if (hitEnemy) {
+      this.damagePlayer();
+      hitEnemy.active = false;
+      this.leaveFormation(hitEnemy, false);
+    }
+
+    // Player vs boss
+    if (this.boss && this.collisionSystem.checkPlayerBossCollision(player, this.boss)) {
+      this.damagePlayer();
+    }
+
+    // Player vs power-ups
+    const powerUp = this.collisionSystem.checkPlayerPowerUpCollision(player, this.powerUps);
+    if (powerUp) {
+      this.collectPowerUp(powerUp);
+      powerUp.active = false;
+    }
+
+    // Player vs score items
+    const items = this.collisionSystem.getPlayerScoreItemCollisions(player, this.scoreItems);
+    if (items.length > 0) {
+      let score = 0;
+      for (const item of items) {
+        score += item.value;
+        item.active = false;
+      }
+      this.state.score += score;
+      this.emit({ type: 'scoreItemsCollected', count: items.length, score });
+    }
+  }
+
+  private graze(bullet: SimBullet): void {
+    bullet.grazed = true;
+    this.state.graze++;
+    this.state.score += BALANCER.graze.score;
+    this.grazeMeter = Math.min(1, this.grazeMeter + BALANCER.graze.meterPerGraze);
+    this.emit({ type: 'graze', x: bullet.x, y: bullet.y });
+
+    // Allow for rounding, so ten grazes at 0.1 fill the meter
+    if (this.grazeMeter >= 1 - 1e-9) {
+      this.grazeMeter = 0;
+      this.player.addShield();
+    }
+  }
+
+  /**
+   * Award an extra life for each score threshold passed, up to the difficulty's maxExtends
+   */
+  private checkExtends(): void {
+    let threshold = extendThreshold(this.difficulty, this.state.extends);
+    while (threshold !== null && this.state.score >= threshold) {
+      this.state.extends++;
+      if (this.player.addLife()) {
+        this.emit({ type: 'extend', extends: this.state.extends });
+      } else {
+        // Lives are full: the extend pays a score bonus instead
+        this.state.score += BALANCER.extendBonus;
+        this.emit({ type: 'extend', extends: this.state.extends, bonus: BALANCER.extendBonus });
+      }
+      threshold = extendThreshold(this.difficulty, this.state.extends);
+    }
+  }
+
+  private killEnemy(enemy: SimEnemy): void {
+    this.chain.onKill();
+    const score = this.chain.score(enemy.archetype.score);
+    this.state.score += score;
+    enemy.active = false;
+    this.emit({
+      type: 'enemyKilled',
+      enemyId: enemy.id,
+      enemyType: enemy.enemyType,
+      x: enemy.x,
+      y: enemy.y,
+      score,
+    });
+    this.leaveFormation(enemy, true);
+
+    if (enemy.archetype.cancelRadius) {
+      this.cancelBullets(enemy.x, enemy.y, enemy.archetype.cancelRadius);
+    }
+  }
+
+  private spawnPowerUp(x: number, y: number, type: PowerUpType['type']): void {
+    this.powerUps.push(new SimPowerUp(this.allocateId(), x, y, { type, value: 1 }));
+  }
+
+  private collectPowerUp(powerUp: SimPowerUp): void {
+    const player = this.player;
+    this.emit({ type: 'powerUpCollected', powerUpType: powerUp.powerUpType.type });
+
+    const family = weaponFamilyFor(powerUp.powerUpType.type);
+    if (family) {
+      player.powerUps.collectWeapon(family);
+      return;
+    }
+    switch (powerUp.powerUpType.type) {
+      case 'bomb':
+        player.addBomb();
+        break;
+      case 'health':
+        player.addLife();
+        break;
+      case 'shield':
+        player.addShield();
+        break;
+    }
+  }
+
+  private useBomb(): void {
+    if (!this.player.useBomb()) {
+      return;
+    }
+
+    const { x, y } = this.player;
+    this.rank.onBomb();
+    this.emit({ type: 'bombUsed', x, y });
+
+    const clearedEnemies = this.collisionSystem.getEnemiesInRadius(
+      x,
+      y,
+      BALANCER.bombClearRadius,
+      this.enemies
+    );
+    for (const enemy of clearedEnemies) {
+      this.killEnemy(enemy);
+    }
+
+    this.cancelBullets(x, y, BALANCER.bombClearRadius);
+  }
+
+  private useShield(): void {
+    if (this.player.activateShield()) {
+      this.emit({ type: 'shieldActivated' });
+    }
+  }
+}
@@ -0,0 +1,448 @@
+/**
+ * Snapshot - Versioned, validated save of a run in progress
+ *
+ * Captures the GameState, simulation timers and multipliers, every live entity
+ * the state of each RNG stream and each running BulletML script, so Simulation.fromSnapshot
+ * continues the run exactly.
+ */
+
+import { z } from 'zod';
+import { BulletPattern, WaveSchema } from '../systems/PatternML';
+import { BossDefinitionSchema } from '../systems/BossDefinitions';
+import { WEAPON_FAMILIES } from '../systems/Balancer';
+import { DROP_TYPES, EnemyArchetypeSchema } from '../systems/EnemyArchetypes';
+import { PathSchema } from '../systems/Paths';
+import { DifficultySchema } from '../systems/Difficulty';
+import type { SimPlayer } from './SimPlayer';
+import type { SimEnemy } from './SimEnemy';
+import type { SimBullet } from './SimBullet';
+import type { SimPowerUp } from './SimPowerUp';
+import type { SimScoreItem } from './SimScoreItem';
+import type { SimBoss } from './SimBoss';
+import type { SimFormation } from './SimFormation';
+import type { SimEntity } from './SimEntity';
+
+// v2: RNG state is stored per named stream
+// v3: bosses come from BossDefinitions
+// v4: wave formations (leaders, wipe bonus)
+// v5: dynamic rank
+// v6: player weapon tier, bombs, shields and lives saved as PowerUpSystem state
+// v7: weapon families (active family, per-family levels, bullet behaviors)
+// v8: kill chain
+// v9: graze count and meter
+// v10: score items from canceled bullets
+// v11: score extends earned
+// v12: running BulletML scripts
+export const SNAPSHOT_VERSION = 12;
+
+const EntityFields = {
+  id: z.number().int(),
+  x: z.number(),
+  y: z.number(),
+  prevX: z.number(),
+  prevY: z.number(),
+  scale: z.number(),
+  active: z.boolean(),
+};
+
+const PlayerSchema = z.object({
+  ...EntityFields,
+  powerUps: z.object({
+    weapon: z.enum(WEAPON_FAMILIES),
+    weaponLevels: z.object({
+      spread: z.number().int().min(0),
+      laser: z.number().int().min(0),
+      homing: z.number().int().min(0),
+      wave: z.number().int().min(0),
+      tail: z.number().int().min(0),
+    }),
+    bombs: z.number().int().min(0),
+    shields: z.number().int().min(0),
+    lives: z.number().int(),
+  }),
+  chargeTime: z.number(),
+  fireTimer: z.number(),
+  iframeTimer: z.number(),
+  isInvincible: z.boolean(),
+  shieldTimer: z.number(),
+  isShielded: z.boolean(),
+  speed: z.number(),
+});
+
+const EnemySchema = z.object({
+  ...EntityFields,
+  enemyType: z.string(),
+  hp: z.number(),
+  maxHp: z.number(),
+  pattern: z.object({
+    type: z.enum(['chaser', 'turret', 'sine', 'boss']),
+    speed: z.number(),
+    amplitude: z.number().optional(),
+    frequency: z.number().optional(),
+    fireRate: z.number().optional(),
+  }),
+  fireRate: z.number(),
+  fireTimer: z.number(),
+  patternTime: z.number(),
+  startY: z.number(),
+  reachedEdge: z.boolean(),
+  edgeX: z.number(),
+  returningToEdge: z.boolean(),
+  formation: WaveSchema.shape.formation.nullable().default(null),
+  formationIndex: z.number().int().min(0).default(0),
+  bulletPattern: BulletPattern.nullable().default(null),
+  fireScript: z.string().nullable().default(null),
+  fireWindowMs: z.number().default(0),
+  volleysFired: z.number().int().min(0).default(0),
+  volleyTimer: z.number().default(0),
+  formationId: z.number().int().nullable().default(null),
+  leaderless: z.boolean().default(false),
+  pathName: z.string().nullable().default(null),
+  pathDelayMs: z.number().default(0),
+  pathTime: z.number().default(0),
+  pathHoldMs: z.number().default(0),
+  pathStop: z.number().int().min(0).default(0),
+  pathFiring: z.boolean().default(false),
+  pathDone: z.boolean().default(false),
+});
+
+const BulletSchema = z.object({
+  ...EntityFields,
+  angle: z.number(),
+  speed: z.number(),
+  damage: z.number(),
+  source: z.enum(['player', 'enemy', 'boss']),
+  charged: z.boolean(),
+  scripted: z.boolean().default(false),
+  vx: z.number().default(0),
+  vy: z.number().default(0),
+  life: z.number().default(0),
+  accel: z.number().optional(),
+  onDeath: z.string().optional(),
+  grazed: z.boolean().default(false),
+  family: z.enum(WEAPON_FAMILIES).default('spread'),
+  pierce: z.number().int().min(0).default(0),
+  hitIds: z.array(z.number().int()).default([]),
+  homingTurnRate: z.number().default(0),
+  waveAmplitude: z.number().default(0),
+  waveFrequency: z.number().default(0),
+  waveTime: z.number().default(0),
+  beamLength: z.number().default(0),
+});
+
+const PowerUpSchema = z.object({
+  ...EntityFields,
+  powerUpType: z.object({
+    type: z.enum(DROP_TYPES),
+    value: z.number(),
+  }),
+  value: z.number(),
+});
+
+const ScoreItemSchema = z.object({
+  ...EntityFields,
+  value: z.number(),
+  age: z.number(),
+  speed: z.number(),
+});
+
+const FormationSchema = z.object({
+  id: z.number().int(),
+  size: z.number().int().min(1),
+  bonus: z.number().int().min(0),
+  leaderId: z.number().int().nullable(),
+  killed: z.number().int().min(0),
+  lost: z.number().int().min(0),
+  leaderless: z.boolean(),
+});
+
+const BossSchema = z.object({
+  ...EntityFields,
+  hp: z.number(),
+  maxHp: z.number(),
+  currentPhase: z.number().int().min(0),
+  fireTimer: z.number(),
+  patternTime: z.number(),
+  volleys: z.number().int().min(0),
+  startX: z.number(),
+  startY: z.number(),
+});
+
+/**
+ * Snapshot schema
+ */
+const TweenSchema = z.object({ perFrame: z.number(), frames: z.number().int() }).nullable();
+
+const ScriptActorSchema = z.object({
+  doc: z.string(), // Script file
+  bullet: z.number().int().nullable(), // Bullet id; null for emitters
+  emitter: z.object({ host: z.number().int(), x: z.number(), y: z.number() }),
+  direction: z.number(),
+  speed: z.number(),
+  mx: z.number(),
+  my: z.number(),
+  lastDirection: z.number(),
+  lastSpeed: z.number(),
+  scale: z.number(),
+  processes: z.array(
+    z.object({
+      stack: z.array(
+        z.object({
+          action: z.number().int().min(0),
+          pc: z.number().int().min(0),
+          loops: z.number().int(),
+          params: z.array(z.number()),
+        })
+      ),
+      wait: z.number(),
+    })
+  ),
+  turn: TweenSchema,
+  spin: TweenSchema,
+  accelX: TweenSchema,
+  accelY: TweenSchema,
+});
+
+const ScriptRunnerSchema = z.object({
+  frameClock: z.number(),
+  actors: z.array(ScriptActorSchema),
+});
+
+export const SnapshotSchema = z.object({
+  version: z.literal(SNAPSHOT_VERSION),
+  savedAt: z.string().optional(), // ISO timestamp
+  stepHz: z.number().positive(),
+  options: z.object({
+    seed: z.union([z.string(), z.number()]),
+    afterFirstBoss: z.boolean().optional(),
+    godMode: z.boolean().optional(),
+    difficulty: DifficultySchema.optional(),
+    width: z.number().optional(),
+    height: z.number().optional(),
+    waves: z.array(WaveSchema).optional(),
+    patterns: z.array(BulletPattern).optional(),
+    bosses: z.array(BossDefinitionSchema).optional(),
+    enemies: z.array(EnemyArchetypeSchema).optional(),
+    paths: z.array(PathSchema).optional(),
+    startAtMs: z.number().min(0).optional(),
+    scripts: z.record(z.string(), z.string()).optional(),
+    bossesDefeated: z.number().int().min(0).optional(),
+  }),
+  // Internal state of each named RNG stream
+  rng: z.record(
+    z.string(),
+    z.object({
+      i: z.number().int(),
+      j: z.number().int(),
+      S: z.array(z.number().int()).length(256),
+    })
+  ),
+  state: z.object({
+    score: z.number(),
+    lives: z.number().int(),
+    weapon: z.enum(WEAPON_FAMILIES),
+    weaponTier: z.number().int(),
+    bombs: z.number().int(),
+    shields: z.number().int(),
+    stageTime: z.number(),
+    chain: z.number().int().min(0),
+    chainMultiplier: z.number(),
+    graze: z.number().int().min(0),
+    grazeMeter: z.number(),
+    extends: z.number().int().min(0),
+    bossActive: z.boolean(),
+    paused: z.boolean(),
+  }),
+  timers: z.object({
+    frame: z.number().int().min(0),
+    stageTimeMs: z.number(),
+    bossTimer: z.number(),
+    bossCount: z.number().int().min(0),
+    bossPosition: z.number(),
+    scrollingPaused: z.boolean(),
+    spawnTimer: z.number(),
+    lastSpawnCheckTime: z.number(),
+    spawnRateMultiplier: z.number(),
+    spawnCountMultiplier: z.number(),
+    lastSpawnCountIncreaseTime: z.number(),
+    nextId: z.number().int().min(1),
+    prevBomb: z.boolean(),
+    prevShield: z.boolean(),
+    grazeMeter: z.number().min(0).max(1),
+    waves: z
+      .object({
+        cursor: z.number().int().min(0),
+        cycle: z.number().int().min(0),
+        lastMs: z.number(),
+      })
+      .default({ cursor: 0, cycle: 0, lastMs: 0 }),
+    rank: z.object({
+      base: z.number(),
+      scoredTo: z.number(),
+    }),
+    chain: z.object({
+      length: z.number().int().min(0),
+      peak: z.number().int().min(0),
+      timerMs: z.number(),
+    }),
+  }),
+  player: PlayerSchema,
+  enemies: z.array(EnemySchema),
+  bullets: z.array(BulletSchema),
+  powerUps: z.array(PowerUpSchema),
+  scoreItems: z.array(ScoreItemSchema).default([]),
+  boss: BossSchema.nullable(),
+  formations: z.array(FormationSchema).default([]),
+  bulletML: z.object({ enemy: ScriptRunnerSchema, boss: ScriptRunnerSchema }),
+});
+
+export type SimSnapshot = z.infer<typeof SnapshotSchema>;
+export type SavedPlayer = z.infer<typeof PlayerSchema>;
+export type SavedEnemy = z.infer<typeof EnemySchema>;
+export type SavedBullet = z.infer<typeof BulletSchema>;
+export type SavedPowerUp = z.infer<typeof PowerUpSchema>;
+export type SavedScoreItem = z.infer<typeof ScoreItemSchema>;
+export type SavedBoss = z.infer<typeof BossSchema>;
+export type SavedFormation = z.infer<typeof FormationSchema>;
+
+/**
+ * Parse and validate a snapshot from JSON text
+ */
+export function parseSnapshot(text: string): SimSnapshot {
+  return SnapshotSchema.parse(JSON.parse(text));
+}
+
+/**
+ * Serialize a snapshot to JSON text
+ */
+export function serializeSnapshot(snapshot: SimSnapshot): string {
+  return JSON.stringify(snapshot);
+}
+
+function saveEntity(entity: SimEntity) {
+  return {
+    id: entity.id,
+    x: entity.x,
+    y: entity.y,
+    prevX: entity.prevX,
+    prevY: entity.prevY,
+    scale: entity.scale,
+    active: entity.active,
+  };
+}
+
+export function savePlayer(player: SimPlayer): SavedPlayer {
+  return {
+    ...saveEntity(player),
+    powerUps: player.powerUps.getState(),
+    chargeTime: player.chargeTime,
+    fireTimer: player.fireTimer,
+    iframeTimer: player.iframeTimer,
+    isInvincible: player.isInvincible,
+    shieldTimer: player.shieldTimer,
+    isShielded: player.isShielded,
+    speed: player.speed,
+  };
+}
+
+export function saveEnemy(enemy: SimEnemy): SavedEnemy {
+  return {
+    ...saveEntity(enemy),
+    enemyType: enemy.enemyType,
+    hp: enemy.hp,
+    maxHp: enemy.maxHp,
+    pattern: { ...enemy.pattern },
+    fireRate: enemy.fireRate,
+    fireTimer: enemy.fireTimer,
+    patternTime: enemy.patternTime,
+    startY: enemy.startY,
+    reachedEdge: enemy.reachedEdge,
+    edgeX: enemy.edgeX,
+    returningToEdge: enemy.returningToEdge,
+    formation: enemy.formation,
+    formationIndex: enemy.formationIndex,
+    bulletPattern: enemy.bulletPattern,
+    fireScript: enemy.fireScript,
+    fireWindowMs: enemy.fireWindowMs,
+    volleysFired: enemy.volleysFired,
+    volleyTimer: enemy.volleyTimer,
+    formationId: enemy.formationId,
+    leaderless: enemy.leaderless,
+    pathName: enemy.pathName,
+    pathDelayMs: enemy.pathDelayMs,
+    pathTime: enemy.pathTime,
+    pathHoldMs: enemy.pathHoldMs,
+    pathStop: enemy.pathStop,
+    pathFiring: enemy.pathFiring,
+    pathDone: enemy.pathDone,
+  };
+}
+
+export function saveBullet(bullet: SimBullet): SavedBullet {
+  return {
+    ...saveEntity(bullet),
+    angle: bullet.angle,
+    speed: bullet.speed,
+    damage: bullet.damage,
+    source: bullet.source,
+    charged: bullet.charged,
+    scripted: bullet.scripted,
+    vx: bullet.vx,
+    vy: bullet.vy,
+    life: bullet.life,
+    accel: bullet.accel,
+    onDeath: bullet.onDeath,
+    grazed: bullet.grazed,
+    family: bullet.family,
+    pierce: bullet.pierce,
+    hitIds: [...bullet.hitIds],
+    homingTurnRate: bullet.homingTurnRate,
+    waveAmplitude: bullet.waveAmplitude,
+    waveFrequency: bullet.waveFrequency,
+    waveTime: bullet.waveTime,
+    beamLength: bullet.beamLength,
+  };
+}
+
+export function savePowerUp(powerUp: SimPowerUp): SavedPowerUp {
+  return {
+    ...saveEntity(powerUp),
+    powerUpType: { ...powerUp.powerUpType },
+    value: powerUp.value,
+  };
+}
+
+export function saveScoreItem(item: SimScoreItem): SavedScoreItem {
+  return {
+    ...saveEntity(item),
+    value: item.value,
+    age: item.age,
+    speed: item.speed,
+  };
+}
+
+export function saveBoss(boss: SimBoss): SavedBoss {
+  return {
+    ...saveEntity(boss),
+    hp: boss.hp,
+    maxHp: boss.maxHp,
+    currentPhase: boss.currentPhase,
+    fireTimer: boss.fireTimer,
+    patternTime: boss.patternTime,
+    volleys: boss.volleys,
+    startX: boss.startX,
+    startY: boss.startY,
+  };
+}
+
+export function saveFormation(formation: SimFormation): SavedFormation {
+  return {
+    id: formation.id,
+    size: formation.size,
+    bonus: formation.bonus,
+    leaderId: formation.leaderId,
+    killed: formation.killed,
+    lost: formation.lost,
+    leaderless: formation.leaderless,
+  };
+}
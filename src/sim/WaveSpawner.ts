@@ -0,0 +1,143 @@
+/**
+ * WaveSpawner - Walks the stage's wave timeline and lays out formations
+ *
+ * Waves come from data (assets/patterns/waves.json5, validated by WaveSchema).
+ * The timeline loops once the last wave has finished, and restarts whenever the
+ * stage clock is reset (after a boss).
+ */
+
+import type { Wave } from '../systems/PatternML';
+import type { RNG } from '../systems/RNG';
+
+export interface WaveSpawnerState {
+  cursor: number;
+  cycle: number;
+  lastMs: number;
+}
+
+export class WaveSpawner {
+  private readonly waves: Wave[];
+  private readonly loopMs: number;
+  private cursor: number = 0;
+  private cycle: number = 0;
+  private lastMs: number = 0;
+
+  constructor(waves: Wave[]) {
+    this.waves = [...waves].sort((a, b) => a.t0 - b.t0);
+    this.loopMs = this.waves.reduce((end, wave) => Math.max(end, wave.t0 + wave.duration), 0);
+  }
+
+  get isEmpty(): boolean {
+    return this.waves.length === 0 || this.loopMs <= 0;
+  }
+
+  /**
+   * Waves whose start time was reached since the previous call
+   */
+  due(stageMs: number): Wave[] {
+    if (this.isEmpty) {
+      return [];
+    }
+
+    // Stage clock was reset (boss defeated) - start the timeline over
+    if (stageMs < this.lastMs) {
+      this.cursor = 0;
+      this.cycle = 0;
+    }
+    this.lastMs = stageMs;
+
+    const due: Wave[] = [];
+    const cycle = Math.floor(stageMs / this.loopMs);
+    if (cycle !== this.cycle) {
+      // Finish the previous loop before wrapping around
+      due.push(...this.waves.slice(this.cursor));
+      this.cycle = cycle;
+      this.cursor = 0;
+    }
+
+    const localMs = stageMs - cycle * this.loopMs;
+    while (this.cursor < this.waves.length && this.waves[this.cursor]!.t0 <= localMs) {
+      due.push(this.waves[this.cursor]!);
+      this.cursor++;
+    }
+    return due;
+  }
+
+  getState(): WaveSpawnerState {
+    return { cursor: this.cursor, cycle: this.cycle, lastMs: this.lastMs };
+  }
+
+  /**
+   * Jump the timeline to `stageMs` without spawning: waves starting before then are skipped
+   */
+  skipTo(stageMs: number): void {
+    if (this.isEmpty) {
+      return;
+    }
+    this.lastMs = stageMs;
+    this.cycle = Math.floor(stageMs / this.loopMs);
+    const localMs = stageMs - this.cycle * this.loopMs;
+    this.cursor = this.waves.findIndex((wave) => wave.t0 >= localMs);
+    if (this.cursor < 0) {
+      this.cursor = this.waves.length;
+    }
+  }
+
+  setState(state: WaveSpawnerState): void {
+    this.cursor = state.cursor;
+    this.cycle = state.cycle;
+    this.lastMs = state.lastMs;
+  }
+}
+
+/**
+ * Slot the leader takes: the point of a v or arc, the front of a line
+ */
+export function leaderSlot(formation: Wave['formation'], count: number): number {
+  return formation === 'v' || formation === 'arc' ? Math.floor((count - 1) / 2) : 0;
+}
+
+/**
+ * Starting position of member `index` of a `count`-strong formation, just off the right edge,
+ * centred at `centerY` (a fraction of the height)
+ */
+export function formationSlot(
+  formation: Wave['formation'],
+  index: number,
+  count: number,
+  width: number,
+  height: number,
+  rng: RNG,
+  centerY: number = 0.5
+): { x: number; y: number } {
+  const center = (count - 1) / 2;
+  const offset = index - center;
+  const startX = width + 60;
+  const midY = height * centerY;
+
+  let x: number;
+  let y: number;
+  switch (formation) {
+    case 'arc':
+      x = startX + offset * offset * 12;
+      y = midY + offset * 60;
+      break;
+    case 'v':
+      x = startX + Math.abs(offset) * 60;
+      y = midY + offset * 60;
+      break;
+    case 'random':
+      x = startX + index * 50;
+      y = rng.floatRange(80, height - 80);
+      break;
+    case 'line':
+    case 'sine':
+    default:
+      // Single file, entering one after another
+      x = startX + index * 70;
+      y = midY;
+      break;
+  }
+
+  return { x, y: Math.max(40, Math.min(height - 40, y)) };
+}
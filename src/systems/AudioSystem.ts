@@ -143,6 +143,28 @@ export class AudioSystem {
         channelData[i] = sample * envelope * 0.2 * this.masterVolume;
       }
       return buffer;
+    } else if (name === 'extend') {
+      // Rising major arpeggio, each note ringing out under the next
+      const notes = [523.25, 659.25, 783.99, 1046.5];
+      const noteLength = 0.1;
+      duration = noteLength * notes.length + 0.3;
+      const frameCount = Math.floor(duration * sampleRate);
+      const buffer = this.audioContext.createBuffer(1, frameCount, sampleRate);
+      const channelData = buffer.getChannelData(0);
+
+      for (let i = 0; i < frameCount; i++) {
+        const t = i / sampleRate;
+        let sample = 0;
+        notes.forEach((freq, index) => {
+          const start = index * noteLength;
+          if (t >= start) {
+            const noteT = t - start;
+            sample += Math.sin(2 * Math.PI * freq * noteT) * Math.exp(-noteT * 6);
+          }
+        });
+        channelData[i] = sample * 0.15 * this.masterVolume;
+      }
+      return buffer;
     }
 
     return null;
@@ -185,6 +207,10 @@ export class AudioSystem {
     this.play('hit', 1);
   }
 
+  playExtend(): void {
+    this.play('extend', 1);
+  }
+
   /**
    * Set master volume (0-1)
    */
@@ -3,7 +3,7 @@
  * ALL magic numbers must reference this object
  */
 
-import type { WeaponSpec, SpawnSchedule } from '../types';
+import type { WeaponFamily, WeaponSpec, SpawnSchedule } from '../types';
 
 /**
  * Weapon specifications for each tier
@@ -62,6 +62,110 @@ export const WEAPON_SPECS: WeaponSpec[] = [
   // Additional tiers will be calculated dynamically
 ];
 
+/**
+ * Weapon spec for any tier: bullet count and spread always follow the tier, and
+ * tiers beyond WEAPON_SPECS scale up the last spec
+ */
+export function getWeaponSpecForTier(tier: number): WeaponSpec {
+  const baseTier = Math.min(tier, WEAPON_SPECS.length - 1);
+  const baseSpec = WEAPON_SPECS[baseTier]!;
+  const bulletCount = getBulletCountForTier(tier);
+  const spreadAngle = getSpreadAngleForBulletCount(bulletCount);
+
+  if (tier >= WEAPON_SPECS.length) {
+    return {
+      ...baseSpec,
+      bulletCount,
+      spreadAngle,
+      fireRate: baseSpec.fireRate + (tier - baseTier) * 0.5,
+      damage: baseSpec.damage + (tier - baseTier) * 1,
+      bulletSpeed: baseSpec.bulletSpeed + (tier - baseTier) * 50,
+    };
+  }
+
+  return {
+    ...baseSpec,
+    bulletCount,
+    spreadAngle,
+  };
+}
+
+export const WEAPON_FAMILIES = [
+  'spread',
+  'laser',
+  'homing',
+  'wave',
+  'tail',
+] as const satisfies readonly WeaponFamily[];
+
+/**
+ * Highest level of a weapon family (levels start at 0)
+ */
+export function getMaxWeaponLevel(family: WeaponFamily): number {
+  return family === 'spread' ? BALANCER.maxWeaponTier : BALANCER.weaponFamilies[family].maxLevel;
+}
+
+/**
+ * Weapon spec for a family at a level; the spread shot uses the tier specs above
+ */
+export function getWeaponSpec(family: WeaponFamily, level: number): WeaponSpec {
+  switch (family) {
+    case 'spread':
+      return getWeaponSpecForTier(level);
+    case 'laser': {
+      const laser = BALANCER.weaponFamilies.laser;
+      return {
+        family,
+        fireRate: laser.fireRate,
+        damage: laser.damage + level * laser.damagePerLevel,
+        bulletSpeed: laser.bulletSpeed,
+        bulletCount: 1,
+        spreadAngle: 0,
+        beamLength: laser.beamLength + level * laser.beamLengthPerLevel,
+      };
+    }
+    case 'homing': {
+      const homing = BALANCER.weaponFamilies.homing;
+      return {
+        family,
+        fireRate: homing.fireRate,
+        damage: homing.damage + level * homing.damagePerLevel,
+        bulletSpeed: homing.bulletSpeed,
+        bulletCount: 1 + Math.floor((level + 1) / 2), // 1, 2, 2, 3, 3
+        spreadAngle: homing.spreadAngle,
+        homingTurnRate: homing.turnRate + level * homing.turnRatePerLevel,
+      };
+    }
+    case 'wave': {
+      const wave = BALANCER.weaponFamilies.wave;
+      return {
+        family,
+        fireRate: wave.fireRate,
+        damage: wave.damage + level * wave.damagePerLevel,
+        bulletSpeed: wave.bulletSpeed,
+        bulletCount: 1,
+        spreadAngle: 0,
+        pierce: wave.pierce,
+        waveAmplitude: wave.amplitude + level * wave.amplitudePerLevel,
+        waveFrequency: wave.frequency,
+      };
+    }
+    case 'tail': {
+      const tail = BALANCER.weaponFamilies.tail;
+      return {
+        family,
+        fireRate: tail.fireRate,
+        damage: tail.damage + level * tail.damagePerLevel,
+        bulletSpeed: tail.bulletSpeed,
+        bulletCount: 1,
+        spreadAngle: 0,
+        rearBulletCount: 1 + Math.floor(level / 2), // 1, 1, 2, 2, 3
+        rearSpreadAngle: tail.rearSpreadAngle,
+      };
+    }
+  }
+}
+
 /**
  * Main balance configuration object
  */
@@ -73,6 +177,54 @@ export const BALANCER = {
   playerSpeed: 400, // pixels per second
   playerLives: 3, // Starting lives
   playerMaxLives: 6, // Maximum lives (can be increased via power-ups)
+  extendBonus: 50000, // Score paid instead of an extend's life when lives are already at the maximum
+  maxWeaponTier: 6, // Weapon upgrades stop here (6 pickups from tier 0)
+
+  // Weapon families besides the spread shot, each levelled from 0 to maxLevel by its own pickup
+  weaponFamilies: {
+    // Piercing beam: hits every enemy along it once
+    laser: {
+      maxLevel: 4,
+      fireRate: 5,
+      damage: 10,
+      damagePerLevel: 3,
+      bulletSpeed: 1400,
+      beamLength: 140, // pixels
+      beamLengthPerLevel: 40,
+    },
+    // Missiles that turn towards the nearest enemy
+    homing: {
+      maxLevel: 4,
+      fireRate: 4,
+      damage: 12,
+      damagePerLevel: 2,
+      bulletSpeed: 550,
+      spreadAngle: 40,
+      turnRate: 4, // radians per second
+      turnRatePerLevel: 1,
+    },
+    // Ripple shot: sways up and down, passing through one enemy
+    wave: {
+      maxLevel: 4,
+      fireRate: 6,
+      damage: 10,
+      damagePerLevel: 2,
+      bulletSpeed: 650,
+      pierce: 1,
+      amplitude: 40, // pixels
+      amplitudePerLevel: 10,
+      frequency: 2.5, // sways per second
+    },
+    // One shot forward plus a tail gun firing backwards
+    tail: {
+      maxLevel: 4,
+      fireRate: 7,
+      damage: 10,
+      damagePerLevel: 2,
+      bulletSpeed: 800,
+      rearSpreadAngle: 30,
+    },
+  },
   playerIFramesMs: 2000, // invincibility frames duration in milliseconds
   playerChargeShotTime: 600, // milliseconds to hold for charge shot
   chargeShotDamage: 50, // damage multiplier for charge shot
@@ -83,6 +235,11 @@ export const BALANCER = {
   bombDamage: 100, // damage to all enemies on screen
   bombClearRadius: 1000, // radius in pixels
 
+  // Shields
+  shieldsStart: 1,
+  maxShields: 5,
+  shieldDurationMs: 5000,
+
   // Enemy HP
   enemyHP: {
     chaser: 140,
@@ -106,7 +263,11 @@ export const BALANCER = {
 
   // Power-up drop rates (0-1 probability)
   dropRates: {
-    weapon: 0.3, // chance to drop weapon power-up
+    weapon: 0.18, // chance to drop weapon power-up (spread shot)
+    laser: 0.03, // weapon family pickups
+    homing: 0.03,
+    wave: 0.03,
+    tail: 0.03,
     bomb: 0.2, // chance to drop bomb
     health: 0.1, // chance to drop health (only if below max)
     shield: 0.15, // chance to drop shield
@@ -128,6 +289,10 @@ export const BALANCER = {
   shakeIntensity: 5, // camera shake intensity in pixels
   shakeDuration: 200, // shake duration in milliseconds
 
+  spawnRateGrowthPerBoss: 1.5, // stage clock speed-up after each boss (waves come sooner)
+  spawnCountGrowth: 1.5, // enemies per spawn grow by this factor...
+  spawnCountGrowthEverySec: 15, // ...every this many seconds of phase time
+
   // Spawn schedule (time-based wave spawning) - repeats every 70 seconds
   spawnSchedule: [
     // Format: { time: seconds, enemyType: string, x: screenX, y?: optionalY }
@@ -178,6 +343,108 @@ export const BALANCER = {
     sineFlyer: 80,
     boss: 5000,
   },
+  formationWipeBonus: 1000, // destroying every member of a wave's formation
+
+  // Bullet cancel: boss phase changes, bombs and enemies with a cancelRadius turn enemy bullets
+  // into score items, which wait delayMs and then fly to the player to be collected
+  scoreItems: {
+    value: 10, // points per item
+    delayMs: 300,
+    acceleration: 2400, // pixels per second squared
+    maxSpeed: 900, // pixels per second
+  },
+
+  // Graze: enemy bullets passing within radius pixels of the player's hitbox without hitting it
+  // score points and fill the meter; a full meter refills a shield. Not while invincible.
+  graze: {
+    radius: 20,
+    score: 20,
+    meterPerGraze: 0.05, // 20 grazes fill the meter
+  },
+
+  // Kill chain (see sim/Chain.ts): kills less than windowMs apart build a chain whose multiplier
+  // applies to kill, boss and formation scores. Hitting a boss keeps the chain going; losing a
+  // life or letting the window run out breaks it.
+  chain: {
+    windowMs: 1500,
+    multiplierPerKill: 0.1, // x1 for the first kill, x1.1 for the second, ...
+    maxMultiplier: 4,
+  },
+
+  // Dynamic rank (0..1, see sim/Rank.ts): rises with score, weapon tier and time without being
+  // hit, falls when the player is hit or bombs. At 0.5 the multipliers below are all 1.
+  rank: {
+    start: 0.5,
+    perSecond: 0.002, // +0.12 per minute without being hit
+    perThousandPoints: 0.01,
+    perWeaponTier: 0.03,
+    hitPenalty: 0.15,
+    bombPenalty: 0.05,
+    // Multipliers at rank 0 and rank 1
+    enemyFireRate: { min: 0.7, max: 1.3 },
+    bulletSpeed: { min: 0.85, max: 1.15 },
+    spawnCount: { min: 0.75, max: 1.25 },
+  },
+
+  // Difficulty presets: multipliers on the values above (see systems/Difficulty.ts)
+  difficulties: {
+    easy: {
+      label: 'EASY',
+      enemyHP: 0.7,
+      bossHP: 0.6, // on top of each boss's own multiple of bossHP
+      enemyFireRate: 0.75, // enemy and boss fire rates
+      bulletSpeed: 0.8, // enemy and boss bullets
+      dropRate: 1.3,
+      lives: 5,
+      weaponTierLossOnHit: 0, // weapon tiers lost with each life (0 keeps the weapon)
+      spawnDensity: 0.75, // enemies per spawn
+      extendFirst: 100000, // score for the first extra life
+      extendEvery: 300000, // score between later extra lives
+      maxExtends: 4, // extra lives a run can earn from score
+    },
+    normal: {
+      label: 'NORMAL',
+      enemyHP: 1,
+      bossHP: 1,
+      enemyFireRate: 1,
+      bulletSpeed: 1,
+      dropRate: 1,
+      lives: 3,
+      weaponTierLossOnHit: 0,
+      spawnDensity: 1,
+      extendFirst: 200000,
+      extendEvery: 500000,
+      maxExtends: 3,
+    },
+    hard: {
+      label: 'HARD',
+      enemyHP: 1.3,
+      bossHP: 1.4,
+      enemyFireRate: 1.25,
+      bulletSpeed: 1.15,
+      dropRate: 0.8,
+      lives: 3,
+      weaponTierLossOnHit: 1,
+      spawnDensity: 1.25,
+      extendFirst: 300000,
+      extendEvery: 700000,
+      maxExtends: 2,
+    },
+    insane: {
+      label: 'INSANE',
+      enemyHP: 1.6,
+      bossHP: 2,
+      enemyFireRate: 1.5,
+      bulletSpeed: 1.3,
+      dropRate: 0.6,
+      lives: 2,
+      weaponTierLossOnHit: 2,
+      spawnDensity: 1.5,
+      extendFirst: 500000,
+      extendEvery: 1000000,
+      maxExtends: 1,
+    },
+  },
 } as const;
 
 /**
@@ -0,0 +1,124 @@
+/**
+ * Boss definitions - Data-driven bosses (assets/patterns/bosses.json5)
+ *
+ * Bosses appear in list order, one per boss fight; the run is won when the last
+ * one is defeated. Each phase has its own movement, fire pattern, fire timing and
+ * sprite, and starts once the boss's HP falls to its hpThreshold.
+ */
+
+import { z } from 'zod';
+import { BALANCER } from './Balancer';
+import { BulletPattern } from './PatternML';
+import { EnemyPatternSchema } from './EnemyArchetypes';
+import type { BossDefinition } from '../types';
+
+/**
+ * Boss phase schema
+ */
+export const BossPhaseSchema = z.object({
+  hpThreshold: z.number().min(0).max(1),
+  pattern: EnemyPatternSchema,
+  // Inline pattern, a patterns.json5 name, or a BulletML script ("bulletml/<file>.xml")
+  firePattern: z.union([BulletPattern, z.string()]),
+  fireIntervalMs: z.number().int().min(16),
+  sprite: z.string().optional(),
+});
+
+/**
+ * Boss definition schema
+ */
+export const BossDefinitionSchema = z.object({
+  name: z.string(),
+  hp: z.number().positive(),
+  spawnAfterSec: z.number().min(0),
+  score: z.number().int().min(0).default(BALANCER.scorePerKill.boss),
+  sprite: z.string(),
+  scale: z.number().positive().default(2.5),
+  phases: z
+    .array(BossPhaseSchema)
+    .min(1)
+    .refine((phases) => phases.some((phase) => phase.hpThreshold >= 1), {
+      message: 'One phase must start at full HP (hpThreshold 1)',
+    }),
+});
+
+/**
+ * Parse and validate boss definitions from JSON
+ */
+export function parseBosses(json: unknown): BossDefinition[] {
+  return z.array(BossDefinitionSchema).min(1).parse(json);
+}
+
+/**
+ * Index of the phase for an HP ratio: the last phase (by threshold) the ratio has reached
+ */
+export function bossPhaseIndex(definition: BossDefinition, hpRatio: number): number {
+  let index = 0;
+  let lowest = Infinity;
+  definition.phases.forEach((phase, i) => {
+    if (hpRatio <= phase.hpThreshold && phase.hpThreshold < lowest) {
+      lowest = phase.hpThreshold;
+      index = i;
+    }
+  });
+  return index;
+}
+
+const [phase1, phase2, phase3] = BALANCER.bossHPPhases;
+const bossFireIntervalMs = Math.round(1000 / BALANCER.bossFireRate);
+const shot = (speedScale: number, angleDeg: number | string, count = 1) => ({
+  speed: Math.round(BALANCER.bossBulletSpeed * speedScale),
+  angleDeg,
+  aim: true,
+  count,
+  lifeMs: 6000,
+});
+
+/**
+ * Built-in bosses, used when no boss file is loaded
+ */
+export const DEFAULT_BOSSES: BossDefinition[] = parseBosses(
+  [6, 18].map((hpScale, index) => ({
+    name: index === 0 ? 'warden' : 'overseer',
+    hp: BALANCER.bossHP * hpScale,
+    spawnAfterSec: index === 0 ? 50 : 60,
+    sprite: index === 0 ? 'enemyBlack1' : 'enemyRed1',
+    phases: [
+      {
+        hpThreshold: phase1,
+        pattern: { type: 'sine', speed: 0, amplitude: 100, frequency: 2 },
+        fireIntervalMs: bossFireIntervalMs,
+        firePattern: {
+          name: 'boss-aimed-3',
+          spawnEveryMs: 0,
+          bullets: [shot(1, 0), shot(0.8, 'i * 60 - 30', 2)],
+        },
+      },
+      {
+        hpThreshold: phase2,
+        pattern: { type: 'chaser', speed: BALANCER.bossSpeed * 0.5 },
+        fireIntervalMs: bossFireIntervalMs,
+        firePattern: {
+          name: 'boss-spread-5',
+          spawnEveryMs: 0,
+          bullets: [shot(1, 0), shot(0.9, '(i - 2) * 30', 5)],
+        },
+      },
+      {
+        hpThreshold: phase3,
+        pattern: { type: 'chaser', speed: BALANCER.bossSpeed },
+        fireIntervalMs: bossFireIntervalMs,
+        firePattern: {
+          name: 'boss-barrage',
+          spawnEveryMs: 0,
+          bullets: [
+            shot(1.1, 0),
+            shot(1, 'i * 30 - 15', 2),
+            shot(1.1, '(i - 3) * 18', 7),
+            shot(0.8, 'i * 120 - 60', 2),
+          ],
+        },
+      },
+    ],
+  }))
+);
@@ -0,0 +1,460 @@
+/**
+ * BulletML - Parser for BulletML (XML) danmaku scripts
+ *
+ * Turns a BulletML document into a flat, index-based program that BulletMLRunner
+ * executes: every <action>, <fire> and <bullet> lives in a table and refers to the
+ * others by index, so a running script's state is plain numbers.
+ *
+ * Supported: <action>, <fire>, <bullet>, <repeat>, <wait>, <changeDirection>,
+ * <changeSpeed>, <accel>, <vanish>, the *Ref elements with <param>, and expressions
+ * over numbers, + - * / %, parentheses, $rand, $rank and $1..$n.
+ * Directions follow the spec: degrees, 0 = up, clockwise. A document's type says which
+ * way its player is: "horizontal" scripts are written for this game (the player is to
+ * the left, at 270), while "vertical" and untyped ones aim down (180) at a player below
+ * and are turned a quarter clockwise to fit. Speeds are px per frame and times are
+ * frames, both at 60 fps.
+ */
+
+import { compileExpression as compileExpr } from './Expression';
+
+/**
+ * Values available to an expression
+ */
+export interface ExprContext {
+  params: number[];
+  rank: number;
+  rand: () => number;
+}
+
+export type Expr = (ctx: ExprContext) => number;
+
+export type DirectionType = 'aim' | 'absolute' | 'relative' | 'sequence';
+export type SpeedType = 'absolute' | 'relative' | 'sequence';
+
+export interface BulletMLDirection {
+  type: DirectionType;
+  value: Expr;
+}
+
+export interface BulletMLSpeed {
+  type: SpeedType;
+  value: Expr;
+}
+
+export interface BulletMLBullet {
+  label?: string;
+  direction?: BulletMLDirection;
+  speed?: BulletMLSpeed;
+  actions: BulletMLActionRef[];
+}
+
+export interface BulletMLFire {
+  label?: string;
+  direction?: BulletMLDirection;
+  speed?: BulletMLSpeed;
+  bullet: number; // index into BulletMLDocument.bullets
+  bulletParams: Expr[] | null; // null: the bullet inherits the fire's params
+}
+
+/**
+ * Reference to an action; inline actions (params null) inherit the caller's params
+ */
+export interface BulletMLActionRef {
+  action: number; // index into BulletMLDocument.actions
+  params: Expr[] | null;
+}
+
+export type BulletMLStep =
+  | { kind: 'fire'; fire: number; params: Expr[] | null }
+  | ({ kind: 'action' } & BulletMLActionRef)
+  | ({ kind: 'repeat'; times: Expr } & BulletMLActionRef)
+  | { kind: 'wait'; frames: Expr }
+  | { kind: 'changeDirection'; direction: BulletMLDirection; term: Expr }
+  | { kind: 'changeSpeed'; speed: BulletMLSpeed; term: Expr }
+  | { kind: 'accel'; horizontal?: BulletMLSpeed; vertical?: BulletMLSpeed; term: Expr }
+  | { kind: 'vanish' };
+
+export interface BulletMLAction {
+  label?: string;
+  steps: BulletMLStep[];
+}
+
+export interface BulletMLDocument {
+  type: 'none' | 'vertical' | 'horizontal';
+  actions: BulletMLAction[];
+  fires: BulletMLFire[];
+  bullets: BulletMLBullet[];
+  top: number[]; // actions labelled "top", "top1", "top2", ... run when the script starts
+}
+
+/** Fire patterns naming a file under this folder run that BulletML script */
+export const BULLETML_DIR = 'bulletml/';
+
+/**
+ * Whether a fire pattern name refers to a BulletML script (e.g. "bulletml/spiral.xml")
+ */
+export function isBulletMLRef(name: string): boolean {
+  return name.startsWith(BULLETML_DIR) && name.endsWith('.xml');
+}
+
+/**
+ * Minimal XML element tree
+ */
+interface XmlElement {
+  name: string;
+  attrs: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+}
+
+const ENTITIES: Record<string, string> = {
+  lt: '<',
+  gt: '>',
+  amp: '&',
+  quot: '"',
+  apos: "'",
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|\w+);/gi, (match, entity: string) => {
+    if (entity.startsWith('#x') || entity.startsWith('#X')) {
+      return String.fromCharCode(parseInt(entity.slice(2), 16));
+    }
+    if (entity.startsWith('#')) {
+      return String.fromCharCode(parseInt(entity.slice(1), 10));
+    }
+    return ENTITIES[entity] ?? match;
+  });
+}
+
+/**
+ * Parse XML text into an element tree (no namespaces or DTD validation)
+ */
+function parseXml(text: string): XmlElement {
+  const root: XmlElement = { name: '#document', attrs: {}, children: [], text: '' };
+  const stack: XmlElement[] = [root];
+  let pos = 0;
+
+  const fail = (message: string): never => {
+    const line = text.slice(0, pos).split('\n').length;
+    throw new Error(`Invalid BulletML XML (line ${line}): ${message}`);
+  };
+
+  while (pos < text.length) {
+    const lt = text.indexOf('<', pos);
+    const current = stack[stack.length - 1]!;
+    if (lt === -1) {
+      current.text += decodeEntities(text.slice(pos));
+      break;
+    }
+    current.text += decodeEntities(text.slice(pos, lt));
+    pos = lt;
+
+    if (text.startsWith('<!--', pos)) {
+      const end = text.indexOf('-->', pos);
+      if (end === -1) fail('unterminated comment');
+      pos = end + 3;
+    } else if (text.startsWith('<![CDATA[', pos)) {
+      const end = text.indexOf(']]>', pos);
+      if (end === -1) fail('unterminated CDATA section');
+      current.text += text.slice(pos + 9, end);
+      pos = end + 3;
+    } else if (text.startsWith('<?', pos)) {
+      const end = text.indexOf('?>', pos);
+      if (end === -1) fail('unterminated processing instruction');
+      pos = end + 2;
+    } else if (text.startsWith('<!', pos)) {
+      // DOCTYPE, possibly with an internal subset in brackets
+      let depth = 0;
+      let end = pos + 2;
+      for (; end < text.length; end++) {
+        const ch = text[end];
+        if (ch === '[') depth++;
+        else if (ch === ']') depth--;
+        else if (ch === '>' && depth === 0) break;
+      }
+      if (end >= text.length) fail('unterminated declaration');
+      pos = end + 1;
+    } else if (text.startsWith('</', pos)) {
+      const end = text.indexOf('>', pos);
+      if (end === -1) fail('unterminated closing tag');
+      const name = text.slice(pos + 2, end).trim();
+      if (stack.length === 1 || current.name !== name) {
+        fail(`unexpected </${name}>`);
+      }
+      stack.pop();
+      pos = end + 1;
+    } else {
+      const match = /^<([A-Za-z_][\w.:-]*)/.exec(text.slice(pos, pos + 256));
+      if (!match) fail('malformed tag');
+      const element: XmlElement = { name: match![1]!, attrs: {}, children: [], text: '' };
+      pos += match![0].length;
+
+      const attrPattern = /\s*([A-Za-z_][\w.:-]*)\s*=\s*("([^"]*)"|'([^']*)')/y;
+      for (;;) {
+        attrPattern.lastIndex = pos;
+        const attr = attrPattern.exec(text);
+        if (!attr) break;
+        element.attrs[attr[1]!] = decodeEntities(attr[3] ?? attr[4] ?? '');
+        pos = attrPattern.lastIndex;
+      }
+
+      const close = /^\s*(\/?)>/.exec(text.slice(pos, pos + 64));
+      if (!close) fail(`malformed <${element.name}> tag`);
+      pos += close![0].length;
+
+      current.children.push(element);
+      if (close![1] !== '/') {
+        stack.push(element);
+      }
+    }
+  }
+
+  if (stack.length > 1) {
+    fail(`unclosed <${stack[stack.length - 1]!.name}>`);
+  }
+  return root;
+}
+
+/**
+ * Compile a BulletML expression such as "$1 * 2 + $rand * 30 - $rank"
+ */
+export function compileExpression(source: string): Expr {
+  return compileExpr<ExprContext>(
+    source,
+    (name) => {
+      if (name === '$rand') return (ctx) => ctx.rand();
+      if (name === '$rank') return (ctx) => ctx.rank;
+      if (/^\$\d+$/.test(name)) {
+        const param = parseInt(name.slice(1), 10) - 1;
+        return (ctx) => ctx.params[param] ?? 0;
+      }
+      return undefined;
+    },
+    'BulletML expression'
+  );
+}
+
+/**
+ * Parse a BulletML document
+ * Throws if the XML is malformed, an element is misplaced or a reference is unknown.
+ */
+export function parseBulletML(xml: string): BulletMLDocument {
+  const root = parseXml(xml).children.find((child) => child.name === 'bulletml');
+  if (!root) {
+    throw new Error('Invalid BulletML: missing <bulletml> root element');
+  }
+
+  const type = root.attrs['type'] ?? 'none';
+  if (type !== 'none' && type !== 'vertical' && type !== 'horizontal') {
+    throw new Error(`Invalid BulletML: unknown type "${type}"`);
+  }
+
+  const doc: BulletMLDocument = { type, actions: [], fires: [], bullets: [], top: [] };
+  const labels = {
+    action: new Map<string, number>(),
+    fire: new Map<string, number>(),
+    bullet: new Map<string, number>(),
+  };
+  // Refs are resolved once every labelled element is known
+  const pending: Array<() => void> = [];
+
+  const fail = (message: string): never => {
+    throw new Error(`Invalid BulletML: ${message}`);
+  };
+
+  const child = (el: XmlElement, name: string) => el.children.find((c) => c.name === name);
+  const expr = (el: XmlElement) => compileExpression(el.text);
+  const params = (el: XmlElement) =>
+    el.children.filter((c) => c.name === 'param').map((param) => expr(param));
+
+  const resolve = (kind: keyof typeof labels, el: XmlElement, assign: (index: number) => void) => {
+    const label = el.attrs['label'];
+    if (!label) fail(`<${el.name}> needs a label`);
+    pending.push(() => {
+      const index = labels[kind].get(label!);
+      if (index === undefined) fail(`<${el.name}> refers to unknown ${kind} "${label}"`);
+      assign(index!);
+    });
+  };
+
+  function direction(el: XmlElement | undefined): BulletMLDirection | undefined {
+    if (!el) return undefined;
+    const kind = el.attrs['type'] ?? 'aim';
+    if (!['aim', 'absolute', 'relative', 'sequence'].includes(kind)) {
+      fail(`unknown direction type "${kind}"`);
+    }
+    return { type: kind as DirectionType, value: expr(el) };
+  }
+
+  function speed(el: XmlElement | undefined): BulletMLSpeed | undefined {
+    if (!el) return undefined;
+    const kind = el.attrs['type'] ?? 'absolute';
+    if (!['absolute', 'relative', 'sequence'].includes(kind)) {
+      fail(`unknown speed type "${kind}"`);
+    }
+    return { type: kind as SpeedType, value: expr(el) };
+  }
+
+  function register(kind: keyof typeof labels, el: XmlElement, index: number): void {
+    const label = el.attrs['label'];
+    if (label === undefined) return;
+    if (labels[kind].has(label)) fail(`duplicate ${kind} label "${label}"`);
+    labels[kind].set(label, index);
+  }
+
+  // Point `ref` at an inline <action> or an <actionRef>'s target
+  function bindAction<T extends BulletMLActionRef>(ref: T, el: XmlElement): T {
+    if (el.name === 'action') {
+      ref.action = action(el);
+      ref.params = null;
+    } else {
+      ref.params = params(el);
+      resolve('action', el, (index) => (ref.action = index));
+    }
+    return ref;
+  }
+
+  function action(el: XmlElement): number {
+    const index = doc.actions.length;
+    const node: BulletMLAction = { label: el.attrs['label'], steps: [] };
+    doc.actions.push(node);
+    register('action', el, index);
+
+    for (const c of el.children) {
+      switch (c.name) {
+        case 'fire':
+          node.steps.push({ kind: 'fire', fire: fire(c), params: null });
+          break;
+        case 'fireRef': {
+          const step = { kind: 'fire' as const, fire: -1, params: params(c) };
+          resolve('fire', c, (i) => (step.fire = i));
+          node.steps.push(step);
+          break;
+        }
+        case 'action':
+        case 'actionRef':
+          node.steps.push(bindAction({ kind: 'action' as const, action: -1, params: null }, c));
+          break;
+        case 'repeat': {
+          const times = child(c, 'times');
+          const body = c.children.find((b) => b.name === 'action' || b.name === 'actionRef');
+          if (!times || !body) fail('<repeat> needs <times> and an <action> or <actionRef>');
+          node.steps.push(
+            bindAction(
+              { kind: 'repeat' as const, times: expr(times!), action: -1, params: null },
+              body!
+            )
+          );
+          break;
+        }
+        case 'wait':
+          node.steps.push({ kind: 'wait', frames: expr(c) });
+          break;
+        case 'changeDirection': {
+          const dir = direction(child(c, 'direction'));
+          const term = child(c, 'term');
+          if (!dir || !term) fail('<changeDirection> needs <direction> and <term>');
+          node.steps.push({ kind: 'changeDirection', direction: dir!, term: expr(term!) });
+          break;
+        }
+        case 'changeSpeed': {
+          const spd = speed(child(c, 'speed'));
+          const term = child(c, 'term');
+          if (!spd || !term) fail('<changeSpeed> needs <speed> and <term>');
+          node.steps.push({ kind: 'changeSpeed', speed: spd!, term: expr(term!) });
+          break;
+        }
+        case 'accel': {
+          const term = child(c, 'term');
+          if (!term) fail('<accel> needs <term>');
+          node.steps.push({
+            kind: 'accel',
+            horizontal: speed(child(c, 'horizontal')),
+            vertical: speed(child(c, 'vertical')),
+            term: expr(term!),
+          });
+          break;
+        }
+        case 'vanish':
+          node.steps.push({ kind: 'vanish' });
+          break;
+        default:
+          fail(`<${c.name}> is not allowed in <action>`);
+      }
+    }
+    return index;
+  }
+
+  function fire(el: XmlElement): number {
+    const index = doc.fires.length;
+    const node: BulletMLFire = {
+      label: el.attrs['label'],
+      direction: direction(child(el, 'direction')),
+      speed: speed(child(el, 'speed')),
+      bullet: -1,
+      bulletParams: null,
+    };
+    doc.fires.push(node);
+    register('fire', el, index);
+
+    const inline = child(el, 'bullet');
+    const ref = child(el, 'bulletRef');
+    if (inline) {
+      node.bullet = bullet(inline);
+    } else if (ref) {
+      node.bulletParams = params(ref);
+      resolve('bullet', ref, (i) => (node.bullet = i));
+    } else {
+      fail('<fire> needs a <bullet> or <bulletRef>');
+    }
+    return index;
+  }
+
+  function bullet(el: XmlElement): number {
+    const index = doc.bullets.length;
+    const node: BulletMLBullet = {
+      label: el.attrs['label'],
+      direction: direction(child(el, 'direction')),
+      speed: speed(child(el, 'speed')),
+      actions: [],
+    };
+    doc.bullets.push(node);
+    register('bullet', el, index);
+
+    for (const c of el.children) {
+      if (c.name === 'action' || c.name === 'actionRef') {
+        node.actions.push(bindAction({ action: -1, params: null }, c));
+      }
+    }
+    return index;
+  }
+
+  for (const el of root.children) {
+    switch (el.name) {
+      case 'action': {
+        const index = action(el);
+        if (/^top\d*$/.test(el.attrs['label'] ?? '')) {
+          doc.top.push(index);
+        }
+        break;
+      }
+      case 'fire':
+        fire(el);
+        break;
+      case 'bullet':
+        bullet(el);
+        break;
+      default:
+        fail(`<${el.name}> is not allowed in <bulletml>`);
+    }
+  }
+
+  for (const link of pending) {
+    link();
+  }
+  if (doc.top.length === 0) {
+    fail('no top-level action labelled "top"');
+  }
+  return doc;
+}
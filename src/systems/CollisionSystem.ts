@@ -4,12 +4,14 @@
 
 // GAME_CONFIG available if needed in future
 // import { GAME_CONFIG } from '../config/constants';
-import { circleCollision, circleAabbCollision } from '../utils/math';
-import type { Bullet } from '../entities/Bullet';
-import type { Enemy } from '../entities/Enemy';
-import type { Player } from '../entities/Player';
-import type { PowerUp } from '../entities/PowerUp';
-import type { Boss } from '../entities/Boss';
+import { circleCollision, circleAabbCollision, segmentCircleCollision } from '../utils/math';
+import type { SimBullet } from '../sim/SimBullet';
+import type { SimEnemy } from '../sim/SimEnemy';
+import type { SimPlayer } from '../sim/SimPlayer';
+import type { SimPowerUp } from '../sim/SimPowerUp';
+import type { SimScoreItem } from '../sim/SimScoreItem';
+import type { SimBoss } from '../sim/SimBoss';
+import type { CircleBounds } from '../types';
 
 export class CollisionSystem {
   // Grid size available if needed in future
@@ -20,9 +22,9 @@ export class CollisionSystem {
    * Returns bullets that hit the shield
    */
   checkShieldBulletCollision(
-    player: Player,
-    enemyBullets: Bullet[]
-  ): Bullet[] {
+    player: SimPlayer,
+    enemyBullets: SimBullet[]
+  ): SimBullet[] {
     if (!player.isShielded) {
       return [];
     }
@@ -38,7 +40,7 @@ export class CollisionSystem {
       radius: shieldRadius,
     };
 
-    const hitBullets: Bullet[] = [];
+    const hitBullets: SimBullet[] = [];
 
     for (const bullet of enemyBullets) {
       if (!bullet.active) continue;
@@ -61,9 +63,9 @@ export class CollisionSystem {
    * Check collision between player and enemy bullets
    */
   checkPlayerBulletCollision(
-    player: Player,
-    enemyBullets: Bullet[]
-  ): Bullet | null {
+    player: SimPlayer,
+    enemyBullets: SimBullet[]
+  ): SimBullet | null {
     if (player.isInvincible) {
       return null;
     }
@@ -92,25 +94,76 @@ export class CollisionSystem {
     return null;
   }
 
+  /**
+   * Enemy bullets passing within `radius` of the player's hitbox that haven't grazed yet;
+   * call after checkPlayerBulletCollision so bullets that hit are already spent
+   */
+  getGrazingBullets(player: SimPlayer, enemyBullets: SimBullet[], radius: number): SimBullet[] {
+    if (player.isInvincible) {
+      return [];
+    }
+
+    const grazeBounds = {
+      x: player.x - player.width / 2 - radius,
+      y: player.y - player.height / 2 - radius,
+      width: player.width + radius * 2,
+      height: player.height + radius * 2,
+    };
+
+    return enemyBullets.filter(
+      (bullet) =>
+        bullet.active &&
+        !bullet.grazed &&
+        circleAabbCollision({ x: bullet.x, y: bullet.y, radius: bullet.width / 2 }, grazeBounds)
+    );
+  }
+
+  /**
+   * Score items touching the player
+   */
+  getPlayerScoreItemCollisions(player: SimPlayer, items: SimScoreItem[]): SimScoreItem[] {
+    const playerBounds = {
+      x: player.x - player.width / 2,
+      y: player.y - player.height / 2,
+      width: player.width,
+      height: player.height,
+    };
+
+    return items.filter(
+      (item) =>
+        item.active &&
+        circleAabbCollision({ x: item.x, y: item.y, radius: item.width / 2 }, playerBounds)
+    );
+  }
+
+  /**
+   * Check whether a player bullet reaches a target: beams along their length, and
+   * piercing bullets only once per target
+   */
+  private bulletHits(bullet: SimBullet, targetId: number, target: CircleBounds): boolean {
+    if (bullet.hasHit(targetId)) {
+      return false;
+    }
+    if (bullet.isBeam) {
+      const { x, y, tailX, tailY, height } = bullet;
+      return segmentCircleCollision(tailX, tailY, x, y, height, target);
+    }
+    return circleCollision({ x: bullet.x, y: bullet.y, radius: bullet.width / 2 }, target);
+  }
+
   /**
    * Check collision between player bullets and enemies
    * Only checks collisions when enemies are visible on screen
    */
   checkBulletEnemyCollision(
-    playerBullets: Bullet[],
-    enemies: Enemy[],
+    playerBullets: SimBullet[],
+    enemies: SimEnemy[],
     screenWidth: number,
     screenHeight: number
-  ): { bullet: Bullet; enemy: Enemy } | null {
+  ): { bullet: SimBullet; enemy: SimEnemy } | null {
     for (const bullet of playerBullets) {
       if (!bullet.active || !bullet.isPlayerBullet) continue;
 
-      const bulletCircle = {
-        x: bullet.x,
-        y: bullet.y,
-        radius: bullet.width / 2,
-      };
-
       for (const enemy of enemies) {
         if (!enemy.active) continue;
 
@@ -133,7 +186,7 @@ export class CollisionSystem {
           radius: enemy.width / 2,
         };
 
-        if (circleCollision(bulletCircle, enemyCircle)) {
+        if (this.bulletHits(bullet, enemy.id, enemyCircle)) {
           return { bullet, enemy };
         }
       }
@@ -146,9 +199,9 @@ export class CollisionSystem {
    * Check collision between player bullets and boss
    */
   checkBulletBossCollision(
-    playerBullets: Bullet[],
-    boss: Boss | null
-  ): { bullet: Bullet; boss: Boss } | null {
+    playerBullets: SimBullet[],
+    boss: SimBoss | null
+  ): { bullet: SimBullet; boss: SimBoss } | null {
     if (!boss || !boss.active) {
       return null;
     }
@@ -156,19 +209,13 @@ export class CollisionSystem {
     for (const bullet of playerBullets) {
       if (!bullet.active || !bullet.isPlayerBullet) continue;
 
-      const bulletCircle = {
-        x: bullet.x,
-        y: bullet.y,
-        radius: bullet.width / 2,
-      };
-
       const bossCircle = {
         x: boss.x,
         y: boss.y,
         radius: boss.width / 2,
       };
 
-      if (circleCollision(bulletCircle, bossCircle)) {
+      if (this.bulletHits(bullet, boss.id, bossCircle)) {
         return { bullet, boss };
       }
     }
@@ -179,7 +226,7 @@ export class CollisionSystem {
   /**
    * Check collision between player and enemies
    */
-  checkPlayerEnemyCollision(player: Player, enemies: Enemy[]): Enemy | null {
+  checkPlayerEnemyCollision(player: SimPlayer, enemies: SimEnemy[]): SimEnemy | null {
     if (player.isInvincible) {
       return null;
     }
@@ -211,7 +258,7 @@ export class CollisionSystem {
   /**
    * Check collision between player and boss
    */
-  checkPlayerBossCollision(player: Player, boss: Boss | null): boolean {
+  checkPlayerBossCollision(player: SimPlayer, boss: SimBoss | null): boolean {
     if (!boss || !boss.active || player.isInvincible) {
       return false;
     }
@@ -236,9 +283,9 @@ export class CollisionSystem {
    * Check collision between player and power-ups
    */
   checkPlayerPowerUpCollision(
-    player: Player,
-    powerUps: PowerUp[]
-  ): PowerUp | null {
+    player: SimPlayer,
+    powerUps: SimPowerUp[]
+  ): SimPowerUp | null {
     const playerBounds = {
       x: player.x - player.width / 2,
       y: player.y - player.height / 2,
@@ -270,9 +317,9 @@ export class CollisionSystem {
     centerX: number,
     centerY: number,
     radius: number,
-    enemies: Enemy[]
-  ): Enemy[] {
-    const cleared: Enemy[] = [];
+    enemies: SimEnemy[]
+  ): SimEnemy[] {
+    const cleared: SimEnemy[] = [];
 
     for (const enemy of enemies) {
       if (!enemy.active) continue;
@@ -296,9 +343,9 @@ export class CollisionSystem {
     centerX: number,
     centerY: number,
     radius: number,
-    bullets: Bullet[]
-  ): Bullet[] {
-    const cleared: Bullet[] = [];
+    bullets: SimBullet[]
+  ): SimBullet[] {
+    const cleared: SimBullet[] = [];
 
     for (const bullet of bullets) {
       if (!bullet.active) continue;
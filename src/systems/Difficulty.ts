@@ -0,0 +1,90 @@
+/**
+ * Difficulty - Presets that scale the BALANCER values for a run
+ *
+ * A run's difficulty (SimulationOptions.difficulty) scales enemy and boss HP,
+ * enemy fire rates and bullet speed, drop chances, starting lives, weapon tiers lost
+ * when hit, the number of enemies per spawn and the score extends (extra lives). The
+ * numbers live in BALANCER.difficulties; this module applies them to enemy archetypes,
+ * bosses and bullet patterns.
+ */
+
+import { z } from 'zod';
+import { BALANCER } from './Balancer';
+import type { BulletPat } from './PatternML';
+import type { BossDefinition, DropTable, EnemyArchetype } from '../types';
+
+export const DIFFICULTY_NAMES = ['easy', 'normal', 'hard', 'insane'] as const;
+
+export type DifficultyName = (typeof DIFFICULTY_NAMES)[number];
+
+export type DifficultyPreset = (typeof BALANCER.difficulties)[DifficultyName];
+
+export const DifficultySchema = z.enum(DIFFICULTY_NAMES);
+
+export const DEFAULT_DIFFICULTY: DifficultyName = 'normal';
+
+/**
+ * Preset for a difficulty (normal when none is given)
+ */
+export function difficultyPreset(name: DifficultyName = DEFAULT_DIFFICULTY): DifficultyPreset {
+  return BALANCER.difficulties[name];
+}
+
+/**
+ * Score that earns the next extra life after `earned` extends, or null once maxExtends are earned
+ */
+export function extendThreshold(preset: DifficultyPreset, earned: number): number | null {
+  if (earned >= preset.maxExtends) {
+    return null;
+  }
+  return preset.extendFirst + earned * preset.extendEvery;
+}
+
+/**
+ * Drop chances scaled by the preset, shrunk back to a total of 1 if they overflow
+ */
+export function scaleDrops(drops: DropTable, preset: DifficultyPreset): DropTable {
+  const scaled = Object.fromEntries(
+    Object.entries(drops).map(([type, chance]) => [type, chance * preset.dropRate])
+  ) as DropTable;
+  const total = Object.values(scaled).reduce((sum, chance) => sum + chance, 0);
+  if (total <= 1) {
+    return scaled;
+  }
+  return Object.fromEntries(
+    Object.entries(scaled).map(([type, chance]) => [type, chance / total])
+  ) as DropTable;
+}
+
+export function scaleArchetype(
+  archetype: EnemyArchetype,
+  preset: DifficultyPreset
+): EnemyArchetype {
+  return {
+    ...archetype,
+    hp: archetype.hp * preset.enemyHP,
+    fireRate: archetype.fireRate * preset.enemyFireRate,
+    drops: scaleDrops(archetype.drops, preset),
+  };
+}
+
+export function scaleBoss(boss: BossDefinition, preset: DifficultyPreset): BossDefinition {
+  return {
+    ...boss,
+    hp: boss.hp * preset.bossHP,
+    phases: boss.phases.map((phase) => ({
+      ...phase,
+      fireIntervalMs: Math.max(16, Math.round(phase.fireIntervalMs / preset.enemyFireRate)),
+    })),
+  };
+}
+
+/**
+ * A pattern's volleys come enemyFireRate times as often
+ */
+export function scalePatternRate(pattern: BulletPat, preset: DifficultyPreset): BulletPat {
+  if (preset.enemyFireRate === 1) {
+    return pattern;
+  }
+  return { ...pattern, spawnEveryMs: Math.round(pattern.spawnEveryMs / preset.enemyFireRate) };
+}
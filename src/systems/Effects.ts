@@ -184,6 +184,24 @@ export class Effects {
     });
   }
 
+  /**
+   * Small spark where an enemy bullet grazed the player
+   */
+  grazeSpark(scene: Phaser.Scene, x: number, y: number): void {
+    const particles = scene.add.particles(x, y, 'bullet-player', {
+      speed: { min: 80, max: 160 },
+      scale: { start: 0.4, end: 0 },
+      lifespan: 200,
+      quantity: 6,
+      tint: 0xffffaa,
+      blendMode: 'ADD',
+    });
+
+    scene.time.delayedCall(200, () => {
+      particles.destroy();
+    });
+  }
+
   /**
    * Create trail effect for moving object
    */
@@ -289,6 +307,38 @@ export class Effects {
       particles.destroy();
     });
   }
+
+  /**
+   * Floating score text that rises and fades (bonuses, awards)
+   */
+  scorePopup(
+    scene: Phaser.Scene,
+    x: number,
+    y: number,
+    text: string,
+    color: string = '#ffff00'
+  ): void {
+    const label = scene.add.text(x, y, text, {
+      fontSize: '24px',
+      fontFamily: 'monospace',
+      color,
+      stroke: '#000000',
+      strokeThickness: 4,
+    });
+    label.setOrigin(0.5);
+    label.setDepth(1000);
+
+    scene.tweens.add({
+      targets: label,
+      y: y - 60,
+      alpha: 0,
+      duration: 1200,
+      ease: easing.easeOut,
+      onComplete: () => {
+        label.destroy();
+      },
+    });
+  }
 }
 
 
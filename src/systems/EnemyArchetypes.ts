@@ -0,0 +1,132 @@
+/**
+ * Enemy archetypes - Data-driven enemy registry (assets/patterns/enemies.json5)
+ *
+ * Each archetype sets an enemy's HP, movement, fire pattern, drops, score and
+ * sprite under a key that waves and spawn schedules refer to, so new enemies
+ * only need a data entry.
+ */
+
+import { z } from 'zod';
+import { BALANCER } from './Balancer';
+import { BulletPattern, type Wave } from './PatternML';
+import type { DropTable, EnemyArchetype, PowerUpType } from '../types';
+
+/**
+ * Movement schema shared by enemies and boss phases
+ */
+export const EnemyPatternSchema = z.object({
+  type: z.enum(['chaser', 'turret', 'sine', 'boss']),
+  speed: z.number().min(0),
+  amplitude: z.number().optional(),
+  frequency: z.number().optional(),
+  fireRate: z.number().optional(),
+});
+
+const chance = z.number().min(0).max(1);
+
+/**
+ * Drop table schema: per power-up chances, which together can't exceed 1
+ */
+export const DropTableSchema = z
+  .object({
+    weapon: chance,
+    bomb: chance,
+    health: chance,
+    shield: chance,
+    laser: chance.optional(),
+    homing: chance.optional(),
+    wave: chance.optional(),
+    tail: chance.optional(),
+  })
+  .refine((drops) => Object.values(drops).reduce((sum, c) => sum + (c ?? 0), 0) <= 1, {
+    message: 'Drop chances must add up to at most 1',
+  });
+
+/**
+ * Power-ups in the order drops are rolled
+ */
+export const DROP_TYPES = [
+  'weapon',
+  'bomb',
+  'health',
+  'shield',
+  'laser',
+  'homing',
+  'wave',
+  'tail',
+] as const satisfies readonly PowerUpType['type'][];
+
+/**
+ * Enemy archetype schema
+ */
+export const EnemyArchetypeSchema = z.object({
+  // camelCase keys, so "sine-flyer" is caught here instead of silently spawning nothing
+  name: z.string().regex(/^[a-z][A-Za-z0-9]*$/, 'Enemy names must be camelCase (e.g. sineFlyer)'),
+  hp: z.number().positive(),
+  pattern: EnemyPatternSchema.refine((pattern) => pattern.type !== 'boss', {
+    message: 'Enemies move as chaser, turret or sine',
+  }),
+  fireRate: z.number().positive(),
+  firePattern: z.union([BulletPattern, z.string()]).optional(),
+  drops: DropTableSchema.default({ ...BALANCER.dropRates }),
+  score: z.number().int().min(0).default(100),
+  sprite: z.string(),
+  fallbackTexture: z.string().optional(),
+  hitbox: z.object({ width: z.number().positive(), height: z.number().positive() }).optional(),
+  cancelRadius: z.number().positive().optional(),
+});
+
+/**
+ * Parse and validate enemy archetypes from JSON
+ */
+export function parseEnemies(json: unknown): EnemyArchetype[] {
+  return z
+    .array(EnemyArchetypeSchema)
+    .min(1)
+    .superRefine((enemies, ctx) => {
+      const seen = new Set<string>();
+      enemies.forEach((enemy, index) => {
+        if (seen.has(enemy.name)) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: [index, 'name'],
+            message: `Duplicate enemy "${enemy.name}"`,
+          });
+        }
+        seen.add(enemy.name);
+      });
+    })
+    .parse(json);
+}
+
+/**
+ * Key archetypes by name
+ */
+export function enemyRegistry(enemies: EnemyArchetype[]): Record<string, EnemyArchetype> {
+  return Object.fromEntries(enemies.map((enemy) => [enemy.name, enemy]));
+}
+
+/**
+ * Enemy keys used by waves (members and leaders) that are missing from the registry
+ */
+export function unknownWaveEnemies(
+  waves: Wave[],
+  registry: Record<string, EnemyArchetype>
+): string[] {
+  const names = waves.flatMap((wave) => (wave.leader ? [wave.enemy, wave.leader] : [wave.enemy]));
+  return [...new Set(names)].filter((name) => !(name in registry));
+}
+
+/**
+ * Power-up for a 0-1 roll against a drop table, or null for no drop
+ */
+export function rollDrop(drops: DropTable, roll: number): keyof DropTable | null {
+  let threshold = 0;
+  for (const type of DROP_TYPES) {
+    threshold += drops[type] ?? 0;
+    if (roll < threshold) {
+      return type;
+    }
+  }
+  return null;
+}
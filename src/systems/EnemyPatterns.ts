@@ -6,7 +6,8 @@ import { RNG } from './RNG';
 
 export type EnemyPatternFn = (
   t: number,
-  i: number
+  i: number,
+  rng?: RNG
 ) => { vx: number; vy: number; rot?: number };
 
 /**
@@ -0,0 +1,81 @@
+/**
+ * Expression - Arithmetic expressions for data-driven patterns
+ *
+ * Compiles text such as "180 + i * 15" into a function of a context object.
+ * Supports numbers, + - * / %, unary minus and parentheses; names are resolved
+ * by the caller, so each pattern format decides which variables exist.
+ */
+
+export type CompiledExpression<C> = (ctx: C) => number;
+
+/**
+ * Compile `source`, looking up each name with `variable`
+ * Throws (prefixed with `label`) on syntax errors and unknown names.
+ */
+export function compileExpression<C>(
+  source: string,
+  variable: (name: string) => CompiledExpression<C> | undefined,
+  label = 'expression'
+): CompiledExpression<C> {
+  const tokens = source.match(/\d*\.\d+|\d+|[$A-Za-z_]\w*|[-+*/%()]|\S/g) ?? [];
+  let index = 0;
+
+  const fail = (message: string): never => {
+    throw new Error(`Invalid ${label} "${source.trim()}": ${message}`);
+  };
+  const peek = (): string | undefined => tokens[index];
+
+  function primary(): CompiledExpression<C> {
+    const token = tokens[index++];
+    if (token === undefined) return fail('unexpected end');
+    if (token === '(') {
+      const inner = additive();
+      if (tokens[index++] !== ')') fail('missing )');
+      return inner;
+    }
+    if (token === '-') {
+      const operand = primary();
+      return (ctx) => -operand(ctx);
+    }
+    if (token === '+') {
+      return primary();
+    }
+    if (/^[$A-Za-z_]/.test(token)) {
+      return variable(token) ?? fail(`unknown name "${token}"`);
+    }
+    const value = Number(token);
+    if (!Number.isFinite(value)) fail(`unexpected "${token}"`);
+    return () => value;
+  }
+
+  function multiplicative(): CompiledExpression<C> {
+    let left = primary();
+    while (peek() === '*' || peek() === '/' || peek() === '%') {
+      const op = tokens[index++];
+      const l = left;
+      const r = primary();
+      left =
+        op === '*'
+          ? (ctx) => l(ctx) * r(ctx)
+          : op === '/'
+            ? (ctx) => l(ctx) / r(ctx)
+            : (ctx) => l(ctx) % r(ctx);
+    }
+    return left;
+  }
+
+  function additive(): CompiledExpression<C> {
+    let left = multiplicative();
+    while (peek() === '+' || peek() === '-') {
+      const op = tokens[index++];
+      const l = left;
+      const r = multiplicative();
+      left = op === '+' ? (ctx) => l(ctx) + r(ctx) : (ctx) => l(ctx) - r(ctx);
+    }
+    return left;
+  }
+
+  const expr = additive();
+  if (index < tokens.length) fail(`unexpected "${tokens[index]}"`);
+  return expr;
+}
@@ -13,6 +13,7 @@ export interface InputState {
   down: boolean;
   fire: boolean;
   bomb: boolean;
+  shield: boolean;
   pause: boolean;
 }
 
@@ -63,6 +64,7 @@ export class InputSystem {
     const down = this.cursors.down.isDown || this.wasd.S.isDown || gamepadY > 0.5;
     const fire = this.space.isDown || validateGamepadButton(this.gamepad?.A);
     const bomb = this.bomb.isDown || validateGamepadButton(this.gamepad?.rightShoulder);
+    const shield = this.shield.isDown || validateGamepadButton(this.gamepad?.leftShoulder);
     const pause = Phaser.Input.Keyboard.JustDown(this.esc) || validateGamepadButton(this.gamepad?.start);
 
     return {
@@ -72,6 +74,7 @@ export class InputSystem {
       down,
       fire,
       bomb,
+      shield,
       pause,
     };
   }
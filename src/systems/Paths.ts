@@ -0,0 +1,179 @@
+/**
+ * Paths - Authored flight paths for enemies (assets/patterns/paths.json5)
+ *
+ * A path is a Catmull-Rom spline through its points, or a chain of cubic
+ * bezier segments, in play-area fractions (0,0 top-left, 1,1 bottom-right;
+ * go past 0..1 to enter or leave off screen). Enemies cover it in durationMs
+ * at a constant speed along the curve, reshaped by a bezier-easing timing
+ * curve, and can stop (and fire) partway along.
+ */
+
+import { z } from 'zod';
+import BezierEasing from 'bezier-easing';
+
+const PointSchema = z.tuple([z.number(), z.number()]);
+
+/**
+ * Path stop: hold at progress `at` (0-1) for holdMs, firing the wave's pattern unless fire is false
+ */
+export const PathStopSchema = z.object({
+  at: z.number().min(0).max(1),
+  holdMs: z.number().int().min(0),
+  fire: z.boolean().default(true),
+});
+
+/**
+ * Path schema
+ */
+export const PathSchema = z
+  .object({
+    name: z.string(),
+    type: z.enum(['catmullRom', 'bezier']),
+    points: z.array(PointSchema).min(2),
+    durationMs: z.number().int().positive(),
+    // bezier-easing control points; the default is linear
+    easing: z
+      .tuple([z.number().min(0).max(1), z.number(), z.number().min(0).max(1), z.number()])
+      .default([0, 0, 1, 1]),
+    spacingMs: z.number().int().min(0).default(300), // Delay between formation members
+    stops: z.array(PathStopSchema).default([]),
+  })
+  .refine((path) => path.type !== 'bezier' || (path.points.length - 1) % 3 === 0, {
+    message: 'Bezier paths need 3n+1 points (start, then two controls and an end per segment)',
+    path: ['points'],
+  })
+  .refine((path) => path.stops.every((stop, i) => i === 0 || stop.at >= path.stops[i - 1]!.at), {
+    message: 'Stops must be in path order',
+    path: ['stops'],
+  });
+
+export type PathDef = z.infer<typeof PathSchema>;
+export type PathStop = z.infer<typeof PathStopSchema>;
+
+/**
+ * Parse and validate a path library from JSON
+ */
+export function parsePaths(json: unknown): PathDef[] {
+  return z.array(PathSchema).parse(json);
+}
+
+type Point = { x: number; y: number };
+
+/**
+ * A path scaled to the play area and ready to sample
+ */
+export interface CompiledPath {
+  def: PathDef;
+  /** Eased progress (0-1) after `ms` of travel */
+  progress(ms: number): number;
+  /** Position at progress u (0-1), at constant speed along the curve */
+  point(u: number): Point;
+}
+
+const ARC_SAMPLES = 256;
+
+function catmullRom(p0: Point, p1: Point, p2: Point, p3: Point, t: number): Point {
+  const t2 = t * t;
+  const t3 = t2 * t;
+  const axis = (a: number, b: number, c: number, d: number) =>
+    0.5 * (2 * b + (c - a) * t + (2 * a - 5 * b + 4 * c - d) * t2 + (3 * b - a - 3 * c + d) * t3);
+  return { x: axis(p0.x, p1.x, p2.x, p3.x), y: axis(p0.y, p1.y, p2.y, p3.y) };
+}
+
+function cubicBezier(p0: Point, c1: Point, c2: Point, p1: Point, t: number): Point {
+  const s = 1 - t;
+  const a = s * s * s;
+  const b = 3 * s * s * t;
+  const c = 3 * s * t * t;
+  const d = t * t * t;
+  return {
+    x: a * p0.x + b * c1.x + c * c2.x + d * p1.x,
+    y: a * p0.y + b * c1.y + c * c2.y + d * p1.y,
+  };
+}
+
+/**
+ * Curve position at parameter t (0-1), spread evenly over its segments
+ */
+function curve(def: PathDef, points: Point[]): (t: number) => Point {
+  if (def.type === 'bezier') {
+    const segments = (points.length - 1) / 3;
+    return (t) => {
+      const s = Math.min(segments - 1, Math.floor(t * segments));
+      const i = s * 3;
+      return cubicBezier(
+        points[i]!,
+        points[i + 1]!,
+        points[i + 2]!,
+        points[i + 3]!,
+        t * segments - s
+      );
+    };
+  }
+  // Catmull-Rom passes through every point; the ends are mirrored so it starts and stops on them
+  const segments = points.length - 1;
+  const at = (i: number): Point => {
+    if (i < 0) return { x: 2 * points[0]!.x - points[1]!.x, y: 2 * points[0]!.y - points[1]!.y };
+    if (i > segments) {
+      const last = points[segments]!;
+      const prev = points[segments - 1]!;
+      return { x: 2 * last.x - prev.x, y: 2 * last.y - prev.y };
+    }
+    return points[i]!;
+  };
+  return (t) => {
+    const s = Math.min(segments - 1, Math.floor(t * segments));
+    return catmullRom(at(s - 1), at(s), at(s + 1), at(s + 2), t * segments - s);
+  };
+}
+
+/**
+ * Scale a path to a width x height play area and build its arc-length table
+ */
+export function compilePath(def: PathDef, width: number, height: number): CompiledPath {
+  const points = def.points.map(([x, y]) => ({ x: x * width, y: y * height }));
+  const sample = curve(def, points);
+
+  // Cumulative length at evenly spaced parameters, so progress maps to distance along the curve
+  const lengths = [0];
+  let previous = sample(0);
+  for (let i = 1; i <= ARC_SAMPLES; i++) {
+    const next = sample(i / ARC_SAMPLES);
+    lengths.push(lengths[i - 1]! + Math.hypot(next.x - previous.x, next.y - previous.y));
+    previous = next;
+  }
+  const total = lengths[ARC_SAMPLES]!;
+
+  const [x1, y1, x2, y2] = def.easing;
+  const ease = BezierEasing(x1, y1, x2, y2);
+
+  return {
+    def,
+    progress: (ms) => (ms <= 0 ? 0 : ms >= def.durationMs ? 1 : ease(ms / def.durationMs)),
+    point: (u) => {
+      const target = Math.max(0, Math.min(1, u)) * total;
+      // Binary search the arc-length table, then interpolate within the sample
+      let lo = 0;
+      let hi = ARC_SAMPLES;
+      while (hi - lo > 1) {
+        const mid = (lo + hi) >> 1;
+        if (lengths[mid]! < target) lo = mid;
+        else hi = mid;
+      }
+      const span = lengths[hi]! - lengths[lo]!;
+      const f = span > 0 ? (target - lengths[lo]!) / span : 0;
+      return sample((lo + f) / ARC_SAMPLES);
+    },
+  };
+}
+
+/**
+ * Compile a path library by name
+ */
+export function compilePaths(
+  defs: PathDef[],
+  width: number,
+  height: number
+): Map<string, CompiledPath> {
+  return new Map(defs.map((def) => [def.name, compilePath(def, width, height)]));
+}
@@ -1,8 +1,89 @@
 /**
  * PatternML - Data-driven bullet pattern system (BulletML-style)
+ *
+ * Bullet fields may be numbers or expressions over the pattern variables, e.g.
+ * `angleDeg: "180 + i * 15"` with `count: 24` lays out a ring in one entry.
  */
 
 import { z } from 'zod';
+import { compileExpression, type CompiledExpression } from './Expression';
+import type { BossDefinition, EnemyArchetype } from '../types';
+
+/**
+ * Variables available to pattern expressions
+ */
+export interface PatternVars {
+  i: number; // Index of the bullet within its entry's count
+  n: number; // The entry's count
+  v: number; // Volley index (0 for the first volley)
+  t: number; // Seconds since the firing enemy appeared
+  rank: number; // Difficulty rank, 0..1
+  rand: number; // Fresh random number in [0, 1) from the patterns RNG stream
+}
+
+const PATTERN_VARIABLES = new Set<string>(['i', 'n', 'v', 't', 'rank', 'rand']);
+
+const compiled = new Map<string, CompiledExpression<PatternVars>>();
+
+/**
+ * Compile (and cache) a pattern expression; throws on syntax errors or unknown variables
+ */
+export function compilePatternExpression(source: string): CompiledExpression<PatternVars> {
+  let expr = compiled.get(source);
+  if (!expr) {
+    expr = compileExpression<PatternVars>(
+      source,
+      (name) =>
+        PATTERN_VARIABLES.has(name) ? (vars) => vars[name as keyof PatternVars] : undefined,
+      'pattern expression'
+    );
+    compiled.set(source, expr);
+  }
+  return expr;
+}
+
+/**
+ * Evaluate a number-or-expression field
+ */
+export function evaluatePatternValue(value: PatternValue, vars: PatternVars): number {
+  return typeof value === 'number' ? value : compilePatternExpression(value)(vars);
+}
+
+const PatternValueSchema = z.union([
+  z.number(),
+  z.string().superRefine((source, ctx) => {
+    try {
+      compilePatternExpression(source);
+    } catch (error) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }),
+]);
+
+export type PatternValue = z.infer<typeof PatternValueSchema>;
+
+/**
+ * One bullet entry, repeated `count` times with i = 0..count-1
+ */
+export const PatternBullet = z.object({
+  speed: PatternValueSchema,
+  angleDeg: PatternValueSchema, // 0 = right, 90 = down; relative to the player when aim is set
+  aim: z.boolean().default(false),
+  accel: PatternValueSchema.default(0),
+  lifeMs: PatternValueSchema.default(4000),
+  count: z.number().int().min(1).default(1),
+  onDeath: z.string().optional(), // Pattern spawned where the bullet expires
+});
+
+/**
+ * Include another pattern's bullets by name
+ */
+export const PatternRef = z.object({
+  pattern: z.string(),
+});
 
 /**
  * Bullet pattern schema
@@ -11,16 +92,14 @@ export const BulletPattern = z.object({
   name: z.string(),
   repeat: z.number().int().min(1).default(1),
   spawnEveryMs: z.number().int().min(0),
-  bullets: z.array(
-    z.object({
-      speed: z.number(),
-      angleDeg: z.number(),
-      accel: z.number().default(0),
-      lifeMs: z.number().int().min(100).default(4000),
-    })
-  ),
+  bullets: z.array(z.union([PatternBullet, PatternRef])),
 });
 
+/**
+ * A reusable library of named patterns
+ */
+export const PatternLibrarySchema = z.array(BulletPattern);
+
 /**
  * Wave schema
  */
@@ -30,11 +109,16 @@ export const WaveSchema = z.object({
   enemy: z.string(), // enemy type key
   count: z.number().int().min(1),
   formation: z.enum(['line', 'arc', 'sine', 'v', 'random']),
-  pattern: BulletPattern,
+  pattern: z.union([BulletPattern, z.string()]), // Inline, or the name of a library pattern
+  leader: z.string().optional(), // Enemy type key of the leader, which takes one of the count slots
+  bonus: z.number().int().min(0).optional(), // Score for destroying every member (BALANCER.formationWipeBonus)
+  path: z.string().optional(), // Name of a path in paths.json5 to fly instead of the formation motion
+  y: z.number().min(0).max(1).optional(), // Formation centre as a fraction of the play height (0.5)
 });
 
 export type Wave = z.infer<typeof WaveSchema>;
 export type BulletPat = z.infer<typeof BulletPattern>;
+export type PatternBulletSpec = z.infer<typeof PatternBullet>;
 
 /**
  * Parse and validate waves from JSON
@@ -44,3 +128,32 @@ export function parseWaves(json: unknown): Wave[] {
   return arr.sort((a, b) => a.t0 - b.t0);
 }
 
+/**
+ * Parse and validate a pattern library from JSON
+ */
+export function parsePatterns(json: unknown): BulletPat[] {
+  return PatternLibrarySchema.parse(json);
+}
+
+/**
+ * Index patterns by name: the library plus every inline wave, boss phase and enemy pattern
+ */
+export function buildPatternLibrary(
+  patterns: BulletPat[],
+  waves: Wave[] = [],
+  bosses: BossDefinition[] = [],
+  enemies: EnemyArchetype[] = []
+): Map<string, BulletPat> {
+  const library = new Map(patterns.map((pattern) => [pattern.name, pattern]));
+  const inline = [
+    ...waves.map((wave) => wave.pattern),
+    ...bosses.flatMap((boss) => boss.phases.map((phase) => phase.firePattern)),
+    ...enemies.flatMap((enemy) => (enemy.firePattern ? [enemy.firePattern] : [])),
+  ];
+  for (const pattern of inline) {
+    if (typeof pattern !== 'string' && !library.has(pattern.name)) {
+      library.set(pattern.name, pattern);
+    }
+  }
+  return library;
+}
@@ -1,89 +1,242 @@
 /**
- * Power-up system - manages weapon tier, bombs, health upgrades
+ * Power-up system - the player's weapon family and levels, bombs, shields and lives
+ *
+ * The one place these values change: every change is clamped to the BALANCER
+ * limits and reported to the onChange listeners. The state is plain data, so
+ * snapshots save and restore it as is.
  */
 
-import { BALANCER } from './Balancer';
+import { BALANCER, getMaxWeaponLevel, getWeaponSpec } from './Balancer';
+import type { PowerUpType, WeaponFamily, WeaponSpec } from '../types';
 
 export interface PowerUpState {
-  weaponTier: number;
+  /** Active weapon family */
+  weapon: WeaponFamily;
+  /** Level of every family, kept while another one is active */
+  weaponLevels: Record<WeaponFamily, number>;
   bombs: number;
-  health: number;
-  maxHealth: number;
+  shields: number;
+  lives: number;
+}
+
+/**
+ * Counted values; weaponTier is the level of the active weapon family
+ */
+export type PowerUpStat = 'weaponTier' | 'bombs' | 'shields' | 'lives';
+
+export type PowerUpChange =
+  | { stat: PowerUpStat; value: number; previous: number }
+  | { stat: 'weapon'; value: WeaponFamily; previous: WeaponFamily };
+
+export interface PowerUpOptions {
+  /** Starting lives (defaults to BALANCER.playerLives) */
+  lives?: number;
+  /** Weapon tiers lost with each life (defaults to 0, keeping the weapon) */
+  weaponTierLossOnHit?: number;
+}
+
+const LIMITS: Record<Exclude<PowerUpStat, 'weaponTier'>, number> = {
+  bombs: Infinity,
+  shields: BALANCER.maxShields,
+  lives: BALANCER.playerMaxLives,
+};
+
+/**
+ * Weapon family a pickup levels up, or null for other power-ups
+ */
+export function weaponFamilyFor(type: PowerUpType['type']): WeaponFamily | null {
+  switch (type) {
+    case 'weapon':
+      return 'spread';
+    case 'laser':
+    case 'homing':
+    case 'wave':
+    case 'tail':
+      return type;
+    default:
+      return null;
+  }
 }
 
 export class PowerUpSystem {
   private state: PowerUpState;
+  private listeners: ((change: PowerUpChange) => void)[] = [];
+  private readonly options: PowerUpOptions;
 
-  constructor() {
-    this.state = {
-      weaponTier: 0,
-      bombs: BALANCER.bombsStart,
-      health: BALANCER.playerLives,
-      maxHealth: BALANCER.playerLives,
+  constructor(options: PowerUpOptions = {}) {
+    this.options = options;
+    this.state = this.initialState();
+  }
+
+  get weapon(): WeaponFamily {
+    return this.state.weapon;
+  }
+
+  get weaponTier(): number {
+    return this.state.weaponLevels[this.state.weapon];
+  }
+
+  get bombs(): number {
+    return this.state.bombs;
+  }
+
+  get shields(): number {
+    return this.state.shields;
+  }
+
+  get lives(): number {
+    return this.state.lives;
+  }
+
+  get weaponSpec(): WeaponSpec {
+    return getWeaponSpec(this.state.weapon, this.weaponTier);
+  }
+
+  /**
+   * Call `listener` after every change; returns a function that stops listening
+   */
+  onChange(listener: (change: PowerUpChange) => void): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter((l) => l !== listener);
     };
   }
 
   /**
-   * Upgrade weapon tier
+   * Level up the active weapon (capped at its family's max level)
    */
-  upgradeWeapon(): void {
-    const maxTier = 2; // 0, 1, 2
-    if (this.state.weaponTier < maxTier) {
-      this.state.weaponTier++;
+  upgradeWeapon(): boolean {
+    return this.set('weaponTier', this.weaponTier + 1);
+  }
+
+  /**
+   * Switch to another weapon family at the level it was left at
+   */
+  selectWeapon(family: WeaponFamily): boolean {
+    const previous = this.state.weapon;
+    if (family === previous) {
+      return false;
     }
+    this.state.weapon = family;
+    this.emit({ stat: 'weapon', value: family, previous });
+    return true;
   }
 
   /**
-   * Add bomb
+   * Weapon pickup: switch to its family and level it up; false when that changed nothing
    */
-  addBomb(): void {
-    this.state.bombs++;
+  collectWeapon(family: WeaponFamily): boolean {
+    const switched = this.selectWeapon(family);
+    const upgraded = this.upgradeWeapon();
+    return switched || upgraded;
   }
 
   /**
-   * Use bomb
+   * Whether a pickup for `family` would change nothing (already active and maxed)
    */
+  isWeaponMaxed(family: WeaponFamily): boolean {
+    return (
+      family === this.state.weapon && this.state.weaponLevels[family] >= getMaxWeaponLevel(family)
+    );
+  }
+
+  addBomb(): boolean {
+    return this.set('bombs', this.state.bombs + 1);
+  }
+
   useBomb(): boolean {
-    if (this.state.bombs > 0) {
-      this.state.bombs--;
-      return true;
-    }
-    return false;
+    return this.set('bombs', this.state.bombs - 1);
+  }
+
+  /**
+   * Add shield (capped at BALANCER.maxShields)
+   */
+  addShield(): boolean {
+    return this.set('shields', this.state.shields + 1);
+  }
+
+  useShield(): boolean {
+    return this.set('shields', this.state.shields - 1);
   }
 
   /**
-   * Add health
+   * Add life (capped at BALANCER.playerMaxLives)
    */
-  addHealth(): void {
-    if (this.state.health < this.state.maxHealth) {
-      this.state.health++;
+  addLife(): boolean {
+    return this.set('lives', this.state.lives + 1);
+  }
+
+  /**
+   * Lose a life, and weaponTierLossOnHit weapon tiers with it
+   */
+  loseLife(): void {
+    this.set('lives', this.state.lives - 1);
+    const tierLoss = this.options.weaponTierLossOnHit ?? 0;
+    if (tierLoss > 0) {
+      this.set('weaponTier', this.weaponTier - tierLoss);
     }
   }
 
   /**
-   * Take damage
+   * Set a value directly, clamped to 0 and its limit; returns whether it changed
    */
-  takeDamage(amount: number): void {
-    this.state.health = Math.max(0, this.state.health - amount);
+  set(stat: PowerUpStat, value: number): boolean {
+    if (stat === 'weaponTier') {
+      const { weapon, weaponLevels } = this.state;
+      const previous = weaponLevels[weapon];
+      const clamped = Math.max(0, Math.min(getMaxWeaponLevel(weapon), value));
+      if (clamped === previous) {
+        return false;
+      }
+      weaponLevels[weapon] = clamped;
+      this.emit({ stat, value: clamped, previous });
+      return true;
+    }
+
+    const previous = this.state[stat];
+    const clamped = Math.max(0, Math.min(LIMITS[stat], value));
+    if (clamped === previous) {
+      return false;
+    }
+    this.state[stat] = clamped;
+    this.emit({ stat, value: clamped, previous });
+    return true;
   }
 
   /**
    * Get current state
    */
   getState(): PowerUpState {
-    return { ...this.state };
+    return { ...this.state, weaponLevels: { ...this.state.weaponLevels } };
+  }
+
+  /**
+   * Restore saved state (without raising events)
+   */
+  setState(state: PowerUpState): void {
+    this.state = { ...state, weaponLevels: { ...state.weaponLevels } };
   }
 
   /**
    * Reset to initial state
    */
   reset(): void {
-    this.state = {
-      weaponTier: 0,
+    this.state = this.initialState();
+  }
+
+  private emit(change: PowerUpChange): void {
+    for (const listener of this.listeners) {
+      listener(change);
+    }
+  }
+
+  private initialState(): PowerUpState {
+    return {
+      weapon: 'spread',
+      weaponLevels: { spread: 0, laser: 0, homing: 0, wave: 0, tail: 0 },
       bombs: BALANCER.bombsStart,
-      health: BALANCER.playerLives,
-      maxHealth: BALANCER.playerLives,
+      shields: BALANCER.shieldsStart,
+      lives: this.options.lives ?? BALANCER.playerLives,
     };
   }
 }
-
@@ -4,18 +4,49 @@
 
 import seedrandom from 'seedrandom';
 
+/**
+ * Internal seedrandom (ARC4) state, for saving and restoring a generator mid-sequence
+ */
+export type RNGState = seedrandom.State.Arc4;
+
 export class RNG {
-  private rng: ReturnType<typeof seedrandom>;
+  private rng: seedrandom.StatefulPRNG<RNGState>;
+  private readonly seed: string;
 
   constructor(seed: string | number) {
-    this.rng = seedrandom(String(seed));
+    this.seed = String(seed);
+    this.rng = seedrandom(this.seed, { state: true });
+  }
+
+  /**
+   * Derive an independent, named child stream from this generator's seed
+   * The child depends only on the seed and name, never on how many numbers the
+   * parent (or any sibling stream) has drawn, so e.g. rng.fork('drops') yields
+   * the same power-ups for a seed no matter what other systems roll.
+   */
+  fork(name: string): RNG {
+    return new RNG(`${this.seed}/${name}`);
+  }
+
+  /**
+   * Export the generator state; the sequence continues identically after setState
+   */
+  getState(): RNGState {
+    return this.rng.state();
+  }
+
+  /**
+   * Resume from a state captured with getState
+   */
+  setState(state: RNGState): void {
+    this.rng = seedrandom('', { state });
   }
 
   /**
    * Random float between 0 and 1
    */
   float(): number {
-    return (this.rng as any).quick() as number;
+    return this.rng.quick();
   }
 
   /**
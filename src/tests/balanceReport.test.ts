@@ -0,0 +1,75 @@
+/**
+ * Tests for the balance report
+ */
+
+import { describe, it, expect } from 'vitest';
+import { BALANCER } from '../systems/Balancer';
+import { DEFAULT_BOSSES } from '../systems/BossDefinitions';
+import { ENEMY_TYPES } from '../entities/EnemyTypes';
+import { parseWaves } from '../systems/PatternML';
+import {
+  buildBalanceReport,
+  formatCsv,
+  formatMarkdown,
+  stageSpawns,
+  type BalanceContent,
+} from '../data/BalanceReport';
+
+const content: BalanceContent = {
+  enemies: Object.values(ENEMY_TYPES),
+  bosses: DEFAULT_BOSSES,
+  waves: [],
+};
+
+describe('Balance report', () => {
+  it('times every tier against each archetype and boss', () => {
+    const [weapons, ttk] = buildBalanceReport(content);
+    expect(weapons!.rows).toHaveLength(BALANCER.maxWeaponTier + 1);
+    expect(ttk!.rows.map((row) => row[0])).toEqual([
+      ...Object.keys(ENEMY_TYPES),
+      'warden (boss ×6)',
+      'overseer (boss ×18)',
+    ]);
+    // Tier 0: 10 damage x 8 shots/s x 1 bullet
+    expect(ttk!.rows.at(-2)![2]).toBe((BALANCER.bossHP * 6) / 80);
+  });
+
+  it('follows the spawn schedule and grows the spawn count across phases', () => {
+    const spawns = stageSpawns(content);
+    const firstPhase = spawns.filter((s) => s.phase === 0);
+    const beforeBoss = BALANCER.spawnSchedule.filter(
+      (s) => s.time < DEFAULT_BOSSES[0]!.spawnAfterSec
+    );
+    expect(firstPhase.map((s) => s.timeSec)).toEqual(beforeBoss.map((s) => s.time));
+    expect(firstPhase[0]!.enemies).toEqual([beforeBoss[0]!.enemyType]);
+    // 50s of growth every 15s carries over: 1.5^3 rounds to 3 enemies per spawn
+    expect(spawns.find((s) => s.phase === 1)!.enemies).toHaveLength(3);
+  });
+
+  it('counts wave members and leaders, looping the timeline', () => {
+    const waves = parseWaves([
+      {
+        t0: 0,
+        duration: 20000,
+        enemy: 'chaser',
+        leader: 'turret',
+        count: 4,
+        formation: 'v',
+        pattern: 'p',
+      },
+    ]);
+    const spawns = stageSpawns({ ...content, waves });
+    expect(spawns.filter((s) => s.phase === 0).map((s) => s.timeSec)).toEqual([0, 20, 40]);
+    expect(spawns[0]!.enemies).toEqual(['turret', 'chaser', 'chaser', 'chaser']);
+  });
+
+  it('prints Markdown tables and quotes CSV cells', () => {
+    const tables = buildBalanceReport(content);
+    const markdown = formatMarkdown(tables);
+    expect(markdown.startsWith('# Balance report')).toBe(true);
+    expect(markdown).toContain('| Target | HP | T0 |');
+    expect(formatCsv({ name: 't', title: 'T', headers: ['a', 'b'], rows: [['x, y', 2]] })).toBe(
+      'a,b\n"x, y",2\n'
+    );
+  });
+});
@@ -3,7 +3,13 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { BALANCER, WEAPON_SPECS, calculateWeaponDPS, calculateTTK } from '../systems/Balancer';
+import {
+  BALANCER,
+  WEAPON_SPECS,
+  calculateWeaponDPS,
+  calculateTTK,
+  getWeaponSpecForTier,
+} from '../systems/Balancer';
 
 describe('Balancer', () => {
   it('should have valid weapon specs', () => {
@@ -64,6 +70,15 @@ describe('Balancer', () => {
     expect(ttk).toBe(2);
   });
 
+  it('should scale weapon specs beyond the base tiers', () => {
+    expect(getWeaponSpecForTier(0)).toMatchObject({ damage: 10, fireRate: 8, bulletCount: 1 });
+    const last = WEAPON_SPECS[WEAPON_SPECS.length - 1]!;
+    const spec = getWeaponSpecForTier(WEAPON_SPECS.length + 1);
+    expect(spec.damage).toBe(last.damage + 2);
+    expect(spec.fireRate).toBe(last.fireRate + 1);
+    expect(spec.bulletCount).toBe(3);
+  });
+
   it('should have spawn schedule', () => {
     expect(BALANCER.spawnSchedule.length).toBeGreaterThan(0);
     BALANCER.spawnSchedule.forEach((spawn) => {
@@ -0,0 +1,178 @@
+/**
+ * Tests for data-driven boss definitions
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import JSON5 from 'json5';
+import { bossPhaseIndex, parseBosses } from '../systems/BossDefinitions';
+import { buildPatternLibrary, parsePatterns } from '../systems/PatternML';
+import { Simulation } from '../sim/Simulation';
+import type { BossDefinition } from '../types';
+import { runFor } from './simHelpers';
+
+function readContent(file: string): unknown {
+  return JSON5.parse(readFileSync(resolve(__dirname, '../../assets/patterns', file), 'utf-8'));
+}
+
+function boss(name: string, hp: number, thresholds: number[]): BossDefinition {
+  return parseBosses([
+    {
+      name,
+      hp,
+      spawnAfterSec: 1,
+      sprite: `${name}-sprite`,
+      phases: thresholds.map((hpThreshold, i) => ({
+        hpThreshold,
+        pattern: { type: 'turret', speed: 0 },
+        fireIntervalMs: 100,
+        sprite: i === thresholds.length - 1 ? `${name}-angry` : undefined,
+        firePattern: {
+          name: `${name}-${i}`,
+          spawnEveryMs: 0,
+          bullets: [{ speed: 100, angleDeg: 180, count: i + 1 }],
+        },
+      })),
+    },
+  ])[0]!;
+}
+
+describe('Boss definitions', () => {
+  it('validates the bundled boss file and its pattern names', () => {
+    const bosses = parseBosses(readContent('bosses.json5'));
+    const library = buildPatternLibrary(parsePatterns(readContent('patterns.json5')), [], bosses);
+
+    for (const definition of bosses) {
+      for (const phase of definition.phases) {
+        if (typeof phase.firePattern === 'string') {
+          expect(library.has(phase.firePattern)).toBe(true);
+        }
+      }
+    }
+  });
+
+  it('rejects bosses without a full-HP phase', () => {
+    expect(() => boss('broken', 100, [0.5])).toThrow();
+  });
+
+  it('picks the phase whose threshold the HP has reached', () => {
+    const definition = boss('order', 100, [0.25, 1, 0.5]);
+    expect(bossPhaseIndex(definition, 1)).toBe(1);
+    expect(bossPhaseIndex(definition, 0.5)).toBe(2);
+    expect(bossPhaseIndex(definition, 0.1)).toBe(0);
+  });
+
+  it('runs any number of phases and ends the run after the last boss', () => {
+    const bosses = [boss('first', 1000, [1, 0.75, 0.5, 0.25]), boss('second', 3000, [1])];
+    const sim = new Simulation({ seed: 1, godMode: true, bosses });
+
+    runFor(sim, 1100);
+    expect(sim.boss?.definition.name).toBe('first');
+    expect(sim.boss?.maxHp).toBe(1000);
+
+    sim.boss!.hp = 400; // Below 0.5
+    const earlier = new Set(sim.bullets.map((b) => b.id)); // Rank can bring a phase 0 volley forward
+    runFor(sim, 150);
+    expect(sim.boss!.currentPhase).toBe(2);
+    const volley = sim.bullets.filter((b) => b.source === 'boss' && !earlier.has(b.id));
+    expect(volley.length).toBeGreaterThan(0);
+    expect(volley.length % 3).toBe(0);
+
+    sim.boss!.hp = 100;
+    runFor(sim, 50);
+    expect(sim.boss!.sprite).toBe('first-angry');
+
+    sim.boss!.hp = 0;
+    runFor(sim, 50);
+    expect(sim.boss).toBeNull();
+    expect(sim.status).toBe('running');
+
+    runFor(sim, 1100);
+    expect(sim.boss?.definition.name).toBe('second');
+    expect(sim.boss?.maxHp).toBe(3000);
+
+    sim.boss!.hp = 0;
+    runFor(sim, 50);
+    expect(sim.status).toBe('victory');
+  });
+
+  it("fires a BulletML script named by a phase, at the sim's rank", () => {
+    const scripted = boss('scripted', 1000, [1]);
+    scripted.phases[0]!.firePattern = 'bulletml/fan.xml';
+    const fan = `
+<bulletml>
+  <action label="top">
+    <repeat>
+      <times>1 + $rank * 4</times>
+      <action>
+        <fire>
+          <direction type="aim">0</direction>
+          <speed>2</speed>
+          <bullet />
+        </fire>
+      </action>
+    </repeat>
+  </action>
+</bulletml>`;
+    const sim = new Simulation({
+      seed: 1,
+      godMode: true,
+      bosses: [scripted],
+      scripts: { 'bulletml/fan.xml': fan },
+    });
+    sim.rank.setState({ base: 1, scoredTo: 0 }, 0);
+
+    runFor(sim, 1100);
+    expect(sim.boss?.definition.name).toBe('scripted');
+    runFor(sim, 150);
+    const shots = sim.bullets.filter((b) => b.source === 'boss');
+    expect(shots.length).toBeGreaterThan(0);
+    expect(shots.length % 5).toBe(0);
+    expect(shots.every((b) => b.scripted)).toBe(true);
+  });
+
+  it('runs one script at a time, restarting it when it ends or the phase changes', () => {
+    // A shot every 20 frames for 2 seconds, fired every 100 ms by the phase
+    const stream = (speed: number) => `
+<bulletml type="horizontal">
+  <action label="top">
+    <repeat>
+      <times>6</times>
+      <action>
+        <fire><direction type="aim">0</direction><speed>${speed}</speed><bullet /></fire>
+        <wait>20</wait>
+      </action>
+    </repeat>
+  </action>
+</bulletml>`;
+    const scripted = boss('scripted', 1000, [1, 0.5]);
+    scripted.phases[0]!.firePattern = 'bulletml/slow.xml';
+    scripted.phases[1]!.firePattern = 'bulletml/fast.xml';
+    const sim = new Simulation({
+      seed: 1,
+      godMode: true,
+      bosses: [scripted],
+      scripts: { 'bulletml/slow.xml': stream(1), 'bulletml/fast.xml': stream(3) },
+    });
+    runFor(sim, 1000);
+
+    const running: number[] = [];
+    for (let t = 0; t < 3000; t += 100) {
+      runFor(sim, 100);
+      running.push(sim.runningScripts);
+    }
+    expect(Math.max(...running)).toBe(1);
+    expect(running).toContain(1);
+    // Two runs of six shots (the second still going), not one run per 100 ms volley
+    const slow = sim.bullets.filter((b) => b.source === 'boss').length;
+    expect(slow).toBeGreaterThan(6);
+    expect(slow).toBeLessThanOrEqual(12);
+
+    sim.boss!.hp = 400;
+    runFor(sim, 100);
+    expect(sim.runningScripts).toBe(1);
+    const fast = sim.bullets.filter((b) => b.source === 'boss' && b.speed > 150);
+    expect(fast.length).toBeGreaterThan(0);
+  });
+});
@@ -3,7 +3,26 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { BulletMLRunner } from '../systems/BulletMLRunner';
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import { BulletMLRunner, BULLETML_FRAME_MS } from '../systems/BulletMLRunner';
+import { compileExpression, parseBulletML } from '../systems/BulletML';
+import { BulletPattern, parsePatterns } from '../systems/PatternML';
+import { RNG } from '../systems/RNG';
+
+// Horizontal scripts use the screen's own directions
+function bulletml(body: string, type = 'horizontal'): string {
+  return `<?xml version="1.0" ?>\n<bulletml type="${type}">${body}</bulletml>`;
+}
+
+function frames(runner: BulletMLRunner, count: number): void {
+  for (let i = 0; i < count; i++) {
+    runner.update(BULLETML_FRAME_MS);
+  }
+}
+
+const direction = (b: { vx: number; vy: number }) =>
+  Math.round((Math.atan2(b.vx, -b.vy) * 180) / Math.PI) || 0;
 
 describe('BulletMLRunner', () => {
   it('spawns a fan', () => {
@@ -47,3 +66,246 @@ describe('BulletMLRunner', () => {
   });
 });
 
+describe('BulletML', () => {
+  it('evaluates expressions with params, rank and rand', () => {
+    const ctx = { params: [4, 10], rank: 0.5, rand: () => 0.25 };
+    expect(compileExpression('$1 * 2 + $2 % 3')(ctx)).toBe(9);
+    expect(compileExpression('-(1 + $rank) * 2')(ctx)).toBe(-3);
+    expect(compileExpression('360 / $1 + $rand * 4')(ctx)).toBe(91);
+    expect(() => compileExpression('1 +')).toThrow();
+    expect(() => compileExpression('$1 $2')).toThrow();
+  });
+
+  it('rejects malformed documents and unknown references', () => {
+    expect(() => parseBulletML('<bulletml><action label="top">')).toThrow();
+    expect(() => parseBulletML(bulletml('<action label="other" />'))).toThrow(/top/);
+    expect(() =>
+      parseBulletML(bulletml('<action label="top"><fireRef label="missing" /></action>'))
+    ).toThrow(/missing/);
+    expect(() => parseBulletML(bulletml('<action label="top"><jump /></action>'))).toThrow();
+  });
+
+  it('repeats fires with waits between them', () => {
+    const doc = parseBulletML(
+      bulletml(`<action label="top">
+        <repeat><times>3</times><action>
+          <fire><direction type="absolute">180</direction><bullet /></fire>
+          <wait>10</wait>
+        </action></repeat>
+      </action>`)
+    );
+    const runner = new BulletMLRunner();
+    const emitter = runner.runBulletML(doc, 100, 100);
+
+    frames(runner, 1);
+    expect(runner.bullets.length).toBe(1);
+    frames(runner, 9);
+    expect(runner.bullets.length).toBe(1);
+    frames(runner, 1);
+    expect(runner.bullets.length).toBe(2);
+    frames(runner, 30);
+    expect(runner.bullets.length).toBe(3);
+    expect(emitter.done).toBe(true);
+
+    // Absolute 180 is straight down at the default speed of 1 px/frame
+    expect(runner.bullets[0]!.vx).toBeCloseTo(0);
+    expect(runner.bullets[0]!.vy).toBeCloseTo(60);
+  });
+
+  it('turns vertical scripts a quarter clockwise to face the player on the left', () => {
+    const body = `<action label="top">
+        <fire><direction type="absolute">180</direction><speed>2</speed><bulletRef label="b" /></fire>
+      </action>
+      <bullet label="b"><action>
+        <wait>1</wait>
+        <accel><horizontal>1</horizontal><term>1</term></accel>
+      </action></bullet>`;
+    const fire = (type: string) => {
+      const runner = new BulletMLRunner();
+      runner.runBulletML(parseBulletML(bulletml(body, type)), 0, 0);
+      frames(runner, 1);
+      const fired = direction(runner.bullets[0]!);
+      frames(runner, 3);
+      const { vx, vy } = runner.bullets[0]!;
+      return { fired, accel: [Math.round(vx / 60), Math.round(vy / 60)] };
+    };
+
+    // Down the screen in a horizontal script; towards the player (left) in a vertical one
+    expect(fire('horizontal')).toEqual({ fired: 180, accel: [1, 2] });
+    expect(fire('vertical')).toEqual({ fired: -90, accel: [-2, 1] });
+    expect(fire('none')).toEqual(fire('vertical'));
+  });
+
+  it('aims at the target and steps sequence directions', () => {
+    const doc = parseBulletML(
+      bulletml(`<action label="top">
+        <fire><direction type="aim">0</direction><bullet /></fire>
+        <repeat><times>2</times><action>
+          <fire><direction type="sequence">30</direction><speed type="sequence">1</speed><bullet /></fire>
+        </action></repeat>
+      </action>`)
+    );
+    const runner = new BulletMLRunner();
+    runner.target = { x: 200, y: 100 };
+    runner.runBulletML(doc, 100, 100);
+    frames(runner, 1);
+
+    expect(runner.bullets.map(direction)).toEqual([90, 120, 150]);
+    expect(Math.hypot(runner.bullets[2]!.vx, runner.bullets[2]!.vy)).toBeCloseTo(180);
+  });
+
+  it('runs bullet actions: changeSpeed, changeDirection, accel and vanish', () => {
+    const doc = parseBulletML(
+      bulletml(`<action label="top">
+        <fire><direction type="absolute">90</direction><speed>2</speed><bulletRef label="b" /></fire>
+      </action>
+      <bullet label="b"><action>
+        <changeSpeed><speed type="relative">2</speed><term>10</term></changeSpeed>
+        <changeDirection><direction type="absolute">180</direction><term>10</term></changeDirection>
+        <wait>10</wait>
+        <accel><vertical>1</vertical><term>5</term></accel>
+        <wait>5</wait>
+        <vanish />
+      </action></bullet>`)
+    );
+    const runner = new BulletMLRunner();
+    runner.runBulletML(doc, 0, 0);
+    frames(runner, 1);
+    const bullet = runner.bullets[0]!;
+
+    frames(runner, 10);
+    expect(bullet.vx).toBeCloseTo(0);
+    expect(bullet.vy).toBeCloseTo(4 * 60);
+
+    frames(runner, 5);
+    expect(bullet.vy).toBeCloseTo(5 * 60);
+
+    frames(runner, 2);
+    expect(runner.bullets.length).toBe(0);
+    expect(runner.activeScripts).toBe(0);
+  });
+
+  it('keeps the speed scale a bullet was fired with through its speed changes', () => {
+    const doc = parseBulletML(
+      bulletml(`<action label="top">
+        <fire><speed>1</speed><bulletRef label="b" /></fire>
+      </action>
+      <bullet label="b"><action>
+        <changeSpeed><speed>2</speed><term>5</term></changeSpeed>
+      </action></bullet>`)
+    );
+    const runner = new BulletMLRunner();
+    runner.speedScale = 1.5;
+    runner.runBulletML(doc, 0, 0);
+    frames(runner, 1);
+    const bullet = runner.bullets[0]!;
+    expect(Math.hypot(bullet.vx, bullet.vy)).toBeCloseTo(1.5 * 60);
+
+    runner.speedScale = 1;
+    frames(runner, 10);
+    expect(Math.hypot(bullet.vx, bullet.vy)).toBeCloseTo(1.5 * 2 * 60);
+  });
+
+  it('passes params through refs and scales with $rank', () => {
+    const doc = parseBulletML(
+      bulletml(`<action label="top">
+        <actionRef label="ring"><param>4 + $rank * 4</param></actionRef>
+      </action>
+      <action label="ring">
+        <repeat><times>$1</times><action>
+          <fire><direction type="sequence">360 / $1</direction><bullet /></fire>
+        </action></repeat>
+      </action>`)
+    );
+    const runner = new BulletMLRunner();
+    runner.rank = 1;
+    runner.runBulletML(doc, 0, 0);
+    frames(runner, 1);
+    expect(runner.bullets.length).toBe(8);
+  });
+
+  it('runs the bundled scripts deterministically with a seeded RNG', () => {
+    const xml = readFileSync(
+      resolve(__dirname, '../../assets/patterns/bulletml/burst.xml'),
+      'utf-8'
+    );
+    const doc = parseBulletML(xml);
+
+    const run = () => {
+      const runner = new BulletMLRunner(undefined, new RNG('bulletml'));
+      runner.target = { x: 0, y: 300 };
+      runner.runBulletML(doc, 600, 300);
+      frames(runner, 200);
+      return runner.bullets.map((b) => [b.x, b.y]);
+    };
+
+    const first = run();
+    // Three shells, each splitting into 12 bullets at rank 0.5
+    expect(first.length).toBe(36);
+    expect(run()).toEqual(first);
+
+    const spiral = parseBulletML(
+      readFileSync(resolve(__dirname, '../../assets/patterns/bulletml/spiral.xml'), 'utf-8')
+    );
+    expect(spiral.top.length).toBe(1);
+  });
+});
+
+describe('PatternML', () => {
+  const pattern = (bullets: unknown[]) =>
+    BulletPattern.parse({ name: 'test', spawnEveryMs: 100, bullets });
+
+  it('expands entries over count with expressions', () => {
+    const runner = new BulletMLRunner();
+    runner.spawnPattern(
+      0,
+      0,
+      pattern([{ speed: '100 + v * 10', angleDeg: '90 + i * 360 / n', count: 4 }]),
+      { v: 2 }
+    );
+
+    expect(runner.bullets.length).toBe(4);
+    expect(runner.bullets.map(direction)).toEqual([180, -90, 0, 90]);
+    expect(Math.hypot(runner.bullets[0]!.vx, runner.bullets[0]!.vy)).toBeCloseTo(120);
+  });
+
+  it('rejects invalid expressions and unknown variables', () => {
+    expect(() => pattern([{ speed: 100, angleDeg: '180 +' }])).toThrow();
+    expect(() => pattern([{ speed: 'speed * 2', angleDeg: 0 }])).toThrow(/speed/);
+  });
+
+  it('aims relative to the target', () => {
+    const runner = new BulletMLRunner();
+    runner.target = { x: 0, y: 100 };
+    runner.spawnPattern(0, 0, pattern([{ speed: 100, angleDeg: 0, aim: true }]));
+    expect(runner.bullets[0]!.vx).toBeCloseTo(0);
+    expect(runner.bullets[0]!.vy).toBeCloseTo(100);
+  });
+
+  it('includes named patterns and spawns children when bullets expire', () => {
+    const runner = new BulletMLRunner();
+    runner.patterns = new Map(
+      parsePatterns([
+        { name: 'ring', spawnEveryMs: 0, bullets: [{ speed: 50, angleDeg: 'i * 90', count: 4 }] },
+        {
+          name: 'shell',
+          spawnEveryMs: 0,
+          bullets: [{ speed: 100, angleDeg: 0, lifeMs: 200, onDeath: 'ring' }],
+        },
+        { name: 'loop', spawnEveryMs: 0, bullets: [{ pattern: 'loop' }] },
+      ]).map((p) => [p.name, p])
+    );
+
+    runner.spawnPattern(0, 0, pattern([{ pattern: 'shell' }, { pattern: 'ring' }]));
+    expect(runner.bullets.length).toBe(5);
+
+    runner.update(250);
+    // Shell expired at x = 25 and burst into a ring there
+    expect(runner.bullets.length).toBe(8);
+    expect(runner.bullets.slice(4).every((b) => b.x === 25)).toBe(true);
+
+    // Self-referencing patterns stop expanding instead of recursing forever
+    runner.spawnPattern(0, 0, runner.patterns.get('loop')!);
+    expect(runner.bullets.length).toBe(8);
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Tests for the kill chain score multiplier
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Chain } from '../sim/Chain';
+import { Simulation } from '../sim/Simulation';
+import { parseSnapshot, serializeSnapshot } from '../sim/Snapshot';
+import { BALANCER } from '../systems/Balancer';
+import { IDLE, STEP_MS, runFor } from './simHelpers';
+
+describe('Chain', () => {
+  it('raises the multiplier with each kill, up to the cap', () => {
+    const chain = new Chain();
+    expect(chain.multiplier).toBe(1);
+    chain.onKill();
+    expect(chain.score(100)).toBe(100);
+    chain.onKill();
+    expect(chain.multiplier).toBeCloseTo(1 + BALANCER.chain.multiplierPerKill);
+
+    for (let i = 0; i < 100; i++) chain.onKill();
+    expect(chain.multiplier).toBe(BALANCER.chain.maxMultiplier);
+    expect(chain.peak).toBe(102);
+  });
+
+  it('breaks when the window runs out, unless kept alive', () => {
+    const chain = new Chain();
+    chain.onKill();
+    chain.onKill();
+    expect(chain.update(BALANCER.chain.windowMs - 1)).toBe(0);
+    chain.keepAlive();
+    expect(chain.update(BALANCER.chain.windowMs - 1)).toBe(0);
+    expect(chain.update(1)).toBe(2);
+    expect(chain.length).toBe(0);
+    expect(chain.multiplier).toBe(1);
+    expect(chain.peak).toBe(2);
+
+    chain.keepAlive(); // Nothing to keep alive
+    expect(chain.update(1)).toBe(0);
+  });
+
+  it('multiplies kill scores in the simulation and is saved in snapshots', () => {
+    const sim = new Simulation({ seed: 1, godMode: true });
+    for (let i = 0; i < 3; i++) {
+      sim.spawnEnemy('chaser', 400, 200 + i * 100);
+    }
+    const events = sim.step({ ...IDLE, bomb: true }, STEP_MS);
+    const scores = events.flatMap((e) => (e.type === 'enemyKilled' ? [e.score] : []));
+    const base = BALANCER.scorePerKill.chaser;
+    expect(scores).toEqual([
+      base,
+      Math.round(base * (1 + BALANCER.chain.multiplierPerKill)),
+      Math.round(base * (1 + 2 * BALANCER.chain.multiplierPerKill)),
+    ]);
+    expect(sim.state.chain).toBe(3);
+
+    const resumed = Simulation.fromSnapshot(parseSnapshot(serializeSnapshot(sim.toSnapshot(120))));
+    expect(resumed.chain.getState()).toEqual(sim.chain.getState());
+
+    const later = runFor(sim, BALANCER.chain.windowMs + STEP_MS);
+    expect(later).toContainEqual({ type: 'chainBroken', chain: 3 });
+    expect(sim.chain.peak).toBe(3);
+  });
+
+  it('breaks when the player loses a life', () => {
+    const sim = new Simulation({ seed: 1 });
+    sim.chain.onKill();
+    sim.chain.onKill();
+    sim.spawnEnemy('chaser', sim.player.x, sim.player.y);
+    const events = sim.step(IDLE, STEP_MS);
+    expect(sim.player.lives).toBe(BALANCER.playerLives - 1);
+    expect(events).toContainEqual({ type: 'chainBroken', chain: 2 });
+    expect(sim.state.chain).toBe(0);
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Tests for the stage content linter
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readFileSync, readdirSync } from 'fs';
+import { resolve } from 'path';
+import JSON5 from 'json5';
+import { CONTENT_FILES, lintContent } from '../data/ContentLint';
+
+const CONTENT_DIR = resolve(__dirname, '../../assets/patterns');
+
+function bundledSources(): Record<string, string> {
+  const sources: Record<string, string> = {};
+  for (const file of Object.values(CONTENT_FILES)) {
+    sources[file] = readFileSync(resolve(CONTENT_DIR, file), 'utf-8');
+  }
+  for (const file of readdirSync(resolve(CONTENT_DIR, 'bulletml'))) {
+    sources[`bulletml/${file}`] = readFileSync(resolve(CONTENT_DIR, 'bulletml', file), 'utf-8');
+  }
+  return sources;
+}
+
+function wave(t0: number, duration: number, enemy = 'chaser', pattern: unknown = 'ring') {
+  return { t0, duration, enemy, count: 3, formation: 'line', pattern };
+}
+
+const ring = {
+  name: 'ring',
+  spawnEveryMs: 0,
+  bullets: [{ speed: 100, angleDeg: 'i * 30', count: 12 }],
+};
+
+function lint(waves: unknown[], patterns: unknown[] = [ring]) {
+  return lintContent({
+    [CONTENT_FILES.waves]: JSON.stringify(waves),
+    [CONTENT_FILES.patterns]: JSON.stringify(patterns),
+  });
+}
+
+describe('Content lint', () => {
+  it('passes the bundled content', () => {
+    expect(lintContent(bundledSources())).toEqual([]);
+  });
+
+  it('reports schema errors with their path', () => {
+    const issues = lintContent({ [CONTENT_FILES.waves]: '[{ t0: 0, duration: 1000, count: 0 }]' });
+    expect(issues.every((issue) => issue.severity === 'error')).toBe(true);
+    expect(issues.map((issue) => issue.message)).toContainEqual(
+      expect.stringMatching(/^0\.count:/)
+    );
+  });
+
+  it('catches unknown enemy keys and suggests the camelCase one', () => {
+    const [issue] = lint([wave(0, 1000, 'sine-flyer')]);
+    expect(issue).toMatchObject({ severity: 'error', file: CONTENT_FILES.waves });
+    expect(issue!.message).toContain('did you mean "sineFlyer"');
+  });
+
+  it('catches unknown pattern names, includes and onDeath children', () => {
+    const patterns = [
+      ring,
+      {
+        name: 'outer',
+        spawnEveryMs: 0,
+        bullets: [{ pattern: 'missing' }, { speed: 1, angleDeg: 0, onDeath: 'gone' }],
+      },
+    ];
+    const messages = lint([wave(0, 1000, 'chaser', 'nope')], patterns).map((i) => i.message);
+    expect(messages).toEqual([
+      expect.stringContaining('unknown pattern "nope"'),
+      expect.stringContaining('includes unknown pattern "missing"'),
+      expect.stringContaining('spawns unknown pattern "gone"'),
+    ]);
+  });
+
+  it('checks that fired BulletML scripts are among the sources', () => {
+    const sources = bundledSources();
+    const enemies = JSON5.parse(sources[CONTENT_FILES.enemies]!) as { firePattern?: unknown }[];
+    enemies[0]!.firePattern = 'bulletml/spiral.xml';
+    enemies[1]!.firePattern = 'bulletml/missing.xml';
+    const issues = lintContent({ ...sources, [CONTENT_FILES.enemies]: JSON.stringify(enemies) });
+    expect(issues.map((i) => i.message)).toEqual([
+      expect.stringContaining('unknown BulletML script "bulletml/missing.xml"'),
+    ]);
+  });
+
+  it('warns about overlaps, unreachable waves, lost volleys and instant bullets', () => {
+    const volleys = {
+      name: 'slow',
+      repeat: 5,
+      spawnEveryMs: 1000,
+      bullets: [{ speed: 1, angleDeg: 0, lifeMs: 5 }],
+    };
+    const issues = lint([wave(0, 4000), wave(3000, 2000, 'turret', volleys), wave(500000, 1000)]);
+    expect(issues.every((issue) => issue.severity === 'warning')).toBe(true);
+    expect(issues.map((issue) => issue.message)).toEqual([
+      expect.stringContaining('expires before'),
+      expect.stringContaining('only 2 of 5 volleys'),
+      expect.stringContaining('never spawns'),
+      expect.stringContaining('Waves at 0ms and 3000ms overlap'),
+    ]);
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Tests for difficulty presets and per-difficulty high scores
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Simulation } from '../sim/Simulation';
+import { ReplayRecorder, parseReplay, serializeReplay } from '../sim/Replay';
+import { ENEMY_TYPES } from '../entities/EnemyTypes';
+import { DEFAULT_BOSSES } from '../systems/BossDefinitions';
+import { BALANCER } from '../systems/Balancer';
+import { difficultyPreset, scaleDrops } from '../systems/Difficulty';
+import { getHighScore, readHighScores, recordHighScore } from '../data/HighScores';
+
+describe('Difficulty', () => {
+  it('runs on normal by default without changing the content', () => {
+    const sim = new Simulation({ seed: 1 });
+    const [enemy] = Object.values(ENEMY_TYPES);
+    expect(sim.enemyTypes[enemy!.name]!.hp).toBe(enemy!.hp);
+    expect(sim.bosses[0]!.hp).toBe(DEFAULT_BOSSES[0]!.hp);
+    expect(sim.player.lives).toBe(BALANCER.difficulties.normal.lives);
+  });
+
+  it('scales enemy and boss HP, fire rates and lives', () => {
+    const hard = new Simulation({ seed: 1, difficulty: 'hard' });
+    const easy = new Simulation({ seed: 1, difficulty: 'easy' });
+    const [enemy] = Object.values(ENEMY_TYPES);
+    const preset = difficultyPreset('hard');
+
+    expect(hard.enemyTypes[enemy!.name]!.hp).toBeCloseTo(enemy!.hp * preset.enemyHP);
+    expect(hard.enemyTypes[enemy!.name]!.fireRate).toBeCloseTo(
+      enemy!.fireRate * preset.enemyFireRate
+    );
+    expect(hard.bosses[0]!.hp).toBeCloseTo(DEFAULT_BOSSES[0]!.hp * preset.bossHP);
+    expect(hard.bosses[0]!.phases[0]!.fireIntervalMs).toBeLessThan(
+      DEFAULT_BOSSES[0]!.phases[0]!.fireIntervalMs
+    );
+    expect(easy.player.lives).toBe(BALANCER.difficulties.easy.lives);
+  });
+
+  it('keeps scaled drop chances within a total of 1', () => {
+    const drops = scaleDrops(
+      { weapon: 0.5, bomb: 0.3, health: 0.1, shield: 0 },
+      difficultyPreset('easy')
+    );
+    const total = Object.values(drops).reduce((sum, chance) => sum + chance, 0);
+    expect(total).toBeCloseTo(1);
+    expect(drops.weapon / drops.bomb).toBeCloseTo(0.5 / 0.3);
+  });
+
+  it('records the difficulty in replays', () => {
+    const options = { seed: 'difficulty', difficulty: 'insane' as const };
+    const sim = new Simulation(options);
+    const recorder = new ReplayRecorder(options, 120);
+    const replay = parseReplay(serializeReplay(recorder.toReplay(sim.state.score)));
+    expect(replay.difficulty).toBe('insane');
+  });
+});
+
+describe('High scores', () => {
+  beforeEach(() => localStorage.clear());
+
+  it('keeps the best score for each difficulty separately', () => {
+    expect(recordHighScore('hard', 5000)).toBe(true);
+    expect(recordHighScore('hard', 4000)).toBe(false);
+    expect(recordHighScore('easy', 9000)).toBe(true);
+
+    expect(getHighScore('hard')).toBe(5000);
+    expect(getHighScore('normal')).toBe(0);
+    expect(readHighScores()).toEqual({ easy: 9000, hard: 5000 });
+  });
+});
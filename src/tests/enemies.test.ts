@@ -0,0 +1,228 @@
+/**
+ * Tests for the data-driven enemy archetype registry
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import JSON5 from 'json5';
+import {
+  enemyRegistry,
+  parseEnemies,
+  rollDrop,
+  unknownWaveEnemies,
+} from '../systems/EnemyArchetypes';
+import { parseWaves } from '../systems/PatternML';
+import { DEFAULT_ENEMIES } from '../entities/EnemyTypes';
+import { Simulation } from '../sim/Simulation';
+import { BALANCER } from '../systems/Balancer';
+import type { SimEnemy } from '../sim/SimEnemy';
+import { parseSnapshot, serializeSnapshot } from '../sim/Snapshot';
+import { runFor } from './simHelpers';
+
+function readContent(file: string): unknown {
+  return JSON5.parse(readFileSync(resolve(__dirname, '../../assets/patterns', file), 'utf-8'));
+}
+
+const gunship = {
+  name: 'gunship',
+  hp: 500,
+  pattern: { type: 'turret', speed: 40 },
+  fireRate: 4,
+  firePattern: {
+    name: 'gunship-ring',
+    spawnEveryMs: 0,
+    bullets: [{ speed: 120, angleDeg: 'i * 90', count: 4 }],
+  },
+  drops: { weapon: 0, bomb: 0, health: 0, shield: 1 },
+  score: 750,
+  sprite: 'enemyGreen1',
+  hitbox: { width: 40, height: 30 },
+};
+
+// Two rings a second apart, with more bullets at a higher rank
+const RINGS_XML = `
+<bulletml>
+  <action label="top">
+    <repeat>
+      <times>2</times>
+      <action>
+        <repeat>
+          <times>4 + $rank * 8</times>
+          <action>
+            <fire>
+              <direction type="sequence">30</direction>
+              <speed>1</speed>
+              <bullet />
+            </fire>
+          </action>
+        </repeat>
+        <wait>60</wait>
+      </action>
+    </repeat>
+  </action>
+</bulletml>`;
+
+const SCRIPT = 'bulletml/test.xml';
+
+/**
+ * A simulation with a "scripter" turret that holds still and fires the BulletML `xml`
+ */
+function scriptedSim(xml: string, fireRate = 0.5): { sim: Simulation; enemy: SimEnemy } {
+  const scripter = parseEnemies([
+    {
+      ...gunship,
+      name: 'scripter',
+      pattern: { type: 'turret', speed: 0 },
+      fireRate,
+      firePattern: SCRIPT,
+    },
+  ]);
+  const sim = new Simulation({
+    seed: 1,
+    godMode: true,
+    enemies: [...DEFAULT_ENEMIES, ...scripter],
+    scripts: { [SCRIPT]: xml },
+  });
+  return { sim, enemy: sim.spawnEnemy('scripter', 600, 200) };
+}
+
+describe('Enemy archetypes', () => {
+  it('validates the bundled enemy file against the built-in archetypes', () => {
+    const enemies = parseEnemies(readContent('enemies.json5'));
+    expect(enemies.slice(0, DEFAULT_ENEMIES.length)).toEqual(DEFAULT_ENEMIES);
+    // Only the file's large enemies cancel bullets when they die
+    expect(enemies.filter((e) => e.cancelRadius).map((e) => e.name)).toEqual(['gunship']);
+
+    const waves = parseWaves(readContent('waves.json5'));
+    expect(unknownWaveEnemies(waves, enemyRegistry(enemies))).toEqual([]);
+  });
+
+  it('rejects kebab-case names, duplicates and over-full drop tables', () => {
+    expect(() => parseEnemies([{ ...gunship, name: 'sine-flyer' }])).toThrow(/camelCase/);
+    expect(() => parseEnemies([gunship, gunship])).toThrow(/Duplicate/);
+    expect(() =>
+      parseEnemies([{ ...gunship, drops: { weapon: 0.5, bomb: 0.5, health: 0.1, shield: 0 } }])
+    ).toThrow(/at most 1/);
+  });
+
+  it('reports wave enemies missing from the registry', () => {
+    const waves = parseWaves([
+      { t0: 0, duration: 1000, enemy: 'sine-flyer', count: 1, formation: 'line', pattern: 'x' },
+      { t0: 0, duration: 1000, enemy: 'chaser', count: 1, formation: 'line', pattern: 'x' },
+    ]);
+    expect(unknownWaveEnemies(waves, enemyRegistry(DEFAULT_ENEMIES))).toEqual(['sine-flyer']);
+  });
+
+  it('rolls drops in table order', () => {
+    const drops = { weapon: 0.25, bomb: 0.25, health: 0, shield: 0.25 };
+    expect(rollDrop(drops, 0.1)).toBe('weapon');
+    expect(rollDrop(drops, 0.3)).toBe('bomb');
+    expect(rollDrop(drops, 0.6)).toBe('shield');
+    expect(rollDrop(drops, 0.9)).toBeNull();
+  });
+
+  it('spawns, scores and saves an enemy defined only in data', () => {
+    const enemies = [...DEFAULT_ENEMIES, ...parseEnemies([gunship])];
+    const sim = new Simulation({ seed: 1, godMode: true, enemies });
+
+    const enemy = sim.spawnEnemy('gunship', 600, 300);
+    expect(enemy.maxHp).toBe(500);
+    expect(enemy.width).toBe(40);
+    expect(enemy.bulletPattern?.name).toBe('gunship-ring');
+    expect(enemy.shouldDropPowerUp()).toBe('shield');
+
+    const restored = Simulation.fromSnapshot(parseSnapshot(serializeSnapshot(sim.toSnapshot(120))));
+    expect(restored.enemies[0]!.archetype.score).toBe(750);
+
+    expect(() => sim.spawnEnemy('dragon', 600, 300)).toThrow(/Unknown enemy type/);
+  });
+
+  it('fires a BulletML script named by firePattern, following the enemy until it dies', () => {
+    const start = (rank: number) => {
+      const { sim, enemy } = scriptedSim(RINGS_XML);
+      sim.rank.setState({ base: rank, scoredTo: 0 }, 0);
+      expect(enemy.fireScript).toBe(SCRIPT);
+      enemy.fireTimer = 1 / enemy.fireRate;
+      runFor(sim, 50);
+      return { sim, enemy };
+    };
+
+    expect(start(0).sim.bullets).toHaveLength(4);
+    const { sim, enemy } = start(1);
+    expect(sim.bullets).toHaveLength(12);
+    expect(sim.bullets.every((b) => b.scripted && b.source === 'enemy')).toBe(true);
+
+    // The second ring comes from wherever the enemy has moved to
+    const firstRing = new Set(sim.bullets.map((b) => b.id));
+    enemy.x = 300;
+    runFor(sim, 1000);
+    const secondRing = sim.bullets.filter((b) => !firstRing.has(b.id));
+    expect(secondRing).toHaveLength(12);
+    expect(secondRing.every((b) => Math.abs(b.x - enemy.x) < 40)).toBe(true);
+
+    // A destroyed enemy's script stops before its second ring
+    const killed = start(1);
+    killed.enemy.active = false;
+    runFor(killed.sim, 1100);
+    expect(killed.sim.bullets.length).toBeLessThanOrEqual(12);
+  });
+
+  it('aims scripted shots at where the player is when they fire', () => {
+    const { sim, enemy } = scriptedSim(`
+<bulletml type="horizontal">
+  <action label="top">
+    <wait>30</wait>
+    <fire><direction type="aim">0</direction><bullet /></fire>
+  </action>
+</bulletml>`);
+    enemy.fireTimer = 1 / enemy.fireRate;
+    runFor(sim, 50);
+    expect(sim.bullets).toHaveLength(0);
+
+    sim.player.y = 600;
+    runFor(sim, 500);
+    const [shot] = sim.bullets;
+    expect(shot).toBeDefined();
+    const aimed = Math.atan2(sim.player.y - shot!.y, sim.player.x - shot!.x);
+    expect(Math.atan2(shot!.vy, shot!.vx)).toBeCloseTo(aimed, 1);
+  });
+
+  it('scales scripted bullet speeds by difficulty and rank, even after they change speed', () => {
+    const { sim, enemy } = scriptedSim(`
+<bulletml type="horizontal">
+  <action label="top">
+    <fire><speed>1</speed><bulletRef label="faster" /></fire>
+  </action>
+  <bullet label="faster">
+    <action><changeSpeed><speed>2</speed><term>10</term></changeSpeed></action>
+  </bullet>
+</bulletml>`);
+    sim.rank.setState({ base: 1, scoredTo: 0 }, 0);
+    enemy.fireTimer = 1 / enemy.fireRate;
+    runFor(sim, 500);
+    const [shot] = sim.bullets;
+    expect(Math.hypot(shot!.vx, shot!.vy)).toBeCloseTo(2 * 60 * BALANCER.rank.bulletSpeed.max, 0);
+  });
+
+  it('saves running scripts and their bullets mid-volley, resuming them exactly', () => {
+    const burst = readFileSync(
+      resolve(__dirname, '../../assets/patterns/bulletml/burst.xml'),
+      'utf-8'
+    );
+    const { sim, enemy } = scriptedSim(burst);
+    enemy.fireTimer = 1 / enemy.fireRate;
+    runFor(sim, 400); // Second shell fired, the first still slowing down
+    expect(sim.runningScripts).toBe(1);
+
+    const resumed = Simulation.fromSnapshot(parseSnapshot(serializeSnapshot(sim.toSnapshot(120))));
+    expect(resumed.runningScripts).toBe(1);
+
+    runFor(sim, 1500);
+    runFor(resumed, 1500);
+    const bullets = (s: Simulation) => s.bullets.map((b) => [b.id, b.x, b.y, b.vx, b.vy]);
+    expect(bullets(sim).length).toBeGreaterThan(8); // The shells have split
+    expect(bullets(resumed)).toEqual(bullets(sim));
+    expect(resumed.runningScripts).toBe(sim.runningScripts);
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Tests for extra lives earned from score
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Simulation } from '../sim/Simulation';
+import { parseSnapshot, serializeSnapshot } from '../sim/Snapshot';
+import { difficultyPreset, extendThreshold } from '../systems/Difficulty';
+import { BALANCER } from '../systems/Balancer';
+import type { SimEvent } from '../sim/SimEvents';
+import { IDLE, STEP_MS } from './simHelpers';
+
+describe('Extends', () => {
+  it('comes first at extendFirst, then every extendEvery, up to maxExtends', () => {
+    const normal = difficultyPreset('normal');
+    expect(extendThreshold(normal, 0)).toBe(normal.extendFirst);
+    expect(extendThreshold(normal, 1)).toBe(normal.extendFirst + normal.extendEvery);
+    expect(extendThreshold(normal, normal.maxExtends)).toBeNull();
+
+    const insane = difficultyPreset('insane');
+    expect(insane.extendFirst).toBeGreaterThan(normal.extendFirst);
+    expect(insane.maxExtends).toBeLessThan(normal.maxExtends);
+  });
+
+  it('awards a life once per threshold passed', () => {
+    const sim = new Simulation({ seed: 1 });
+    const preset = difficultyPreset('normal');
+    const lives = sim.player.lives;
+
+    sim.state.score = preset.extendFirst - 1;
+    expect(sim.step(IDLE, STEP_MS).some((e) => e.type === 'extend')).toBe(false);
+
+    sim.state.score = preset.extendFirst;
+    expect(sim.step(IDLE, STEP_MS)).toContainEqual({ type: 'extend', extends: 1 });
+    expect(sim.player.lives).toBe(lives + 1);
+    expect(sim.step(IDLE, STEP_MS).some((e) => e.type === 'extend')).toBe(false);
+    expect(sim.state.extends).toBe(1);
+  });
+
+  it('stops at the cap and is saved in snapshots', () => {
+    const sim = new Simulation({ seed: 1, difficulty: 'hard' });
+    const { maxExtends } = difficultyPreset('hard');
+
+    sim.state.score = 1e9;
+    const events = sim.step(IDLE, STEP_MS);
+    expect(events.filter((e) => e.type === 'extend')).toHaveLength(maxExtends);
+    expect(sim.state.extends).toBe(maxExtends);
+
+    const resumed = Simulation.fromSnapshot(parseSnapshot(serializeSnapshot(sim.toSnapshot(120))));
+    expect(resumed.state.extends).toBe(maxExtends);
+    const later: SimEvent[] = [];
+    for (let i = 0; i < 10; i++) later.push(...resumed.step(IDLE, STEP_MS));
+    expect(later.some((e) => e.type === 'extend')).toBe(false);
+  });
+
+  it('pays a score bonus instead of a life once lives are full', () => {
+    const sim = new Simulation({ seed: 1, difficulty: 'easy' });
+    const { lives, maxExtends } = difficultyPreset('easy');
+    expect(BALANCER.playerMaxLives - lives).toBe(1);
+
+    sim.state.score = 1e9;
+    const awarded = sim.step(IDLE, STEP_MS).filter((e) => e.type === 'extend');
+    expect(awarded).toEqual([
+      { type: 'extend', extends: 1 },
+      ...Array.from({ length: maxExtends - 1 }, (_, i) => ({
+        type: 'extend',
+        extends: i + 2,
+        bonus: BALANCER.extendBonus,
+      })),
+    ]);
+    expect(sim.player.lives).toBe(BALANCER.playerMaxLives);
+    expect(sim.state.extends).toBe(maxExtends);
+    expect(sim.state.score).toBe(1e9 + (maxExtends - 1) * BALANCER.extendBonus);
+  });
+});
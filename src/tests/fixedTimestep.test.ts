@@ -0,0 +1,75 @@
+/**
+ * Tests for the fixed-step simulation loop
+ */
+
+import { describe, it, expect } from 'vitest';
+import { FixedTimestep } from '../sim/FixedTimestep';
+import { Simulation } from '../sim/Simulation';
+import type { InputState } from '../systems/InputSystem';
+
+const FIRE: InputState = {
+  left: false,
+  right: false,
+  up: true,
+  down: false,
+  fire: true,
+  bomb: false,
+  shield: false,
+  pause: false,
+};
+
+/**
+ * Run a simulation for a stretch of wall time at a given display refresh rate
+ */
+function runAtRefreshRate(hz: number, seconds: number): Simulation {
+  const sim = new Simulation({ seed: 99, godMode: true });
+  const timestep = new FixedTimestep(120);
+  const frames = Math.round(seconds * hz);
+  for (let i = 0; i < frames; i++) {
+    timestep.advance(1000 / hz, (stepMs) => sim.step(FIRE, stepMs));
+  }
+  // Top up by half a step so float drift in the accumulator can't drop the last step
+  timestep.advance(timestep.stepMs / 2, (stepMs) => sim.step(FIRE, stepMs));
+  return sim;
+}
+
+describe('FixedTimestep', () => {
+  it('runs whole steps and carries the remainder', () => {
+    const timestep = new FixedTimestep(100);
+    let steps = 0;
+    expect(timestep.advance(25, () => steps++)).toBe(2);
+    expect(steps).toBe(2);
+    expect(timestep.alpha).toBeCloseTo(0.5);
+    expect(timestep.advance(5, () => steps++)).toBe(1);
+    expect(timestep.alpha).toBeCloseTo(0);
+  });
+
+  it('drops the excess of long lag spikes', () => {
+    const timestep = new FixedTimestep(100, 250);
+    expect(timestep.advance(5000, () => {})).toBe(25);
+  });
+
+  it('gives the same run at 60 Hz and 144 Hz', () => {
+    const at60 = runAtRefreshRate(60, 20);
+    const at144 = runAtRefreshRate(144, 20);
+
+    expect(at144.frame).toBe(at60.frame);
+    expect(at144.state).toEqual(at60.state);
+    expect(at144.enemies.map((e) => [e.id, e.x, e.y])).toEqual(
+      at60.enemies.map((e) => [e.id, e.x, e.y])
+    );
+  });
+});
+
+describe('SimEntity interpolation', () => {
+  it('blends between the previous and current step', () => {
+    const sim = new Simulation({ seed: 1 });
+    const player = sim.player;
+    const startY = player.y;
+    sim.step(FIRE, 1000 / 120);
+
+    expect(player.interpolatedY(0)).toBe(startY);
+    expect(player.interpolatedY(1)).toBe(player.y);
+    expect(player.interpolatedY(0.5)).toBeCloseTo((startY + player.y) / 2);
+  });
+});
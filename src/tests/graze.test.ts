@@ -0,0 +1,65 @@
+/**
+ * Tests for grazing enemy bullets
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Simulation } from '../sim/Simulation';
+import { SimBullet } from '../sim/SimBullet';
+import { parseSnapshot, serializeSnapshot } from '../sim/Snapshot';
+import { BALANCER } from '../systems/Balancer';
+import { IDLE, STEP_MS, runFor } from './simHelpers';
+
+/**
+ * An enemy bullet flying left past the player, `gap` pixels above its hitbox
+ */
+function passBy(sim: Simulation, gap: number, id: number = 9000): SimBullet {
+  const { player } = sim;
+  const bullet = new SimBullet(id, player.x + 60, 0, Math.PI, 300, 1, 'enemy');
+  bullet.y = player.y - player.height / 2 - bullet.width / 2 - gap;
+  sim.bullets.push(bullet);
+  return bullet;
+}
+
+describe('Graze', () => {
+  it('scores each near miss once and ignores bullets further out', () => {
+    const sim = new Simulation({ seed: 1 });
+    const near = passBy(sim, BALANCER.graze.radius / 2);
+    passBy(sim, BALANCER.graze.radius * 2, 9001);
+
+    const events = runFor(sim, 500);
+    expect(events.filter((e) => e.type === 'graze')).toHaveLength(1);
+    expect(near.grazed).toBe(true);
+    expect(sim.state.graze).toBe(1);
+    expect(sim.state.grazeMeter).toBeCloseTo(BALANCER.graze.meterPerGraze);
+    expect(sim.state.score).toBeGreaterThanOrEqual(BALANCER.graze.score);
+    expect(sim.player.lives).toBe(BALANCER.playerLives);
+  });
+
+  it('refills a shield when the meter is full', () => {
+    const sim = new Simulation({ seed: 1 });
+    const shields = sim.player.shields;
+    const needed = Math.ceil(1 / BALANCER.graze.meterPerGraze);
+    for (let i = 0; i < needed; i++) {
+      passBy(sim, BALANCER.graze.radius / 2, 9000 + i);
+    }
+
+    runFor(sim, 500);
+    expect(sim.state.graze).toBe(needed);
+    expect(sim.player.shields).toBe(shields + 1);
+    expect(sim.state.grazeMeter).toBe(0);
+  });
+
+  it('does not graze while invincible, and remembers grazed bullets in snapshots', () => {
+    const sim = new Simulation({ seed: 1 });
+    sim.player.iframeTimer = 1000;
+    sim.player.isInvincible = true;
+    passBy(sim, BALANCER.graze.radius / 2);
+    sim.step(IDLE, STEP_MS);
+    expect(sim.state.graze).toBe(0);
+
+    const grazed = passBy(sim, BALANCER.graze.radius / 2, 9001);
+    grazed.grazed = true;
+    const resumed = Simulation.fromSnapshot(parseSnapshot(serializeSnapshot(sim.toSnapshot(120))));
+    expect(resumed.bullets.find((b) => b.id === grazed.id)?.grazed).toBe(true);
+  });
+});
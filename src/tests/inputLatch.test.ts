@@ -0,0 +1,42 @@
+/**
+ * Tests for holding button presses between render frames and simulation steps
+ */
+
+import { describe, it, expect } from 'vitest';
+import { FixedTimestep } from '../sim/FixedTimestep';
+import { InputLatch } from '../sim/InputLatch';
+import { Simulation } from '../sim/Simulation';
+import type { SimEvent } from '../sim/SimEvents';
+import { IDLE } from './simHelpers';
+
+describe('InputLatch', () => {
+  it('holds presses until a step reads them, then releases them', () => {
+    const latch = new InputLatch();
+    latch.hold({ ...IDLE, bomb: true });
+    expect(latch.consume(IDLE)).toEqual({ ...IDLE, bomb: true });
+    expect(latch.consume(IDLE)).toEqual(IDLE);
+
+    latch.hold({ ...IDLE, shield: true, fire: true });
+    expect(latch.consume(IDLE)).toEqual({ ...IDLE, shield: true });
+  });
+
+  it('keeps a one-frame bomb press that lands between steps at 240 Hz', () => {
+    const sim = new Simulation({ seed: 1, godMode: true });
+    const timestep = new FixedTimestep(120);
+    const latch = new InputLatch();
+    const events: SimEvent[] = [];
+    const frame = (bomb: boolean) => {
+      const input = { ...IDLE, bomb };
+      latch.hold(input);
+      return timestep.advance(1000 / 240, (stepMs) => {
+        events.push(...sim.step(latch.consume(input), stepMs));
+      });
+    };
+
+    expect(frame(true)).toBe(0);
+    for (let i = 0; i < 10; i++) {
+      frame(false);
+    }
+    expect(events.filter((e) => e.type === 'bombUsed')).toHaveLength(1);
+  });
+});
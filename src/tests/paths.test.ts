@@ -0,0 +1,114 @@
+/**
+ * Tests for authored enemy flight paths
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import JSON5 from 'json5';
+import { compilePath, parsePaths, type PathDef } from '../systems/Paths';
+import { parseWaves } from '../systems/PatternML';
+import { Simulation } from '../sim/Simulation';
+import { parseSnapshot, serializeSnapshot } from '../sim/Snapshot';
+import { IDLE, STEP_MS } from './simHelpers';
+
+// Straight line across the middle, stopping halfway for a second
+const [CROSS] = parsePaths([
+  {
+    name: 'cross',
+    type: 'catmullRom',
+    points: [
+      [1, 0.5],
+      [0.5, 0.5],
+      [-0.1, 0.5],
+    ],
+    durationMs: 2000,
+    spacingMs: 500,
+    stops: [{ at: 0.5, holdMs: 1000 }],
+  },
+]) as [PathDef];
+
+const [wave] = parseWaves([
+  {
+    t0: 0,
+    duration: 1000,
+    enemy: 'turret',
+    count: 2,
+    formation: 'line',
+    pattern: {
+      name: 'single',
+      repeat: 2,
+      spawnEveryMs: 400,
+      bullets: [{ speed: 100, angleDeg: 180 }],
+    },
+    path: 'cross',
+  },
+]);
+
+function runFor(sim: Simulation, ms: number): number {
+  let bullets = 0;
+  for (let t = 0; t < ms; t += STEP_MS) {
+    sim.step(IDLE, STEP_MS);
+    bullets = Math.max(bullets, sim.bullets.filter((b) => b.source === 'enemy').length);
+  }
+  return bullets;
+}
+
+describe('Paths', () => {
+  it('validates the bundled paths and rejects malformed bezier chains', () => {
+    const bundled = readFileSync(resolve(__dirname, '../../assets/patterns/paths.json5'), 'utf-8');
+    expect(parsePaths(JSON5.parse(bundled)).length).toBeGreaterThan(0);
+    expect(() =>
+      parsePaths([
+        {
+          name: 'bad',
+          type: 'bezier',
+          points: [
+            [0, 0],
+            [1, 1],
+            [2, 2],
+          ],
+          durationMs: 1,
+        },
+      ])
+    ).toThrow();
+  });
+
+  it('moves at constant speed along the curve, timed by the easing curve', () => {
+    const path = compilePath(CROSS, 1000, 500);
+    expect(path.point(0)).toEqual({ x: 1000, y: 250 });
+    expect(path.point(1).x).toBeCloseTo(-100);
+    expect(path.point(0.5).x).toBeCloseTo(450, 0);
+
+    expect(path.progress(1000)).toBeCloseTo(0.5);
+    const eased = compilePath({ ...CROSS, easing: [0.42, 0, 0.58, 1] }, 1000, 500);
+    expect(eased.progress(500)).toBeLessThan(0.25);
+    expect(eased.progress(2000)).toBe(1);
+  });
+
+  it('flies wave members one after another, stopping to fire partway', () => {
+    const sim = new Simulation({ seed: 1, godMode: true, paths: [CROSS] });
+    sim.spawnFormation(wave!);
+    const [first, second] = sim.enemies;
+    expect(first!.x).toBe(second!.x); // Both wait at the start
+
+    // Nothing fires on the way in
+    expect(runFor(sim, 900)).toBe(0);
+    expect(first!.x).toBeLessThan(second!.x);
+
+    // Holding at the stop fires both volleys
+    runFor(sim, 200);
+    const stoppedAt = first!.x;
+    expect(runFor(sim, 700)).toBeGreaterThan(0);
+    expect(first!.x).toBe(stoppedAt);
+    expect(first!.volleysFired).toBe(2);
+
+    const resumed = Simulation.fromSnapshot(parseSnapshot(serializeSnapshot(sim.toSnapshot(120))));
+    runFor(sim, 2000);
+    runFor(resumed, 2000);
+    expect(resumed.enemies.map((e) => [e.x, e.y])).toEqual(sim.enemies.map((e) => [e.x, e.y]));
+
+    runFor(sim, 2000);
+    expect(sim.enemies.filter((e) => e.pathName !== null)).toEqual([]);
+  });
+});
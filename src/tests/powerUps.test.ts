@@ -0,0 +1,110 @@
+/**
+ * Tests for the power-up state machine
+ */
+
+import { describe, it, expect } from 'vitest';
+import { PowerUpSystem, type PowerUpChange } from '../systems/PowerUps';
+import { BALANCER } from '../systems/Balancer';
+import { Simulation } from '../sim/Simulation';
+import { parseSnapshot, serializeSnapshot } from '../sim/Snapshot';
+import { SimBullet } from '../sim/SimBullet';
+import { IDLE, STEP_MS } from './simHelpers';
+
+describe('PowerUpSystem', () => {
+  it('caps every value at its BALANCER limit', () => {
+    const powerUps = new PowerUpSystem();
+    for (let i = 0; i < 20; i++) {
+      powerUps.upgradeWeapon();
+      powerUps.addShield();
+      powerUps.addLife();
+    }
+    expect(powerUps.weaponTier).toBe(BALANCER.maxWeaponTier);
+    expect(powerUps.getState()).toMatchObject({
+      shields: BALANCER.maxShields,
+      lives: BALANCER.playerMaxLives,
+    });
+    expect(powerUps.upgradeWeapon()).toBe(false);
+
+    while (powerUps.useBomb());
+    expect(powerUps.bombs).toBe(0);
+    expect(powerUps.useBomb()).toBe(false);
+  });
+
+  it('reports each change to its listeners', () => {
+    const powerUps = new PowerUpSystem({ lives: 2 });
+    const changes: PowerUpChange[] = [];
+    const stop = powerUps.onChange((change) => changes.push(change));
+
+    powerUps.upgradeWeapon();
+    powerUps.loseLife();
+    powerUps.useBomb();
+    expect(changes).toEqual([
+      { stat: 'weaponTier', value: 1, previous: 0 },
+      { stat: 'lives', value: 1, previous: 2 },
+      { stat: 'bombs', value: BALANCER.bombsStart - 1, previous: BALANCER.bombsStart },
+    ]);
+
+    stop();
+    powerUps.addBomb();
+    expect(changes).toHaveLength(3);
+  });
+
+  it('can lose weapon tiers with each life', () => {
+    const powerUps = new PowerUpSystem({ weaponTierLossOnHit: 2 });
+    powerUps.set('weaponTier', 3);
+    powerUps.loseLife();
+    expect(powerUps.weaponTier).toBe(1);
+    powerUps.loseLife();
+    expect(powerUps.weaponTier).toBe(0);
+
+    const keeps = new PowerUpSystem({ weaponTierLossOnHit: 0 });
+    keeps.set('weaponTier', 3);
+    keeps.loseLife();
+    expect(keeps.weaponTier).toBe(3);
+  });
+
+  it('drives the simulated player and is saved with it', () => {
+    const sim = new Simulation({ seed: 1, difficulty: 'easy' });
+    expect(sim.player.powerUps.lives).toBe(BALANCER.difficulties.easy.lives);
+
+    sim.player.upgradeWeapon();
+    const events = sim.step({ ...IDLE, bomb: true }, STEP_MS);
+    expect(events).toContainEqual({
+      type: 'powerUpChanged',
+      stat: 'bombs',
+      value: BALANCER.bombsStart - 1,
+      previous: BALANCER.bombsStart,
+    });
+
+    const resumed = Simulation.fromSnapshot(parseSnapshot(serializeSnapshot(sim.toSnapshot(120))));
+    expect(resumed.player.powerUps.getState()).toEqual(sim.player.powerUps.getState());
+    expect(resumed.step({ ...IDLE, shield: true }, STEP_MS)).toContainEqual(
+      expect.objectContaining({ type: 'powerUpChanged', stat: 'shields' })
+    );
+  });
+
+  it("loses the difficulty's weapon tiers when the simulated player is hit, after a resume too", () => {
+    const hit = (sim: Simulation) => {
+      sim.player.iframeTimer = 0; // Skip the last hit's invincibility
+      sim.player.isInvincible = false;
+      sim.bullets.push(new SimBullet(9000, sim.player.x, sim.player.y, 0, 0, 1, 'enemy'));
+      sim.step(IDLE, STEP_MS);
+      return sim.player.weaponTier;
+    };
+    const run = (difficulty: 'normal' | 'insane') => {
+      const sim = new Simulation({ seed: 1, difficulty });
+      sim.player.powerUps.set('weaponTier', 5);
+      return sim;
+    };
+
+    expect(hit(run('normal'))).toBe(5);
+    const insane = run('insane');
+    const loss = BALANCER.difficulties.insane.weaponTierLossOnHit;
+    expect(hit(insane)).toBe(5 - loss);
+
+    const resumed = Simulation.fromSnapshot(
+      parseSnapshot(serializeSnapshot(insane.toSnapshot(120)))
+    );
+    expect(hit(resumed)).toBe(5 - 2 * loss);
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Tests for the dynamic rank
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Rank } from '../sim/Rank';
+import { Simulation } from '../sim/Simulation';
+import { ReplayRecorder, parseReplay, runReplay, serializeReplay } from '../sim/Replay';
+import { parseEnemies } from '../systems/EnemyArchetypes';
+import { BALANCER } from '../systems/Balancer';
+import { DEFAULT_ENEMIES } from '../entities/EnemyTypes';
+import { IDLE, STEP_MS } from './simHelpers';
+
+// Fires one bullet whose speed depends on rank
+const ranker = parseEnemies([
+  {
+    name: 'ranker',
+    hp: 500,
+    pattern: { type: 'turret', speed: 0 },
+    fireRate: 10,
+    firePattern: {
+      name: 'ranked-shot',
+      spawnEveryMs: 0,
+      bullets: [{ speed: '100 + rank * 200', angleDeg: 180 }],
+    },
+    drops: { weapon: 0, bomb: 0, health: 0, shield: 0 },
+    score: 100,
+    sprite: 'enemyGreen1',
+    hitbox: { width: 40, height: 30 },
+  },
+]);
+
+describe('Rank', () => {
+  it('starts neutral, with every multiplier at 1', () => {
+    const rank = new Rank();
+    expect(rank.value).toBe(BALANCER.rank.start);
+    expect(rank.enemyFireRate).toBeCloseTo(1);
+    expect(rank.bulletSpeed).toBeCloseTo(1);
+    expect(rank.spawnCount).toBeCloseTo(1);
+  });
+
+  it('rises with time, score and weapon tier and falls on hits and bombs', () => {
+    const rank = new Rank();
+    rank.update(10_000, 0, 0);
+    const afterTime = rank.value;
+    expect(afterTime).toBeGreaterThan(BALANCER.rank.start);
+
+    rank.update(0, 5000, 0);
+    const afterScore = rank.value;
+    expect(afterScore).toBeGreaterThan(afterTime);
+    rank.update(0, 5000, 0); // The same score only counts once
+    expect(rank.value).toBe(afterScore);
+
+    rank.update(0, 5000, 3);
+    expect(rank.value).toBeCloseTo(afterScore + 3 * BALANCER.rank.perWeaponTier);
+
+    const beforeHit = rank.value;
+    rank.onHit();
+    expect(rank.value).toBeCloseTo(beforeHit - BALANCER.rank.hitPenalty);
+    rank.onBomb();
+    expect(rank.value).toBeCloseTo(
+      beforeHit - BALANCER.rank.hitPenalty - BALANCER.rank.bombPenalty
+    );
+  });
+
+  it('stays between 0 and 1 and scales to the configured range at either end', () => {
+    const rank = new Rank();
+    for (let i = 0; i < 20; i++) rank.onHit();
+    expect(rank.value).toBe(0);
+    expect(rank.enemyFireRate).toBeCloseTo(BALANCER.rank.enemyFireRate.min);
+
+    rank.update(0, 10_000_000, 0);
+    expect(rank.value).toBe(1);
+    expect(rank.spawnCount).toBeCloseTo(BALANCER.rank.spawnCount.max);
+
+    // A hit is felt straight away, even when the rank was pinned at the top
+    rank.onHit();
+    expect(rank.value).toBeCloseTo(1 - BALANCER.rank.hitPenalty);
+  });
+
+  it('is exposed to bullet pattern expressions', () => {
+    const sim = new Simulation({
+      seed: 1,
+      godMode: true,
+      enemies: [...DEFAULT_ENEMIES, ...ranker],
+    });
+    sim.rank.setState({ base: 1, scoredTo: 0 }, 0);
+    sim.spawnEnemy('ranker', 800, 300);
+    for (let i = 0; i < 24 && sim.bullets.length === 0; i++) {
+      sim.step(IDLE, STEP_MS);
+    }
+    const [bullet] = sim.bullets;
+    expect(bullet).toBeDefined();
+    expect(bullet!.speed).toBeCloseTo(300 * BALANCER.rank.bulletSpeed.max, 0);
+  });
+
+  it('falls when the player loses a life', () => {
+    const sim = new Simulation({ seed: 1 });
+    sim.step(IDLE, STEP_MS);
+    const beforeHit = sim.rank.value;
+    sim.spawnEnemy('chaser', sim.player.x, sim.player.y);
+    sim.step(IDLE, STEP_MS);
+    expect(sim.player.lives).toBe(BALANCER.playerLives - 1);
+    expect(sim.rank.value).toBeLessThan(beforeHit - BALANCER.rank.hitPenalty / 2);
+  });
+
+  it('is rebuilt exactly by replays, which record the final rank', () => {
+    const options = { seed: 'rank' };
+    const live = new Simulation(options);
+    const recorder = new ReplayRecorder(options, 120);
+    for (let i = 0; i < 2400; i++) {
+      const input = { ...IDLE, fire: true, bomb: i === 600 };
+      recorder.record(input, STEP_MS);
+      live.step(input, STEP_MS);
+    }
+
+    const replay = parseReplay(
+      serializeReplay(recorder.toReplay(live.state.score, live.rank.value))
+    );
+    expect(replay.finalRank).toBe(live.rank.value);
+    expect(runReplay(replay).rank.value).toBe(live.rank.value);
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * Tests for replay recording and playback
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Simulation } from '../sim/Simulation';
+import { FixedTimestep } from '../sim/FixedTimestep';
+import {
+  ReplayRecorder,
+  decodeInput,
+  encodeInput,
+  parseReplay,
+  runReplay,
+  serializeReplay,
+} from '../sim/Replay';
+import type { InputState } from '../systems/InputSystem';
+
+function input(overrides: Partial<InputState> = {}): InputState {
+  return {
+    left: false,
+    right: false,
+    up: false,
+    down: false,
+    fire: false,
+    bomb: false,
+    shield: false,
+    pause: false,
+    ...overrides,
+  };
+}
+
+describe('Replay', () => {
+  it('round-trips input through the bitmask', () => {
+    const state = input({ left: true, fire: true, shield: true });
+    expect(decodeInput(encodeInput(state))).toEqual(state);
+    expect(encodeInput(input({ pause: true }))).toBe(0);
+  });
+
+  it('rebuilds a recorded run exactly', () => {
+    const options = { seed: 'replay-test' };
+    const live = new Simulation(options);
+    const recorder = new ReplayRecorder(options, 120);
+    const timestep = new FixedTimestep(120);
+
+    // Uneven frame deltas, like a real browser
+    for (let i = 0; i < 2400; i++) {
+      const frameInput = input({
+        fire: true,
+        up: Math.floor(i / 120) % 2 === 0,
+        down: Math.floor(i / 120) % 2 === 1,
+        bomb: i === 900,
+      });
+      const delta = i % 7 === 0 ? 33.4 : 16.7;
+      recorder.record(frameInput, delta);
+      timestep.advance(delta, (stepMs) => live.step(frameInput, stepMs));
+    }
+
+    const replay = parseReplay(serializeReplay(recorder.toReplay(live.state.score)));
+    const replayed = runReplay(replay);
+
+    expect(replay.finalScore).toBe(live.state.score);
+    expect(replayed.state).toEqual(live.state);
+    expect(replayed.frame).toBe(live.frame);
+    expect(replayed.enemies.map((e) => [e.id, e.x, e.y, e.hp])).toEqual(
+      live.enemies.map((e) => [e.id, e.x, e.y, e.hp])
+    );
+  });
+
+  it('rejects replays from an unknown version', () => {
+    const text = JSON.stringify({ version: 99, seed: 1, stepHz: 120, frames: [] });
+    expect(() => parseReplay(text)).toThrow();
+  });
+});
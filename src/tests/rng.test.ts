@@ -0,0 +1,43 @@
+/**
+ * Tests for RNG state export and named streams
+ */
+
+import { describe, it, expect } from 'vitest';
+import { RNG } from '../systems/RNG';
+import { Simulation } from '../sim/Simulation';
+
+describe('RNG state', () => {
+  it('continues the same sequence after restoring its state', () => {
+    const rng = new RNG('state-test');
+    rng.float();
+    rng.float();
+    const state = rng.getState();
+    const expected = [rng.float(), rng.float(), rng.float()];
+
+    const restored = new RNG('some-other-seed');
+    restored.setState(JSON.parse(JSON.stringify(state)));
+    expect([restored.float(), restored.float(), restored.float()]).toEqual(expected);
+  });
+});
+
+describe('RNG streams', () => {
+  it('forks streams that ignore how much the parent or siblings have drawn', () => {
+    const a = new RNG(7);
+    const b = new RNG(7);
+    b.float();
+    b.fork('spawns').float();
+
+    expect(a.fork('drops').float()).toBe(b.fork('drops').float());
+    expect(a.fork('drops').float()).not.toBe(a.fork('spawns').float());
+  });
+
+  it('keeps power-up drops stable when spawn rolls change', () => {
+    const sim = new Simulation({ seed: 5 });
+    const expected = [sim.streams.drops.float(), sim.streams.drops.float()];
+
+    const other = new Simulation({ seed: 5 });
+    other.streams.spawns.float();
+    other.streams.spawns.float();
+    expect([other.streams.drops.float(), other.streams.drops.float()]).toEqual(expected);
+  });
+});
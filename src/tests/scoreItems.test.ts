@@ -0,0 +1,84 @@
+/**
+ * Tests for canceling enemy bullets into score items
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Simulation } from '../sim/Simulation';
+import { SimBullet } from '../sim/SimBullet';
+import { parseSnapshot, serializeSnapshot } from '../sim/Snapshot';
+import { ENEMY_TYPES } from '../entities/EnemyTypes';
+import { BALANCER } from '../systems/Balancer';
+import { IDLE, STEP_MS, runFor } from './simHelpers';
+
+/**
+ * A slow enemy bullet parked at (x, y)
+ */
+function enemyBullet(sim: Simulation, x: number, y: number, id: number): SimBullet {
+  const bullet = new SimBullet(id, x, y, Math.PI, 1, 1, 'enemy');
+  sim.bullets.push(bullet);
+  return bullet;
+}
+
+describe('Score items', () => {
+  it('turns bombed enemy bullets into items that fly to the player', () => {
+    const sim = new Simulation({ seed: 1, godMode: true });
+    const { x, y } = sim.player;
+    const near = [0, 1, 2].map((i) => enemyBullet(sim, x + 150, y - 50 + i * 50, 9000 + i));
+    const far = enemyBullet(sim, x + BALANCER.bombClearRadius + 100, y, 9003);
+    const shot = new SimBullet(9004, x + 100, y, 0, 1, 1, 'player');
+    sim.bullets.push(shot);
+
+    const events = sim.step({ ...IDLE, bomb: true }, STEP_MS);
+    expect(events).toContainEqual({ type: 'bulletsCanceled', x, y, count: 3 });
+    expect(near.every((b) => !b.active)).toBe(true);
+    expect(far.active).toBe(true);
+    expect(shot.active).toBe(true);
+    expect(sim.scoreItems).toHaveLength(3);
+
+    // Items hang in place for the delay, then get collected
+    const [item] = sim.scoreItems;
+    const start = { x: item!.x, y: item!.y };
+    runFor(sim, BALANCER.scoreItems.delayMs - STEP_MS * 2);
+    expect(item!).toMatchObject(start);
+
+    const score = sim.state.score;
+    const later = runFor(sim, 1000);
+    const collected = later.flatMap((e) => (e.type === 'scoreItemsCollected' ? [e] : []));
+    expect(collected.reduce((sum, e) => sum + e.count, 0)).toBe(3);
+    expect(sim.state.score - score).toBeGreaterThanOrEqual(3 * BALANCER.scoreItems.value);
+    expect(sim.scoreItems).toHaveLength(0);
+  });
+
+  it('cancels bullets when a large enemy dies', () => {
+    const gunship = { ...ENEMY_TYPES.turret!, name: 'gunship', cancelRadius: 200 };
+    const sim = new Simulation({ seed: 1, godMode: true, enemies: [gunship] });
+    const enemy = sim.spawnEnemy('gunship', 800, 300);
+    enemyBullet(sim, 850, 300, 9000);
+    enemyBullet(sim, 800, 600, 9001);
+    enemy.hp = 1;
+    sim.bullets.push(new SimBullet(9002, 790, 300, 0, 1, 1, 'player'));
+
+    const events = sim.step(IDLE, STEP_MS);
+    expect(enemy.active).toBe(false);
+    expect(events).toContainEqual(
+      expect.objectContaining({ type: 'bulletsCanceled', x: enemy.x, y: enemy.y, count: 1 })
+    );
+    expect(sim.scoreItems).toHaveLength(1);
+  });
+
+  it('saves items in flight in snapshots', () => {
+    const sim = new Simulation({ seed: 1, godMode: true });
+    enemyBullet(sim, 600, 200, 9000);
+    enemyBullet(sim, 700, 500, 9001);
+    expect(sim.cancelBullets(0, 0, Infinity)).toBe(2);
+    runFor(sim, BALANCER.scoreItems.delayMs + 100);
+
+    const resumed = Simulation.fromSnapshot(parseSnapshot(serializeSnapshot(sim.toSnapshot(120))));
+    expect(resumed.scoreItems.map((i) => [i.x, i.y, i.age, i.speed])).toEqual(
+      sim.scoreItems.map((i) => [i.x, i.y, i.age, i.speed])
+    );
+    runFor(sim, 100);
+    runFor(resumed, 100);
+    expect(resumed.state.score).toBe(sim.state.score);
+  });
+});
@@ -0,0 +1,33 @@
+/**
+ * Shared fixtures for tests that step the simulation
+ */
+
+import type { Simulation } from '../sim/Simulation';
+import type { SimEvent } from '../sim/SimEvents';
+import type { InputState } from '../systems/InputSystem';
+
+/** One simulation step at the game's fixed 120 Hz */
+export const STEP_MS = 1000 / 120;
+
+/** No buttons held */
+export const IDLE: InputState = {
+  left: false,
+  right: false,
+  up: false,
+  down: false,
+  fire: false,
+  bomb: false,
+  shield: false,
+  pause: false,
+};
+
+/**
+ * Step the simulation for `ms` with `input` held, returning the events it emitted
+ */
+export function runFor(sim: Simulation, ms: number, input: InputState = IDLE): SimEvent[] {
+  const events: SimEvent[] = [];
+  for (let t = 0; t < ms; t += STEP_MS) {
+    events.push(...sim.step(input, STEP_MS));
+  }
+  return events;
+}
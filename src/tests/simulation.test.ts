@@ -0,0 +1,100 @@
+/**
+ * Tests for the headless Simulation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Simulation } from '../sim/Simulation';
+import type { InputState } from '../systems/InputSystem';
+
+const FRAME_MS = 1000 / 60;
+
+function idleInput(overrides: Partial<InputState> = {}): InputState {
+  return {
+    left: false,
+    right: false,
+    up: false,
+    down: false,
+    fire: false,
+    bomb: false,
+    shield: false,
+    pause: false,
+    ...overrides,
+  };
+}
+
+/**
+ * Scripted input: weave up and down while firing
+ */
+function scriptedInput(frame: number): InputState {
+  const phase = Math.floor(frame / 90) % 2;
+  return idleInput({ fire: true, up: phase === 0, down: phase === 1 });
+}
+
+function runFor(sim: Simulation, frames: number, input: (frame: number) => InputState): void {
+  for (let i = 0; i < frames; i++) {
+    sim.step(input(i), FRAME_MS);
+  }
+}
+
+describe('Simulation', () => {
+  it('produces identical runs from the same seed and inputs', () => {
+    const a = new Simulation({ seed: 4242 });
+    const b = new Simulation({ seed: 4242 });
+    runFor(a, 1800, scriptedInput);
+    runFor(b, 1800, scriptedInput);
+
+    expect(a.state).toEqual(b.state);
+    expect(a.enemies.map((e) => [e.enemyType, e.x, e.y])).toEqual(
+      b.enemies.map((e) => [e.enemyType, e.x, e.y])
+    );
+    expect(a.bullets.length).toBe(b.bullets.length);
+  });
+
+  it('spawns enemies from the spawn schedule', () => {
+    const sim = new Simulation({ seed: 1, godMode: true });
+    runFor(sim, Math.ceil(2100 / FRAME_MS), () => idleInput());
+
+    expect(sim.enemies.length).toBe(1);
+    expect(sim.enemies[0]!.enemyType).toBe('chaser');
+  });
+
+  it('spawns the first boss after 50 seconds', () => {
+    const sim = new Simulation({ seed: 1, godMode: true });
+    runFor(sim, Math.ceil(50100 / FRAME_MS), () => idleInput());
+
+    expect(sim.boss).not.toBeNull();
+    expect(sim.state.bossActive).toBe(true);
+    expect(sim.bossCount).toBe(1);
+  });
+
+  it('fires player bullets and reports the shot', () => {
+    const sim = new Simulation({ seed: 1 });
+    let events = sim.step(idleInput({ fire: true }), 10);
+    expect(events.some((e) => e.type === 'playerShot')).toBe(false);
+
+    events = sim.step(idleInput({ fire: true }), 200);
+    expect(events.some((e) => e.type === 'playerShot')).toBe(true);
+    expect(sim.bullets.filter((b) => b.isPlayerBullet).length).toBe(1);
+  });
+
+  it('uses one bomb per press', () => {
+    const sim = new Simulation({ seed: 1 });
+    const startBombs = sim.player.bombs;
+    runFor(sim, 10, () => idleInput({ bomb: true }));
+    expect(sim.player.bombs).toBe(startBombs - 1);
+
+    sim.step(idleInput(), FRAME_MS);
+    sim.step(idleInput({ bomb: true }), FRAME_MS);
+    expect(sim.player.bombs).toBe(startBombs - 2);
+  });
+
+  it('ends the run when the player runs out of lives', () => {
+    const sim = new Simulation({ seed: 1 });
+    sim.player.lives = 1;
+    sim.player.takeDamage();
+    const events = sim.step(idleInput(), FRAME_MS);
+
+    expect(sim.status).toBe('defeat');
+    expect(events.some((e) => e.type === 'defeat')).toBe(true);
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * Tests for mid-run save/resume snapshots
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Simulation } from '../sim/Simulation';
+import { parseSnapshot, serializeSnapshot } from '../sim/Snapshot';
+import type { InputState } from '../systems/InputSystem';
+import { STEP_MS } from './simHelpers';
+
+function scriptedInput(step: number): InputState {
+  const phase = Math.floor(step / 180) % 2;
+  return {
+    left: false,
+    right: false,
+    up: phase === 0,
+    down: phase === 1,
+    fire: true,
+    bomb: step === 3000,
+    shield: false,
+    pause: false,
+  };
+}
+
+function runSteps(sim: Simulation, from: number, to: number): void {
+  for (let i = from; i < to; i++) {
+    sim.step(scriptedInput(i), STEP_MS);
+  }
+}
+
+describe('Simulation snapshots', () => {
+  it('resumes a run exactly where it was saved', () => {
+    const original = new Simulation({ seed: 'snapshot-test', godMode: true });
+    runSteps(original, 0, 7000); // Past the first boss spawn at 50s
+
+    const snapshot = parseSnapshot(serializeSnapshot(original.toSnapshot(120)));
+    const resumed = Simulation.fromSnapshot(snapshot);
+    expect(resumed.boss?.hp).toBe(original.boss?.hp);
+
+    runSteps(original, 7000, 9000);
+    runSteps(resumed, 7000, 9000);
+
+    expect(resumed.state).toEqual(original.state);
+    expect(resumed.bossCount).toBe(original.bossCount);
+    expect(resumed.rank.value).toBe(original.rank.value);
+    expect(resumed.enemies.map((e) => [e.id, e.enemyType, e.x, e.y, e.hp])).toEqual(
+      original.enemies.map((e) => [e.id, e.enemyType, e.x, e.y, e.hp])
+    );
+    expect(resumed.bullets.map((b) => [b.id, b.x, b.y])).toEqual(
+      original.bullets.map((b) => [b.id, b.x, b.y])
+    );
+    expect(resumed.streams.drops.float()).toBe(original.streams.drops.float());
+    expect(resumed.streams.spawns.float()).toBe(original.streams.spawns.float());
+  });
+
+  it('rejects snapshots from an unknown version', () => {
+    const snapshot = new Simulation({ seed: 1 }).toSnapshot(120);
+    const text = JSON.stringify({ ...snapshot, version: 99 });
+    expect(() => parseSnapshot(text)).toThrow();
+  });
+});
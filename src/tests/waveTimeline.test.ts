@@ -0,0 +1,55 @@
+/**
+ * Tests for the stage timeline editor's helpers
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import JSON5 from 'json5';
+import { parseWaves, type Wave } from '../systems/PatternML';
+import { cycleOption, formatWaves, rewindPoint, snapMs, waveLanes } from '../data/WaveTimeline';
+
+const wave = (t0: number, duration: number): Wave => ({
+  t0,
+  duration,
+  enemy: 'chaser',
+  count: 3,
+  formation: 'line',
+  pattern: 'ring-12',
+});
+
+describe('Wave timeline', () => {
+  it('saves JSON5 that loads back as the same waves', () => {
+    const text = readFileSync(resolve(__dirname, '../../assets/patterns/waves.json5'), 'utf-8');
+    const waves = parseWaves(JSON5.parse(text)).reverse();
+    waves[0]!.y = 0.25;
+
+    const saved = formatWaves(waves);
+    expect(saved.startsWith('// Stage waves.')).toBe(true);
+    expect(parseWaves(JSON5.parse(saved))).toEqual([...waves].sort((a, b) => a.t0 - b.t0));
+    expect(() => formatWaves([{ ...wave(0, 1000), count: 0 }])).toThrow();
+  });
+
+  it('stacks overlapping waves on separate lanes', () => {
+    expect(
+      waveLanes([wave(0, 5000), wave(3000, 1000), wave(5000, 1000), wave(3500, 2000)])
+    ).toEqual([0, 1, 0, 2]);
+  });
+
+  it('snaps times and cycles options', () => {
+    expect(snapMs(1234)).toBe(1200);
+    expect(snapMs(-80)).toBe(0);
+    expect(cycleOption(['a', 'b', 'c'], 'a', -1)).toBe('c');
+    expect(cycleOption(['a', 'b', 'c'], 'c', 1)).toBe('a');
+  });
+
+  it('rewinds to the start of the latest wave, counting loops', () => {
+    const waves = [wave(1000, 2000), wave(4000, 2000)];
+    expect(rewindPoint(waves, 500)).toBe(0);
+    expect(rewindPoint(waves, 3900)).toBe(1000);
+    expect(rewindPoint(waves, 5000)).toBe(4000);
+    // Loop length is 6000ms
+    expect(rewindPoint(waves, 8000)).toBe(7000);
+    expect(rewindPoint([], 8000)).toBe(0);
+  });
+});
@@ -0,0 +1,238 @@
+/**
+ * Tests for wave-driven stage spawning
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'fs';
+import { resolve } from 'path';
+import JSON5 from 'json5';
+import { parsePatterns, parseWaves, type BulletPat, type Wave } from '../systems/PatternML';
+import { ENEMY_TYPES } from '../entities/EnemyTypes';
+import { parseEnemies } from '../systems/EnemyArchetypes';
+import { DEFAULT_BOSSES } from '../systems/BossDefinitions';
+import { Simulation } from '../sim/Simulation';
+import { WaveSpawner } from '../sim/WaveSpawner';
+import { SimBullet } from '../sim/SimBullet';
+import { BALANCER } from '../systems/Balancer';
+import { parseSnapshot, serializeSnapshot } from '../sim/Snapshot';
+import { rewindPoint } from '../data/WaveTimeline';
+import { IDLE, STEP_MS, runFor } from './simHelpers';
+
+function readContent(file: string): unknown {
+  return JSON5.parse(readFileSync(resolve(__dirname, '../../assets/patterns', file), 'utf-8'));
+}
+
+function stageWaves(): Wave[] {
+  return parseWaves(readContent('waves.json5'));
+}
+
+function stagePatterns(): BulletPat[] {
+  return parsePatterns(readContent('patterns.json5'));
+}
+
+describe('Stage waves', () => {
+  it('only names known enemy types and patterns', () => {
+    const names = stagePatterns().map((p) => p.name);
+    const enemies = parseEnemies(readContent('enemies.json5')).map((e) => e.name);
+    for (const wave of stageWaves()) {
+      expect(enemies).toContain(wave.enemy);
+      if (typeof wave.pattern === 'string') {
+        expect(names).toContain(wave.pattern);
+      }
+    }
+  });
+
+  it('replaces the hard-coded schedule with the wave file', () => {
+    const waves = stageWaves();
+    const first = waves[0]!;
+    const sim = new Simulation({ seed: 1, godMode: true, waves, patterns: stagePatterns() });
+
+    runFor(sim, first.t0 - 100);
+    expect(sim.enemies.length).toBe(0);
+
+    runFor(sim, 200);
+    expect(sim.enemies.length).toBe(first.count);
+    expect(sim.enemies.every((e) => e.enemyType === first.enemy)).toBe(true);
+    expect(sim.enemies.map((e) => e.formationIndex)).toEqual(
+      Array.from({ length: first.count }, (_, i) => i)
+    );
+  });
+
+  it('fires the wave pattern through the pattern runner', () => {
+    const waves = stageWaves();
+    const first = waves[0]!;
+    const sim = new Simulation({ seed: 1, godMode: true, waves, patterns: stagePatterns() });
+
+    runFor(sim, first.t0 + 3000);
+    const scripted = sim.bullets.filter((b) => b.scripted);
+    expect(scripted.length).toBeGreaterThan(0);
+    expect(scripted.every((b) => b.x <= sim.width)).toBe(true);
+    expect(scripted[0]!.source).toBe('enemy');
+  });
+
+  it('resumes wave enemies and scripted bullets from a snapshot', () => {
+    const waves = stageWaves();
+    const original = new Simulation({ seed: 2, godMode: true, waves, patterns: stagePatterns() });
+    runFor(original, 5000);
+
+    const resumed = Simulation.fromSnapshot(
+      parseSnapshot(serializeSnapshot(original.toSnapshot(120)))
+    );
+    runFor(original, 3000);
+    runFor(resumed, 3000);
+
+    expect(resumed.bullets.map((b) => [b.id, b.x, b.y])).toEqual(
+      original.bullets.map((b) => [b.id, b.x, b.y])
+    );
+    expect(resumed.enemies.map((e) => [e.id, e.x, e.y])).toEqual(
+      original.enemies.map((e) => [e.id, e.x, e.y])
+    );
+  });
+});
+
+describe('Formations', () => {
+  const squad = (extra: Partial<Wave> = {}): Wave => ({
+    t0: 0,
+    duration: 5000,
+    enemy: 'chaser',
+    count: 5,
+    formation: 'v',
+    pattern: { name: 'quiet', repeat: 1, spawnEveryMs: 100000, bullets: [] },
+    ...extra,
+  });
+
+  function shoot(sim: Simulation, x: number, y: number): void {
+    sim.bullets.push(new SimBullet(9999, x, y, 0, 0, 10000, 'player'));
+  }
+
+  it('pays the wipe bonus once every member is destroyed', () => {
+    const sim = new Simulation({ seed: 1, godMode: true });
+    const formation = sim.spawnFormation(squad({ bonus: 700 }));
+    expect(sim.enemies.map((e) => e.formationId)).toEqual(Array(5).fill(formation.id));
+
+    for (const enemy of sim.enemies) {
+      enemy.x = 400; // Inside the bomb radius
+    }
+    const events = sim.step({ ...IDLE, bomb: true }, STEP_MS);
+
+    // The five kills build a chain, whose multiplier applies to the bonus too
+    const multiplier = (kills: number) => 1 + (kills - 1) * BALANCER.chain.multiplierPerKill;
+    const bonus = Math.round(700 * multiplier(5));
+    expect(events.filter((e) => e.type === 'formationWiped')).toEqual([
+      expect.objectContaining({ formationId: formation.id, bonus }),
+    ]);
+    const kills = [1, 2, 3, 4, 5].map((n) =>
+      Math.round(BALANCER.scorePerKill.chaser * multiplier(n))
+    );
+    expect(sim.state.score).toBe(kills.reduce((sum, score) => sum + score, 0) + bonus);
+    expect(sim.formations).toEqual([]);
+  });
+
+  it('breaks formation when the leader falls and pays nothing if members escape', () => {
+    const sim = new Simulation({ seed: 1, godMode: true });
+    const formation = sim.spawnFormation(squad({ leader: 'turret' }));
+    const leader = sim.enemies.find((e) => e.id === formation.leaderId)!;
+    expect(leader.enemyType).toBe('turret');
+    expect(leader.formationIndex).toBe(2); // Point of the v
+
+    runFor(sim, 2000);
+    shoot(sim, leader.x, leader.y);
+    sim.step(IDLE, STEP_MS);
+    expect(formation.killed).toBe(1);
+    const members = sim.enemies.filter((e) => e.formationId === formation.id);
+    expect(members).toHaveLength(4);
+    expect(members.every((e) => e.leaderless)).toBe(true);
+
+    const resumed = Simulation.fromSnapshot(parseSnapshot(serializeSnapshot(sim.toSnapshot(120))));
+    expect(resumed.formations[0]).toMatchObject({ id: formation.id, killed: 1, leaderless: true });
+    expect(resumed.enemies.filter((e) => e.leaderless)).toHaveLength(4);
+
+    const wiped = runFor(sim, 20000).filter((e) => e.type === 'formationWiped');
+    expect(wiped).toHaveLength(0);
+    expect(formation.lost).toBe(4);
+    expect(sim.formations).toEqual([]);
+  });
+});
+
+describe('WaveSpawner', () => {
+  const wave = (t0: number): Wave => ({
+    t0,
+    duration: 1000,
+    enemy: 'chaser',
+    count: 1,
+    formation: 'line',
+    pattern: { name: 'p', repeat: 1, spawnEveryMs: 100, bullets: [] },
+  });
+
+  it('starts partway through the timeline without spawning the waves before it', () => {
+    const waves = stageWaves();
+    const sim = new Simulation({ seed: 1, godMode: true, waves, startAtMs: 20000 });
+    expect(sim.bossTimer).toBe(20);
+
+    sim.step(IDLE, STEP_MS);
+    expect(sim.enemies).toEqual([]);
+    runFor(sim, 2100);
+    const next = waves.find((w) => w.t0 >= 20000)!;
+    expect(new Set(sim.enemies.map((e) => e.enemyType))).toEqual(
+      new Set([next.enemy, next.leader].filter(Boolean))
+    );
+  });
+
+  it('rewinds into the boss phase the run was in, without the debug shortcut', () => {
+    const waves = stageWaves();
+    const bosses = [0, 1, 2].map((i) => DEFAULT_BOSSES[i % DEFAULT_BOSSES.length]!);
+    const sim = new Simulation({ seed: 1, godMode: true, waves, bosses });
+    for (let i = 0; i < 2; i++) {
+      sim.bossTimer = sim.bosses[i]!.spawnAfterSec;
+      sim.step(IDLE, STEP_MS);
+      sim.boss!.hp = 0;
+      sim.step(IDLE, STEP_MS);
+    }
+    runFor(sim, 3000);
+    expect(sim.bossesDefeated).toBe(2);
+
+    // As GameScene.rewindTo restarts the run
+    const rewound = new Simulation({
+      ...sim.options,
+      startAtMs: rewindPoint(waves, sim.waveTimeMs),
+      bossesDefeated: sim.bossesDefeated,
+    });
+    expect(rewound.bossCount).toBe(2);
+    expect(rewound.spawnRateMultiplier).toBeCloseTo(sim.spawnRateMultiplier);
+    expect(rewound.player.weaponTier).toBe(0);
+    expect(rewound.waveTimeMs).toBeLessThanOrEqual(sim.waveTimeMs);
+  });
+
+  it('swaps reloaded waves into a run in progress', () => {
+    const waves = stageWaves();
+    const first = waves[0]!;
+    const sim = new Simulation({ seed: 1, godMode: true, waves, patterns: stagePatterns() });
+    runFor(sim, first.t0 + 100);
+    const live = sim.enemies.map((e) => e.id);
+    expect(live.length).toBe(first.count);
+
+    const other = Object.keys(ENEMY_TYPES).find((name) => name !== first.enemy)!;
+    const snapshot = Simulation.reloadContent(sim.toSnapshot(120), {
+      waves: [first, { ...first, t0: first.t0 + 1000, enemy: other, leader: undefined }],
+    });
+    const resumed = Simulation.fromSnapshot(snapshot);
+    expect(resumed.enemies.map((e) => e.id)).toEqual(live);
+
+    // The wave already played isn't spawned again; the new one comes up on time
+    runFor(resumed, 1000);
+    expect(resumed.enemies.filter((e) => e.enemyType === first.enemy).length).toBeLessThanOrEqual(
+      first.count
+    );
+    expect(resumed.enemies.filter((e) => e.enemyType === other).length).toBe(first.count);
+  });
+
+  it('loops the timeline and restarts when the stage clock resets', () => {
+    const spawner = new WaveSpawner([wave(0), wave(2000)]);
+    expect(spawner.due(0).map((w) => w.t0)).toEqual([0]);
+    expect(spawner.due(2500).map((w) => w.t0)).toEqual([2000]);
+    // Loop length is 3000ms
+    expect(spawner.due(3100).map((w) => w.t0)).toEqual([0]);
+    // Clock reset after a boss
+    expect(spawner.due(10).map((w) => w.t0)).toEqual([0]);
+  });
+});
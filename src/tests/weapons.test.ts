@@ -0,0 +1,111 @@
+/**
+ * Tests for weapon families: pickups, levels and per-family bullet behavior
+ */
+
+import { describe, it, expect } from 'vitest';
+import { PowerUpSystem, type PowerUpChange } from '../systems/PowerUps';
+import { BALANCER, getMaxWeaponLevel, getWeaponSpec } from '../systems/Balancer';
+import { Simulation } from '../sim/Simulation';
+import { parseSnapshot, serializeSnapshot } from '../sim/Snapshot';
+import { IDLE, STEP_MS } from './simHelpers';
+import type { WeaponFamily } from '../types';
+
+function armed(family: WeaponFamily, level: number = 0): Simulation {
+  const sim = new Simulation({ seed: 1, godMode: true });
+  sim.player.powerUps.selectWeapon(family);
+  sim.player.weaponTier = level;
+  return sim;
+}
+
+/**
+ * Hold fire until the first volley is out, then release
+ */
+function fireOnce(sim: Simulation): void {
+  while (!sim.bullets.some((b) => b.isPlayerBullet)) {
+    sim.step({ ...IDLE, fire: true }, STEP_MS);
+  }
+}
+
+const playerBullets = (sim: Simulation) => sim.bullets.filter((b) => b.isPlayerBullet);
+
+describe('Weapon families', () => {
+  it('level up independently, each pickup switching to its family', () => {
+    const powerUps = new PowerUpSystem();
+    const changes: PowerUpChange[] = [];
+    powerUps.onChange((change) => changes.push(change));
+
+    powerUps.collectWeapon('spread');
+    powerUps.collectWeapon('laser');
+    powerUps.collectWeapon('laser');
+    expect(powerUps.weapon).toBe('laser');
+    expect(powerUps.weaponTier).toBe(2);
+    expect(changes).toContainEqual({ stat: 'weapon', value: 'laser', previous: 'spread' });
+
+    powerUps.collectWeapon('spread');
+    expect(powerUps.weaponTier).toBe(2);
+    expect(powerUps.getState().weaponLevels).toMatchObject({ spread: 2, laser: 2, homing: 0 });
+
+    for (let i = 0; i < 10; i++) powerUps.collectWeapon('homing');
+    expect(powerUps.weaponTier).toBe(getMaxWeaponLevel('homing'));
+    expect(powerUps.isWeaponMaxed('homing')).toBe(true);
+    expect(powerUps.isWeaponMaxed('wave')).toBe(false);
+    expect(getWeaponSpec('homing', powerUps.weaponTier)).toEqual(powerUps.weaponSpec);
+  });
+
+  it('fires piercing laser beams that hit each enemy once', () => {
+    const sim = armed('laser');
+    const y = sim.player.y;
+    const line = [500, 600, 700].map((x) => sim.spawnEnemy('turret', x, y));
+
+    fireOnce(sim);
+    expect(playerBullets(sim)).toHaveLength(1);
+    for (let i = 0; i < 120; i++) sim.step(IDLE, STEP_MS);
+
+    const { damage } = getWeaponSpec('laser', 0);
+    for (const enemy of line) {
+      expect(enemy.maxHp - enemy.hp).toBe(damage);
+    }
+  });
+
+  it('steers homing missiles towards the nearest enemy', () => {
+    const sim = armed('homing');
+    const target = sim.spawnEnemy('turret', sim.player.x + 300, sim.player.y - 250);
+
+    fireOnce(sim);
+    const [missile] = playerBullets(sim);
+    for (let i = 0; i < 30; i++) sim.step(IDLE, STEP_MS);
+    expect(missile!.angle).toBeLessThan(-0.5); // Turned up towards the target
+    expect(missile!.y).toBeLessThan(sim.player.y);
+    expect(target.active).toBe(true);
+  });
+
+  it('sways wave shots and passes them through one enemy', () => {
+    const sim = armed('wave');
+    fireOnce(sim);
+    const [shot] = playerBullets(sim);
+    expect(shot!.pierce).toBe(BALANCER.weaponFamilies.wave.pierce);
+
+    const startY = shot!.y;
+    let furthest = 0;
+    for (let i = 0; i < 40; i++) {
+      sim.step(IDLE, STEP_MS);
+      furthest = Math.max(furthest, Math.abs(shot!.y - startY));
+    }
+    expect(furthest).toBeGreaterThan(BALANCER.weaponFamilies.wave.amplitude * 0.9);
+  });
+
+  it('fires the tail gun backwards and saves bullet behavior in snapshots', () => {
+    const sim = armed('tail', getMaxWeaponLevel('tail'));
+    fireOnce(sim);
+    const rear = playerBullets(sim).filter((b) => Math.cos(b.angle) < 0);
+    expect(rear).toHaveLength(getWeaponSpec('tail', getMaxWeaponLevel('tail')).rearBulletCount!);
+
+    sim.player.powerUps.collectWeapon('laser');
+    for (let i = 0; i < 30; i++) sim.step({ ...IDLE, fire: true }, STEP_MS);
+    const resumed = Simulation.fromSnapshot(parseSnapshot(serializeSnapshot(sim.toSnapshot(120))));
+    expect(resumed.player.weapon).toBe('laser');
+    expect(resumed.bullets.map((b) => [b.family, b.beamLength])).toEqual(
+      sim.bullets.map((b) => [b.family, b.beamLength])
+    );
+  });
+});
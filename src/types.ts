@@ -2,6 +2,14 @@
  * Core type definitions for Synax In Space
  */
 
+import type { BulletPat } from './systems/PatternML';
+import type { DifficultyName } from './systems/Difficulty';
+
+/**
+ * Weapon families, each levelled by its own pickup ('weapon' pickups level the spread shot)
+ */
+export type WeaponFamily = 'spread' | 'laser' | 'homing' | 'wave' | 'tail';
+
 export interface WeaponSpec {
   /** Fire rate in shots per second */
   fireRate: number;
@@ -13,6 +21,20 @@ export interface WeaponSpec {
   bulletCount: number;
   /** Angle spread in degrees for multi-bullet shots */
   spreadAngle: number;
+  /** Family the spec belongs to (spread when unset) */
+  family?: WeaponFamily;
+  /** Enemies each bullet passes through before it is spent */
+  pierce?: number;
+  /** Homing: turn rate towards the nearest enemy in radians per second */
+  homingTurnRate?: number;
+  /** Wave: sideways sway in pixels, and sways per second */
+  waveAmplitude?: number;
+  waveFrequency?: number;
+  /** Laser: beam length in pixels; a beam hits everything along it once */
+  beamLength?: number;
+  /** Tail gun: bullets fired backwards, and their spread in degrees */
+  rearBulletCount?: number;
+  rearSpreadAngle?: number;
 }
 
 export interface EnemyPattern {
@@ -44,26 +66,100 @@ export interface WaveConfig {
 export interface GameState {
   score: number;
   lives: number;
+  weapon: WeaponFamily;
   weaponTier: number;
   bombs: number;
   shields: number;
   stageTime: number;
+  /** Current kill chain and its score multiplier */
+  chain: number;
+  chainMultiplier: number;
+  /** Bullets grazed, and the graze meter (0-1) */
+  graze: number;
+  grazeMeter: number;
+  /** Extra lives earned from score */
+  extends: number;
   bossActive: boolean;
   paused: boolean;
 }
 
+/**
+ * Result of a finished run, shown by DeathScene and EndScene
+ */
+export interface RunSummary {
+  difficulty: DifficultyName;
+  score: number;
+  /** Best score for the difficulty, including this run */
+  highScore: number;
+  newHighScore: boolean;
+  /** Longest kill chain */
+  peakChain: number;
+  /** Extra lives earned from score */
+  extends: number;
+}
+
 export interface PowerUpType {
-  type: 'weapon' | 'bomb' | 'health' | 'shield';
+  type: 'weapon' | Exclude<WeaponFamily, 'spread'> | 'bomb' | 'health' | 'shield';
   value: number;
 }
 
+/**
+ * Chance (0-1) of each power-up dropping when an enemy dies; at most one drops.
+ * Weapon family pickups other than 'weapon' are optional and default to 0
+ */
+export type DropTable = Record<'weapon' | 'bomb' | 'health' | 'shield', number> &
+  Partial<Record<PowerUpType['type'], number>>;
+
+export interface EnemyArchetype {
+  /** Registry key that waves and spawn schedules refer to */
+  name: string;
+  hp: number;
+  /** Movement: chaser tracks the player to the left edge, turret creeps forward, sine weaves */
+  pattern: EnemyPattern;
+  /** Shots per second */
+  fireRate: number;
+  /**
+   * Fire pattern (inline, a pattern library name, or a BulletML script as "bulletml/<file>.xml");
+   * aimed single shots when unset. Waves override it
+   */
+  firePattern?: string | BulletPat;
+  drops: DropTable;
+  score: number;
+  /** Sprite (atlas frame or texture key) */
+  sprite: string;
+  /** Texture used when the sprite isn't loaded */
+  fallbackTexture?: string;
+  /** Collision box; defaults to the Hitboxes entry for the name */
+  hitbox?: { width: number; height: number };
+  /** Radius around a large enemy in which its death cancels enemy bullets into score items */
+  cancelRadius?: number;
+}
+
 export interface BossPhase {
   /** HP threshold (0-1) when this phase starts */
   hpThreshold: number;
-  /** Movement pattern */
+  /** Movement pattern: sine bobs around the start position, chaser closes in, turret returns to it */
   pattern: EnemyPattern;
-  /** Fire pattern identifier */
-  firePattern: string;
+  /** Fire pattern: inline, the name of a pattern in the pattern library, or "bulletml/<file>.xml" */
+  firePattern: string | BulletPat;
+  /** Time between volleys in ms */
+  fireIntervalMs: number;
+  /** Sprite for this phase (atlas frame or texture key); defaults to the boss sprite */
+  sprite?: string;
+}
+
+export interface BossDefinition {
+  name: string;
+  /** Total HP; phases start as it falls below their hpThreshold */
+  hp: number;
+  /** Seconds on the boss timer (reset after each boss) before this boss appears */
+  spawnAfterSec: number;
+  /** Score for defeating the boss */
+  score: number;
+  /** Sprite (atlas frame or texture key) */
+  sprite: string;
+  scale: number;
+  phases: BossPhase[];
 }
 
 export interface CollisionBounds {
@@ -0,0 +1,17 @@
+/**
+ * Run summary text shared by the death and end screens
+ */
+
+import { difficultyPreset } from '../systems/Difficulty';
+import type { RunSummary } from '../types';
+
+export function runSummaryLines(summary: RunSummary): string[] {
+  const label = difficultyPreset(summary.difficulty).label;
+  const score = summary.score.toString().padStart(7, '0');
+  const best = summary.highScore.toString().padStart(7, '0');
+  return [
+    `DIFFICULTY: ${label}   SCORE: ${score}`,
+    summary.newHighScore ? `NEW ${label} HIGH SCORE!` : `${label} HIGH SCORE: ${best}`,
+    `PEAK CHAIN: ${summary.peakChain}   EXTENDS: ${summary.extends}`,
+  ];
+}
@@ -45,6 +45,29 @@ export function circleCollision(a: CircleBounds, b: CircleBounds): boolean {
   return distance <= a.radius + b.radius;
 }
 
+/**
+ * Check collision between a line segment of the given thickness and a circle
+ */
+export function segmentCircleCollision(
+  x1: number,
+  y1: number,
+  x2: number,
+  y2: number,
+  thickness: number,
+  circle: CircleBounds
+): boolean {
+  const dx = x2 - x1;
+  const dy = y2 - y1;
+  const lengthSq = dx * dx + dy * dy;
+  // Closest point on the segment to the circle's center
+  const t =
+    lengthSq === 0
+      ? 0
+      : Math.max(0, Math.min(1, ((circle.x - x1) * dx + (circle.y - y1) * dy) / lengthSq));
+  const reach = circle.radius + thickness / 2;
+  return distance(x1 + t * dx, y1 + t * dy, circle.x, circle.y) <= reach;
+}
+
 /**
  * Calculate distance between two points
  */
@@ -1,10 +1,37 @@
-import { defineConfig } from 'vite';
-import { resolve } from 'path';
+import { defineConfig, type Plugin } from 'vite';
+import { relative, resolve } from 'path';
+import { readContentSources } from './scripts/content-sources.mjs';
 
 const isElectron = process.env.ELECTRON === 'true';
 
+const CONTENT_DIR = resolve(__dirname, 'assets/patterns');
+
+/**
+ * Dev only: when a stage content file changes, push every content file to the game
+ * (see src/data/ContentReload.ts) instead of reloading the page
+ */
+function contentHotReload(): Plugin {
+  return {
+    name: 'content-hot-reload',
+    apply: 'serve',
+    async handleHotUpdate({ file, server }) {
+      const changed = relative(CONTENT_DIR, file).replace(/\\/g, '/');
+      if (changed.startsWith('..') || !/\.(json5|xml)$/.test(changed)) {
+        return undefined;
+      }
+      server.ws.send({
+        type: 'custom',
+        event: 'content:update',
+        data: { changed, sources: await readContentSources(CONTENT_DIR) },
+      });
+      return [];
+    },
+  };
+}
+
 export default defineConfig({
   base: isElectron ? './' : '/',
+  plugins: [contentHotReload()],
   server: {
     port: 3000,
     open: !isElectron, // Don't open browser when running in Electron